@@ -0,0 +1,16 @@
+-- Garbage-collect LangGraph checkpoint rows whose thread no longer exists.
+-- Threads deleted before checkpoints were removed together with them left these behind.
+-- Run: pnpm db:gc-checkpoints
+
+BEGIN;
+
+DELETE FROM "checkpoint_writes" w
+WHERE NOT EXISTS (SELECT 1 FROM "Thread" t WHERE t."id" = w."thread_id");
+
+DELETE FROM "checkpoint_blobs" b
+WHERE NOT EXISTS (SELECT 1 FROM "Thread" t WHERE t."id" = b."thread_id");
+
+DELETE FROM "checkpoints" c
+WHERE NOT EXISTS (SELECT 1 FROM "Thread" t WHERE t."id" = c."thread_id");
+
+COMMIT;
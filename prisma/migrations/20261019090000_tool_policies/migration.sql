@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "ToolApprovalPolicy" AS ENUM ('always_allow', 'always_ask', 'always_deny');
+
+-- CreateTable
+CREATE TABLE "ToolPolicy" (
+    "id" TEXT NOT NULL,
+    "serverId" TEXT NOT NULL,
+    "toolName" TEXT NOT NULL,
+    "policy" "ToolApprovalPolicy" NOT NULL DEFAULT 'always_ask',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ToolPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ToolPolicy_serverId_toolName_key" ON "ToolPolicy"("serverId", "toolName");
+
+-- AddForeignKey
+ALTER TABLE "ToolPolicy" ADD CONSTRAINT "ToolPolicy_serverId_fkey" FOREIGN KEY ("serverId") REFERENCES "MCPServer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
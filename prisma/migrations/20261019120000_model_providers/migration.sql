@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "ModelProviderType" AS ENUM ('openai', 'google', 'deepseek', 'anthropic', 'openai_compatible');
+
+-- CreateTable
+CREATE TABLE "ModelProvider" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "ModelProviderType" NOT NULL,
+    "baseURL" TEXT,
+    "apiKey" TEXT,
+    "allowedModels" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ModelProvider_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ModelProvider_name_key" ON "ModelProvider"("name");
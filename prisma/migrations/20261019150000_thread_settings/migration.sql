@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "ThreadSettings" (
+    "threadId" TEXT NOT NULL,
+    "provider" TEXT,
+    "model" TEXT,
+    "systemPrompt" TEXT,
+    "tools" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "approveAllTools" BOOLEAN NOT NULL DEFAULT false,
+    "params" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ThreadSettings_pkey" PRIMARY KEY ("threadId")
+);
+
+-- AddForeignKey
+ALTER TABLE "ThreadSettings" ADD CONSTRAINT "ThreadSettings_threadId_fkey" FOREIGN KEY ("threadId") REFERENCES "Thread"("id") ON DELETE CASCADE ON UPDATE CASCADE;
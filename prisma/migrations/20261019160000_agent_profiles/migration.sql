@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "AgentProfile" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "systemPrompt" TEXT,
+    "provider" TEXT,
+    "model" TEXT,
+    "params" JSONB,
+    "mcpServerIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "toolPolicy" "ToolApprovalPolicy" NOT NULL DEFAULT 'always_ask',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AgentProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "ThreadSettings" ADD COLUMN "profileId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AgentProfile_name_key" ON "AgentProfile"("name");
+
+-- AddForeignKey
+ALTER TABLE "ThreadSettings" ADD CONSTRAINT "ThreadSettings_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "AgentProfile"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "RunUsage" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "threadId" TEXT,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "inputTokens" INTEGER NOT NULL,
+    "outputTokens" INTEGER NOT NULL,
+    "totalTokens" INTEGER NOT NULL,
+    "cost" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RunUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RunUsage_threadId_idx" ON "RunUsage"("threadId");
+
+-- CreateIndex
+CREATE INDEX "RunUsage_createdAt_idx" ON "RunUsage"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "RunUsage" ADD CONSTRAINT "RunUsage_threadId_fkey" FOREIGN KEY ("threadId") REFERENCES "Thread"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- Trigram matching covers substrings and scripts without word boundaries
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- CreateTable
+CREATE TABLE "ThreadMessage" (
+    "threadId" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "name" TEXT,
+    "content" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "ThreadMessage_pkey" PRIMARY KEY ("threadId","messageId")
+);
+
+-- CreateIndex
+CREATE INDEX "ThreadMessage_content_fts_idx" ON "ThreadMessage" USING GIN (to_tsvector('simple', "content"));
+
+-- CreateIndex
+CREATE INDEX "ThreadMessage_content_trgm_idx" ON "ThreadMessage" USING GIN ("content" gin_trgm_ops);
+
+-- AddForeignKey
+ALTER TABLE "ThreadMessage" ADD CONSTRAINT "ThreadMessage_threadId_fkey" FOREIGN KEY ("threadId") REFERENCES "Thread"("id") ON DELETE CASCADE ON UPDATE CASCADE;
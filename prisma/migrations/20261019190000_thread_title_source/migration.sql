@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "ThreadTitleSource" AS ENUM ('initial', 'generated', 'manual');
+
+-- AlterTable
+-- Existing titles may have been renamed by hand, so only placeholders get a generated title
+ALTER TABLE "Thread" ADD COLUMN "titleSource" "ThreadTitleSource" NOT NULL DEFAULT 'manual';
+UPDATE "Thread" SET "titleSource" = 'initial' WHERE "title" = 'New thread';
+ALTER TABLE "Thread" ALTER COLUMN "titleSource" SET DEFAULT 'initial';
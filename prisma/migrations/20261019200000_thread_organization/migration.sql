@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "Thread" ADD COLUMN     "archived" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "folderId" TEXT,
+ADD COLUMN     "pinned" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "ThreadFolder" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ThreadFolder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ThreadFolder_name_key" ON "ThreadFolder"("name");
+
+-- CreateIndex
+CREATE INDEX "Thread_folderId_idx" ON "Thread"("folderId");
+
+-- CreateIndex
+CREATE INDEX "Thread_tags_idx" ON "Thread" USING GIN ("tags");
+
+-- AddForeignKey
+ALTER TABLE "Thread" ADD CONSTRAINT "Thread_folderId_fkey" FOREIGN KEY ("folderId") REFERENCES "ThreadFolder"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "AgentProfile" ADD COLUMN     "fallbacks" JSONB;
+
+-- AlterTable
+ALTER TABLE "ThreadSettings" ADD COLUMN     "fallbacks" JSONB;
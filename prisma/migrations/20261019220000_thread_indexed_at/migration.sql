@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Thread" ADD COLUMN     "indexedAt" TIMESTAMP(3);
+
+-- Threads with indexed messages ran since message search shipped, the rest are indexed
+-- by the next search
+UPDATE "Thread" SET "indexedAt" = CURRENT_TIMESTAMP
+WHERE EXISTS (SELECT 1 FROM "ThreadMessage" m WHERE m."threadId" = "Thread"."id");
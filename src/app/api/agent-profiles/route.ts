@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/database/prisma";
+import { toAgentProfile } from "@/lib/agent/profiles";
+import { AgentProfileCreate, agentProfileCreateSchema, agentProfileUpdateSchema } from "./schema";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * Maps validated fields onto Prisma data; JSON null has to be spelled Prisma.DbNull.
+ */
+function toProfileData({ params, fallbacks, ...fields }: Partial<AgentProfileCreate>) {
+  return {
+    ...fields,
+    params: params === null ? Prisma.DbNull : (params as Prisma.InputJsonObject | undefined),
+    fallbacks:
+      fallbacks === null ? Prisma.DbNull : (fallbacks as Prisma.InputJsonArray | undefined),
+  };
+}
+
+async function readBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return undefined;
+  }
+}
+
+function invalidBody(issues: unknown) {
+  return NextResponse.json({ error: "Invalid request body", issues }, { status: 400 });
+}
+
+export async function GET() {
+  try {
+    const profiles = await prisma.agentProfile.findMany({
+      orderBy: { name: "asc" },
+    });
+    return NextResponse.json(profiles.map(toAgentProfile));
+  } catch (error) {
+    console.error("Error fetching agent profiles:", error);
+    return NextResponse.json({ error: "Failed to fetch agent profiles" }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const result = agentProfileCreateSchema.safeParse(await readBody(request));
+  if (!result.success) {
+    return invalidBody(result.error.issues);
+  }
+
+  try {
+    const profile = await prisma.agentProfile.create({
+      data: toProfileData(result.data) as Prisma.AgentProfileCreateInput,
+    });
+    return NextResponse.json(toAgentProfile(profile), { status: 201 });
+  } catch (error) {
+    console.error("Error creating agent profile:", error);
+    if ((error as { code?: string })?.code === "P2002") {
+      return NextResponse.json({ error: "Profile name already exists" }, { status: 409 });
+    }
+    return NextResponse.json({ error: "Failed to create agent profile" }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: Request) {
+  const result = agentProfileUpdateSchema.safeParse(await readBody(request));
+  if (!result.success) {
+    return invalidBody(result.error.issues);
+  }
+
+  try {
+    const { id, ...fields } = result.data;
+    const profile = await prisma.agentProfile.update({
+      where: { id },
+      data: toProfileData(fields),
+    });
+    return NextResponse.json(toAgentProfile(profile));
+  } catch (error) {
+    console.error("Error updating agent profile:", error);
+    if ((error as { code?: string })?.code === "P2025") {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+    if ((error as { code?: string })?.code === "P2002") {
+      return NextResponse.json({ error: "Profile name already exists" }, { status: 409 });
+    }
+    return NextResponse.json({ error: "Failed to update agent profile" }, { status: 500 });
+  }
+}
+
+/**
+ * Deletes a profile; threads using it keep their own settings and lose the profile.
+ */
+export async function DELETE(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get("id");
+
+    if (!id) {
+      return NextResponse.json({ error: "ID is required" }, { status: 400 });
+    }
+
+    await prisma.agentProfile.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting agent profile:", error);
+    if ((error as { code?: string })?.code === "P2025") {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+    return NextResponse.json({ error: "Failed to delete agent profile" }, { status: 500 });
+  }
+}
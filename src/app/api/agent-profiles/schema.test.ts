@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { agentProfileCreateSchema, agentProfileUpdateSchema } from "./schema";
+
+describe("agentProfileCreateSchema", () => {
+  it("should accept a profile with only a name", () => {
+    expect(agentProfileCreateSchema.parse({ name: "  Researcher " })).toEqual({
+      name: "Researcher",
+    });
+  });
+
+  it("should require a name", () => {
+    expect(agentProfileCreateSchema.safeParse({ model: "gpt-4o" }).success).toBe(false);
+    expect(agentProfileCreateSchema.safeParse({ name: "   " }).success).toBe(false);
+  });
+
+  it("should validate the tool policy and generation parameters", () => {
+    const profile = {
+      name: "Coder",
+      toolPolicy: "always_allow",
+      mcpServerIds: ["server-1"],
+      params: { temperature: 0.2 },
+    };
+    expect(agentProfileCreateSchema.safeParse(profile).success).toBe(true);
+    expect(
+      agentProfileCreateSchema.safeParse({ ...profile, toolPolicy: "sometimes" }).success,
+    ).toBe(false);
+    expect(
+      agentProfileCreateSchema.safeParse({ ...profile, params: { temperature: 3 } }).success,
+    ).toBe(false);
+  });
+});
+
+describe("agentProfileUpdateSchema", () => {
+  it("should require an id and allow partial updates", () => {
+    expect(agentProfileUpdateSchema.parse({ id: "p1", systemPrompt: null })).toEqual({
+      id: "p1",
+      systemPrompt: null,
+    });
+    expect(agentProfileUpdateSchema.safeParse({ name: "Coder" }).success).toBe(false);
+  });
+});
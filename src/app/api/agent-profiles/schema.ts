@@ -0,0 +1,32 @@
+import { z } from "zod";
+import { generationParamsSchema, modelRefSchema } from "@/app/api/agent/stream/schema";
+import { ToolApprovalPolicy } from "@/types/mcp";
+
+const profileFields = {
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).nullable().optional(),
+  systemPrompt: z.string().max(20000).nullable().optional(),
+  provider: z.string().min(1).nullable().optional(),
+  model: z.string().min(1).nullable().optional(),
+  params: generationParamsSchema.nullable().optional(),
+  fallbacks: z.array(modelRefSchema).max(5).nullable().optional(),
+  mcpServerIds: z.array(z.string().min(1)).optional(),
+  toolPolicy: z.nativeEnum(ToolApprovalPolicy).optional(),
+};
+
+/**
+ * JSON body accepted by POST /api/agent-profiles.
+ */
+export const agentProfileCreateSchema = z.object(profileFields);
+
+/**
+ * JSON body accepted by PATCH /api/agent-profiles. Omitted fields keep their stored
+ * value, `null` clears them.
+ */
+export const agentProfileUpdateSchema = z.object({
+  id: z.string().min(1),
+  ...profileFields,
+  name: profileFields.name.optional(),
+});
+
+export type AgentProfileCreate = z.infer<typeof agentProfileCreateSchema>;
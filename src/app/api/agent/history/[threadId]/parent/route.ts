@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { fetchParentCheckpoint } from "@/services/agentService";
+import { hasCheckpoint } from "@/lib/agent/memory";
+import { parentCheckpointQuerySchema } from "./schema";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ threadId: string }> };
+
+/**
+ * Checkpoint right before a message of the conversation shown; streaming from it
+ * regenerates or replaces the message. Looked up per message rather than with the
+ * history, as it takes reading checkpoints along the branch.
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  const { threadId } = await params;
+  const result = parentCheckpointQuerySchema.safeParse(
+    Object.fromEntries(new URL(req.url).searchParams),
+  );
+  if (!result.success) {
+    return NextResponse.json(
+      { error: "Invalid query parameters", issues: result.error.issues },
+      { status: 400 },
+    );
+  }
+  const { messageId, checkpointId } = result.data;
+
+  try {
+    if (checkpointId && !(await hasCheckpoint(threadId, checkpointId))) {
+      return NextResponse.json({ error: "Checkpoint not found" }, { status: 404 });
+    }
+    const parentCheckpointId = await fetchParentCheckpoint(threadId, messageId, checkpointId);
+    if (!parentCheckpointId) {
+      return NextResponse.json({ error: "No checkpoint precedes this message" }, { status: 404 });
+    }
+    return NextResponse.json({ checkpointId: parentCheckpointId });
+  } catch (error) {
+    console.error("Error finding parent checkpoint:", error);
+    return NextResponse.json({ error: "Failed to find parent checkpoint" }, { status: 500 });
+  }
+}
@@ -0,0 +1,16 @@
+import { describe, it, expect } from "vitest";
+import { parentCheckpointQuerySchema } from "./schema";
+
+describe("parentCheckpointQuerySchema", () => {
+  it("should require the message", () => {
+    expect(parentCheckpointQuerySchema.safeParse({}).success).toBe(false);
+    expect(parentCheckpointQuerySchema.safeParse({ messageId: "" }).success).toBe(false);
+  });
+
+  it("should accept the checkpoint shown", () => {
+    expect(parentCheckpointQuerySchema.parse({ messageId: "m1", checkpointId: "cp-1" })).toEqual({
+      messageId: "m1",
+      checkpointId: "cp-1",
+    });
+  });
+});
@@ -0,0 +1,10 @@
+import { z } from "zod";
+
+/**
+ * Query parameters accepted by GET /api/agent/history/{threadId}/parent. `checkpointId`
+ * is the checkpoint of the conversation shown, the latest one when omitted.
+ */
+export const parentCheckpointQuerySchema = z.object({
+  messageId: z.string().min(1),
+  checkpointId: z.string().min(1).optional(),
+});
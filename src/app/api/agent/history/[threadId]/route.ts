@@ -1,13 +1,53 @@
 import { NextResponse } from "next/server";
-import { fetchThreadHistory } from "@/services/agentService";
+import {
+  fetchMessageBranches,
+  fetchPendingInterrupts,
+  fetchThreadHistory,
+  fetchThreadSummary,
+} from "@/services/agentService";
+import { hasCheckpoint } from "@/lib/agent/memory";
+import type { ThreadHistoryResponse } from "@/types/message";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
 
-export async function GET(_req: Request, { params }: { params: Promise<{ threadId: string }> }) {
+/**
+ * History of a thread at its latest checkpoint, or at `?checkpointId=` to show another
+ * branch (see MessageBranch). Responds with the bare message array clients have always
+ * read, or with `?detail=true` with the thread's interrupts, summary and branches too
+ * (ThreadHistoryResponse).
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ threadId: string }> }) {
   // In Next.js 15 dynamic route handlers, params is now async.
   const { threadId } = await params;
+  const { searchParams } = new URL(req.url);
+  const checkpointId = searchParams.get("checkpointId") || undefined;
+  const detail = searchParams.get("detail") === "true";
 
-  const messages = await fetchThreadHistory(threadId);
-  return NextResponse.json(messages, { status: 200 });
+  if (checkpointId && !(await hasCheckpoint(threadId, checkpointId))) {
+    return NextResponse.json({ error: "Checkpoint not found" }, { status: 404 });
+  }
+
+  if (!detail) {
+    return NextResponse.json(await fetchThreadHistory(threadId, checkpointId), { status: 200 });
+  }
+
+  const [messages, interrupts, summary] = await Promise.all([
+    fetchThreadHistory(threadId, checkpointId),
+    fetchPendingInterrupts(threadId, checkpointId),
+    fetchThreadSummary(threadId, checkpointId),
+  ]);
+  const { checkpointId: shownCheckpointId, branches } = await fetchMessageBranches(
+    threadId,
+    messages,
+    checkpointId,
+  );
+  const history: ThreadHistoryResponse = {
+    messages,
+    interrupts,
+    summary,
+    checkpointId: shownCheckpointId,
+    branches,
+  };
+  return NextResponse.json(history, { status: 200 });
 }
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { searchMessages } from "@/lib/search";
+import { messageSearchQuerySchema } from "./schema";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * Full-text search over the messages and tool results of every thread, returning
+ * highlighted snippets of the matching messages.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const result = messageSearchQuerySchema.safeParse(Object.fromEntries(searchParams));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: "Invalid query parameters", issues: result.error.issues },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const results = await searchMessages(result.data.q, result.data.limit);
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("Error searching messages:", error);
+    return NextResponse.json({ error: "Failed to search messages" }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { messageSearchQuerySchema } from "./schema";
+
+describe("messageSearchQuerySchema", () => {
+  it("should trim the query and default the limit", () => {
+    expect(messageSearchQuerySchema.parse({ q: "  docker " })).toEqual({ q: "docker", limit: 20 });
+  });
+
+  it("should coerce the limit", () => {
+    expect(messageSearchQuerySchema.parse({ q: "docker", limit: "5" }).limit).toBe(5);
+    expect(messageSearchQuerySchema.safeParse({ q: "docker", limit: "500" }).success).toBe(false);
+  });
+
+  it("should reject a blank query", () => {
+    expect(messageSearchQuerySchema.safeParse({ q: "   " }).success).toBe(false);
+    expect(messageSearchQuerySchema.safeParse({}).success).toBe(false);
+  });
+});
@@ -0,0 +1,9 @@
+import { z } from "zod";
+
+/**
+ * Query parameters accepted by GET /api/agent/search.
+ */
+export const messageSearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
@@ -1,27 +1,50 @@
 import { NextRequest } from "next/server";
-import { streamResponse, StreamChunk } from "@/services/agentService";
-import type { FileAttachment } from "@/types/message";
+import { fetchPendingInterrupts, streamResponse, StreamChunk } from "@/services/agentService";
+import { generateThreadTitle } from "@/lib/thread";
+import type { FileAttachment, MessageOptions, ToolReviewDecisions } from "@/types/message";
+import {
+  compareToolDecisions,
+  generationParamsSchema,
+  streamRequestSchema,
+  toolDecisionsSchema,
+} from "./schema";
+import { parseModelRefs } from "@/lib/agent/util";
+import type { GenerationParams } from "@/types/model";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
 
 /**
  * SSE endpoint that streams token-level AI response chunks produced by the LangGraph React agent.
- * 
+ *
+ * Prefer POST, which carries the same fields as a JSON body; the query string variant is
+ * kept for EventSource clients and curl.
+ *
  * Query params:
  *  - content: user message text
  *  - threadId: conversation thread ID
  *  - model: (optional) model name
  *  - provider: (optional) model provider
+ *  - fallbacks: (optional) fallback models as "provider:model,provider:model"
+ *  - params: (optional) JSON object of generation parameters (temperature, maxTokens, ...)
+ *  - systemPrompt: (optional) system prompt, empty for the default one
+ *  - profileId: (optional) agent profile of the thread, empty to detach the current one
+ *  - userName: (optional) name the system prompt's {{user_name}} renders to
  *  - tools: (optional) comma-separated list of enabled tools
- *  - allowTool: (optional) "allow" or "deny" for tool approval
+ *  - allowTool: (optional) "allow" or "deny" applied to every pending tool call
+ *  - toolDecisions: (optional) JSON object of per tool call decisions keyed by tool call id
  *  - approveAllTools: (optional) "true" to auto-approve all tools
  *  - attachments: (optional) JSON array of file attachments
- * 
+ *  - checkpointId: (optional) checkpoint to continue from instead of the latest one
+ *  - regenerate: (optional) "true" to re-run the model from checkpointId without a message
+ *
  * SSE Events:
- *  - data: StreamChunk objects (token, tool_call, tool_result, done, error)
+ *  - data: StreamChunk objects (token, tool_call, tool_result, model, done, error)
  *  - event: done - signals stream completion
+ *  - data: title chunk, after done when the thread got a generated title
  *  - event: error - signals an error occurred
+ *
+ * Closing the connection (client disconnect or Stop) aborts the underlying agent run.
  */
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url);
@@ -31,8 +54,27 @@ export async function GET(req: NextRequest) {
   const provider = searchParams.get("provider") || undefined;
   const allowTool = searchParams.get("allowTool") as "allow" | "deny" | null;
   const toolsParam = searchParams.get("tools") || "";
-  const approveAllTools = searchParams.get("approveAllTools") === "true";
+  // Omitted options fall back to the thread's stored settings
+  const approveAllTools = searchParams.has("approveAllTools")
+    ? searchParams.get("approveAllTools") === "true"
+    : undefined;
+  const systemPrompt = searchParams.get("systemPrompt") ?? undefined;
+  const profileId = searchParams.has("profileId")
+    ? searchParams.get("profileId") || null
+    : undefined;
+  const userName = searchParams.get("userName") || undefined;
+  const checkpointId = searchParams.get("checkpointId") || undefined;
+  const regenerate = searchParams.get("regenerate") === "true" || undefined;
+  if (regenerate && !checkpointId) {
+    return Response.json({ error: "regenerate requires a checkpointId" }, { status: 400 });
+  }
   const attachmentsParam = searchParams.get("attachments") || "";
+  const toolDecisionsParam = searchParams.get("toolDecisions") || "";
+  const paramsParam = searchParams.get("params") || "";
+  // Same format as MODEL_FALLBACKS, an empty value disables the fallback chain
+  const fallbacks = searchParams.has("fallbacks")
+    ? parseModelRefs(searchParams.get("fallbacks") || "")
+    : undefined;
 
   const tools = toolsParam
     ? toolsParam
@@ -51,7 +93,107 @@ export async function GET(req: NextRequest) {
     }
   }
 
-  // Thread existence handled in service.
+  // Parse per tool call review decisions from JSON. Resuming with a malformed review
+  // would run tools with the wrong arguments, so reject it outright.
+  let toolDecisions: ToolReviewDecisions | undefined;
+  if (toolDecisionsParam) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(toolDecisionsParam);
+    } catch (error) {
+      console.error("Failed to parse toolDecisions:", error);
+    }
+    const result = toolDecisionsSchema.safeParse(parsed);
+    if (!result.success) {
+      return Response.json({ error: "Invalid toolDecisions" }, { status: 400 });
+    }
+    toolDecisions = result.data;
+  }
+
+  // Parse generation parameters from JSON
+  let params: GenerationParams | undefined;
+  if (paramsParam) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(paramsParam);
+    } catch (error) {
+      console.error("Failed to parse params:", error);
+    }
+    const result = generationParamsSchema.safeParse(parsed);
+    if (!result.success) {
+      return Response.json({ error: "Invalid params" }, { status: 400 });
+    }
+    params = result.data;
+  }
+
+  return streamAgentResponse(req, threadId, userContent, {
+    model,
+    provider,
+    fallbacks,
+    params,
+    systemPrompt,
+    profileId,
+    userName,
+    tools,
+    allowTool: allowTool || undefined,
+    toolDecisions,
+    approveAllTools,
+    attachments,
+    checkpointId,
+    regenerate,
+  });
+}
+
+/**
+ * JSON body variant of GET, see ./schema.ts for the accepted fields.
+ * Keeps message text and attachments out of URLs and access logs.
+ */
+export async function POST(req: NextRequest) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const result = streamRequestSchema.safeParse(body);
+  if (!result.success) {
+    return Response.json(
+      { error: "Invalid request body", issues: result.error.issues },
+      { status: 400 },
+    );
+  }
+
+  const { threadId, content, ...opts } = result.data;
+  return streamAgentResponse(req, threadId, content, opts);
+}
+
+/**
+ * Runs the agent for a thread and pipes its StreamChunks to the client as SSE.
+ * Thread existence is handled in the service. A review must decide on exactly the tool
+ * calls the run waits for, otherwise resuming would fail halfway through.
+ */
+async function streamAgentResponse(
+  req: NextRequest,
+  threadId: string,
+  userContent: string,
+  opts: MessageOptions,
+) {
+  if (opts.toolDecisions) {
+    const interrupts = await fetchPendingInterrupts(threadId, opts.checkpointId);
+    const pendingIds = interrupts.flatMap((i) => i?.toolCalls || []).map(({ id }) => id);
+    const { missing, unknown } = compareToolDecisions(opts.toolDecisions, pendingIds);
+    if (missing.length > 0 || unknown.length > 0) {
+      return Response.json(
+        { error: "toolDecisions must cover exactly the pending tool calls", missing, unknown },
+        { status: 400 },
+      );
+    }
+  }
+
+  // Cancels the agent run when the client goes away, whichever way we learn about it
+  const abortController = new AbortController();
+  req.signal.addEventListener("abort", () => abortController.abort(), { once: true });
 
   const encoder = new TextEncoder();
   const stream = new ReadableStream<Uint8Array>({
@@ -66,18 +208,15 @@ export async function GET(req: NextRequest) {
 
       // Run the agent streaming in the background
       (async () => {
+        // The title's usage is recorded under the same run
+        const runId = crypto.randomUUID();
         try {
           const iterable = await streamResponse({
             threadId,
             userText: userContent,
-            opts: {
-              model,
-              provider,
-              tools,
-              allowTool: allowTool || undefined,
-              approveAllTools,
-              attachments,
-            },
+            opts,
+            signal: abortController.signal,
+            runId,
           });
 
           // Forward all StreamChunk objects from tokenGenerator
@@ -89,7 +228,19 @@ export async function GET(req: NextRequest) {
           send({ type: "done" });
           controller.enqueue(encoder.encode("event: done\n"));
           controller.enqueue(encoder.encode("data: {}\n\n"));
+
+          // Name the thread after its first answer; the stream stays open for the title
+          // but the run is already reported as done
+          try {
+            const title = await generateThreadTitle(threadId, runId);
+            if (title && !abortController.signal.aborted) send({ type: "title", title });
+          } catch (error) {
+            console.error(`Failed to generate a title for thread ${threadId}:`, error);
+          }
         } catch (err: unknown) {
+          // Nobody is listening any more, so there is no one to report the error to
+          if (abortController.signal.aborted) return;
+
           // Send error chunk
           send({
             type: "error",
@@ -103,12 +254,16 @@ export async function GET(req: NextRequest) {
             ),
           );
         } finally {
-          controller.close();
+          try {
+            controller.close();
+          } catch {
+            // Already closed by a client disconnect
+          }
         }
       })();
     },
     cancel() {
-      // If client disconnects, nothing special yet (LangGraph stream will stop as iteration halts)
+      abortController.abort();
     },
   });
 
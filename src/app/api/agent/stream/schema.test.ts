@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { compareToolDecisions, streamRequestSchema, toolDecisionsSchema } from "./schema";
+
+describe("streamRequestSchema", () => {
+  it("should accept a minimal body and default content to empty", () => {
+    const result = streamRequestSchema.parse({ threadId: "thread-1" });
+    expect(result).toEqual({ threadId: "thread-1", content: "" });
+  });
+
+  it("should accept a full message body", () => {
+    const body = {
+      threadId: "thread-1",
+      content: "Hello",
+      model: "gpt-4o",
+      provider: "openai",
+      tools: ["search"],
+      approveAllTools: true,
+      attachments: [
+        { url: "http://localhost/a.png", key: "a.png", name: "a.png", type: "image/png", size: 1 },
+      ],
+    };
+    expect(streamRequestSchema.parse(body)).toEqual(body);
+  });
+
+  it("should require a checkpoint to regenerate from", () => {
+    expect(streamRequestSchema.safeParse({ threadId: "t", regenerate: true }).success).toBe(false);
+    expect(
+      streamRequestSchema.safeParse({ threadId: "t", regenerate: true, checkpointId: "cp-1" })
+        .success,
+    ).toBe(true);
+  });
+
+  it("should reject a missing threadId", () => {
+    expect(streamRequestSchema.safeParse({ content: "Hello" }).success).toBe(false);
+  });
+
+  it("should reject malformed attachments", () => {
+    const result = streamRequestSchema.safeParse({
+      threadId: "thread-1",
+      attachments: [{ url: "http://localhost/a.png" }],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject an unknown allowTool value", () => {
+    const result = streamRequestSchema.safeParse({ threadId: "thread-1", allowTool: "maybe" });
+    expect(result.success).toBe(false);
+  });
+
+  it("should accept generation parameters", () => {
+    const params = {
+      temperature: 0,
+      maxTokens: 1024,
+      topP: 0.9,
+      stop: ["END"],
+      seed: 42,
+      reasoningEffort: "low",
+    };
+    expect(streamRequestSchema.parse({ threadId: "thread-1", params }).params).toEqual(params);
+  });
+
+  it("should reject out of range generation parameters", () => {
+    for (const params of [{ temperature: 3 }, { maxTokens: 0 }, { topP: 1.5 }, { seed: 0.5 }]) {
+      expect(streamRequestSchema.safeParse({ threadId: "thread-1", params }).success).toBe(false);
+    }
+  });
+});
+
+describe("toolDecisionsSchema", () => {
+  it("should accept every decision kind", () => {
+    const decisions = {
+      call_1: { action: "continue" },
+      call_2: { action: "update", data: { query: "new" } },
+      call_3: { action: "feedback", data: "Not now" },
+      call_4: { action: "feedback" },
+    };
+    expect(toolDecisionsSchema.parse(decisions)).toEqual(decisions);
+  });
+
+  it("should reject an update without an arguments object", () => {
+    expect(toolDecisionsSchema.safeParse({ call_1: { action: "update", data: "x" } }).success).toBe(
+      false,
+    );
+  });
+
+  it("should reject unknown actions", () => {
+    expect(toolDecisionsSchema.safeParse({ call_1: { action: "skip" } }).success).toBe(false);
+  });
+});
+
+describe("compareToolDecisions", () => {
+  it("should accept one decision per pending call", () => {
+    const decisions = { call_1: { action: "continue" }, call_2: { action: "feedback" } };
+    expect(compareToolDecisions(decisions, ["call_1", "call_2"])).toEqual({
+      missing: [],
+      unknown: [],
+    });
+  });
+
+  it("should report missing and unknown tool calls", () => {
+    const decisions = { call_1: { action: "continue" }, call_9: { action: "continue" } };
+    expect(compareToolDecisions(decisions, ["call_1", "call_2"])).toEqual({
+      missing: ["call_2"],
+      unknown: ["call_9"],
+    });
+    expect(compareToolDecisions(decisions, [])).toEqual({
+      missing: [],
+      unknown: ["call_1", "call_9"],
+    });
+  });
+});
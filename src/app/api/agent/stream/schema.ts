@@ -0,0 +1,84 @@
+import { z } from "zod";
+
+/**
+ * Per tool call review decision: "update" must carry an arguments object and
+ * "feedback" an optional rejection reason string.
+ */
+export const toolReviewDecisionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("continue") }),
+  z.object({ action: z.literal("update"), data: z.record(z.unknown()) }),
+  z.object({ action: z.literal("feedback"), data: z.string().optional() }),
+]);
+
+export const toolDecisionsSchema = z.record(toolReviewDecisionSchema);
+
+/**
+ * Compares the tool calls a review decides on with the ones the run waits for; a resume
+ * needs exactly one decision per pending call.
+ * @returns The pending calls without a decision and the decided ids nothing waits for
+ */
+export function compareToolDecisions(
+  decisions: Record<string, unknown>,
+  pendingIds: string[],
+): { missing: string[]; unknown: string[] } {
+  const pending = new Set(pendingIds);
+  return {
+    missing: pendingIds.filter((id) => !(id in decisions)),
+    unknown: Object.keys(decisions).filter((id) => !pending.has(id)),
+  };
+}
+
+export const fileAttachmentSchema = z.object({
+  url: z.string(),
+  key: z.string(),
+  name: z.string(),
+  type: z.string(),
+  size: z.number(),
+});
+
+export const modelRefSchema = z.object({
+  provider: z.string().min(1),
+  model: z.string().min(1),
+});
+
+/**
+ * Generation parameters, bounded by what the providers accept.
+ */
+export const generationParamsSchema = z.object({
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  topP: z.number().min(0).max(1).optional(),
+  stop: z.array(z.string().min(1)).max(4).optional(),
+  seed: z.number().int().optional(),
+  reasoningEffort: z.enum(["low", "medium", "high"]).optional(),
+});
+
+/**
+ * JSON body accepted by POST /api/agent/stream. `regenerate` re-runs the model from
+ * `checkpointId`, so it needs one.
+ */
+export const streamRequestSchema = z
+  .object({
+    threadId: z.string().min(1),
+    content: z.string().default(""),
+    model: z.string().optional(),
+    provider: z.string().optional(),
+    fallbacks: z.array(modelRefSchema).max(5).optional(),
+    params: generationParamsSchema.optional(),
+    systemPrompt: z.string().max(20000).optional(),
+    profileId: z.string().min(1).nullable().optional(), // null detaches the thread's profile
+    userName: z.string().max(100).optional(),
+    tools: z.array(z.string()).optional(),
+    allowTool: z.enum(["allow", "deny"]).optional(),
+    toolDecisions: toolDecisionsSchema.optional(),
+    approveAllTools: z.boolean().optional(),
+    attachments: z.array(fileAttachmentSchema).optional(),
+    checkpointId: z.string().min(1).optional(),
+    regenerate: z.boolean().optional(),
+  })
+  .refine(({ regenerate, checkpointId }) => !regenerate || checkpointId, {
+    message: "regenerate requires a checkpointId",
+    path: ["checkpointId"],
+  });
+
+export type StreamRequest = z.infer<typeof streamRequestSchema>;
@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/database/prisma";
+import { fetchThreadHistory } from "@/services/agentService";
+import { hasCheckpoint } from "@/lib/agent/memory";
+import { getAgentProfile } from "@/lib/agent/profiles";
+import { applyAgentProfile, DEFAULT_MODEL_NAME, DEFAULT_MODEL_PROVIDER } from "@/lib/agent/util";
+import {
+  EXPORT_CONTENT_TYPES,
+  exportContentDisposition,
+  renderThreadExport,
+  toExportedMessages,
+} from "@/lib/export";
+import { getThreadSettings } from "@/lib/thread";
+import { getUsageReport } from "@/lib/usage";
+import type { ThreadExport } from "@/types/export";
+import { threadExportQuerySchema } from "./schema";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ threadId: string }> };
+
+/**
+ * Downloads a thread's transcript as Markdown, JSON or HTML, with its tool calls and
+ * results, attachments and the models that answered.
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  const { threadId } = await params;
+  const result = threadExportQuerySchema.safeParse(
+    Object.fromEntries(new URL(req.url).searchParams),
+  );
+  if (!result.success) {
+    return NextResponse.json(
+      { error: "Invalid query parameters", issues: result.error.issues },
+      { status: 400 },
+    );
+  }
+  const { format, attachments, checkpointId } = result.data;
+
+  try {
+    const thread = await prisma.thread.findUnique({
+      where: { id: threadId },
+      include: { folder: true },
+    });
+    if (!thread) {
+      return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+    }
+    if (checkpointId && !(await hasCheckpoint(threadId, checkpointId))) {
+      return NextResponse.json({ error: "Checkpoint not found" }, { status: 404 });
+    }
+
+    const stored = (await getThreadSettings(threadId)) ?? {};
+    const profile = stored.profileId ? await getAgentProfile(stored.profileId) : null;
+    const settings = profile ? applyAgentProfile(stored, profile) : stored;
+    const [messages, usage] = await Promise.all([
+      fetchThreadHistory(threadId, checkpointId),
+      getUsageReport({ threadId, groupBy: "model" }),
+    ]);
+
+    const exported: ThreadExport = {
+      thread: {
+        id: thread.id,
+        title: thread.title,
+        tags: thread.tags,
+        folder: thread.folder?.name ?? null,
+        createdAt: thread.createdAt.toISOString(),
+        updatedAt: thread.updatedAt.toISOString(),
+      },
+      // The same defaults as createAgent
+      model: {
+        provider: settings.provider || DEFAULT_MODEL_PROVIDER,
+        model: settings.model || DEFAULT_MODEL_NAME,
+        profile: profile?.name ?? null,
+      },
+      usage,
+      exportedAt: new Date().toISOString(),
+      messages: toExportedMessages(messages, { inlineAttachments: attachments === "inline" }),
+    };
+
+    return new Response(renderThreadExport(exported, format), {
+      headers: {
+        "Content-Type": EXPORT_CONTENT_TYPES[format],
+        "Content-Disposition": exportContentDisposition(thread.title, format),
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting thread:", error);
+    return NextResponse.json({ error: "Failed to export thread" }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { threadExportQuerySchema } from "./schema";
+
+describe("threadExportQuerySchema", () => {
+  it("should default to Markdown with linked attachments", () => {
+    expect(threadExportQuerySchema.parse({})).toEqual({ format: "md", attachments: "link" });
+  });
+
+  it("should accept each format and inlined attachments", () => {
+    for (const format of ["md", "json", "html"]) {
+      expect(threadExportQuerySchema.safeParse({ format, attachments: "inline" }).success).toBe(
+        true,
+      );
+    }
+  });
+
+  it("should reject unknown formats", () => {
+    expect(threadExportQuerySchema.safeParse({ format: "pdf" }).success).toBe(false);
+    expect(threadExportQuerySchema.safeParse({ attachments: "embed" }).success).toBe(false);
+  });
+});
@@ -0,0 +1,12 @@
+import { z } from "zod";
+
+/**
+ * Query parameters accepted by GET /api/agent/threads/{id}/export. Attachments are
+ * links to the stored files unless `attachments` is "inline". `checkpointId` exports
+ * another branch than the latest one.
+ */
+export const threadExportQuerySchema = z.object({
+  format: z.enum(["md", "json", "html"]).default("md"),
+  attachments: z.enum(["link", "inline"]).default("link"),
+  checkpointId: z.string().min(1).optional(),
+});
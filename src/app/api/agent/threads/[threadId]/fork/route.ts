@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/database/prisma";
+import { findForkCheckpoint, forkThread, toThread } from "@/lib/thread";
+import { forkThreadSchema } from "./schema";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ threadId: string }> };
+
+/**
+ * Copies the conversation up to a message into a new thread and returns that thread.
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  const { threadId } = await params;
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const result = forkThreadSchema.safeParse(body);
+  if (!result.success) {
+    return NextResponse.json(
+      { error: "Invalid request body", issues: result.error.issues },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const source = await prisma.thread.findUnique({ where: { id: threadId } });
+    if (!source) {
+      return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+    }
+    const fork = await findForkCheckpoint(threadId, result.data.messageId);
+    if (!fork) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 });
+    }
+    // The model APIs reject a conversation continuing past unanswered tool calls
+    if (fork.pendingToolCalls) {
+      return NextResponse.json(
+        { error: "Cannot fork at a message whose tool calls have no results" },
+        { status: 400 },
+      );
+    }
+
+    const created = await forkThread(source, fork.checkpointId);
+    return NextResponse.json(toThread(created), { status: 201 });
+  } catch (error) {
+    console.error("Error forking thread:", error);
+    return NextResponse.json({ error: "Failed to fork thread" }, { status: 500 });
+  }
+}
@@ -0,0 +1,13 @@
+import { describe, it, expect } from "vitest";
+import { forkThreadSchema } from "./schema";
+
+describe("forkThreadSchema", () => {
+  it("should accept a message id", () => {
+    expect(forkThreadSchema.parse({ messageId: "msg-1" })).toEqual({ messageId: "msg-1" });
+  });
+
+  it("should reject a missing or empty message id", () => {
+    expect(forkThreadSchema.safeParse({}).success).toBe(false);
+    expect(forkThreadSchema.safeParse({ messageId: "" }).success).toBe(false);
+  });
+});
@@ -0,0 +1,8 @@
+import { z } from "zod";
+
+/**
+ * JSON body accepted by POST /api/agent/threads/{threadId}/fork.
+ */
+export const forkThreadSchema = z.object({
+  messageId: z.string().min(1), // last message copied into the new thread
+});
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/database/prisma";
+import { getThreadSettings, updateThreadSettings } from "@/lib/thread";
+import type { ThreadSettings } from "@/types/message";
+import { threadSettingsUpdateSchema } from "./schema";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ threadId: string }> };
+
+/**
+ * Returns the agent settings stored for a thread, an empty object when none were saved.
+ */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { threadId } = await params;
+  try {
+    const settings: ThreadSettings = (await getThreadSettings(threadId)) ?? {};
+    return NextResponse.json(settings, { status: 200 });
+  } catch (error) {
+    console.error("Error fetching thread settings:", error);
+    return NextResponse.json({ error: "Failed to fetch thread settings" }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const { threadId } = await params;
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const result = threadSettingsUpdateSchema.safeParse(body);
+  if (!result.success) {
+    return NextResponse.json(
+      { error: "Invalid request body", issues: result.error.issues },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const thread = await prisma.thread.findUnique({ where: { id: threadId } });
+    if (!thread) {
+      return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+    }
+    const settings = await updateThreadSettings(threadId, result.data);
+    return NextResponse.json(settings, { status: 200 });
+  } catch (error) {
+    console.error("Error updating thread settings:", error);
+    // Foreign key violation: the profile doesn't exist
+    if ((error as { code?: string })?.code === "P2003") {
+      return NextResponse.json({ error: "Agent profile not found" }, { status: 404 });
+    }
+    return NextResponse.json({ error: "Failed to update thread settings" }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { threadSettingsUpdateSchema } from "./schema";
+
+describe("threadSettingsUpdateSchema", () => {
+  it("should accept a partial update", () => {
+    expect(threadSettingsUpdateSchema.parse({ model: "gpt-4o-mini" })).toEqual({
+      model: "gpt-4o-mini",
+    });
+  });
+
+  it("should accept null to clear fields", () => {
+    const update = { provider: null, systemPrompt: null, params: null };
+    expect(threadSettingsUpdateSchema.parse(update)).toEqual(update);
+  });
+
+  it("should validate generation parameters", () => {
+    expect(
+      threadSettingsUpdateSchema.safeParse({ params: { temperature: 0, seed: 7 } }).success,
+    ).toBe(true);
+    expect(threadSettingsUpdateSchema.safeParse({ params: { topP: 2 } }).success).toBe(false);
+  });
+
+  it("should accept up to five fallback models", () => {
+    const fallback = { provider: "openai", model: "gpt-4o-mini" };
+    expect(threadSettingsUpdateSchema.safeParse({ fallbacks: [fallback] }).success).toBe(true);
+    expect(threadSettingsUpdateSchema.safeParse({ fallbacks: [] }).success).toBe(true);
+    expect(
+      threadSettingsUpdateSchema.safeParse({ fallbacks: Array(6).fill(fallback) }).success,
+    ).toBe(false);
+    expect(
+      threadSettingsUpdateSchema.safeParse({ fallbacks: [{ provider: "openai" }] }).success,
+    ).toBe(false);
+  });
+
+  it("should reject an empty provider", () => {
+    expect(threadSettingsUpdateSchema.safeParse({ provider: "" }).success).toBe(false);
+  });
+});
@@ -0,0 +1,17 @@
+import { z } from "zod";
+import { generationParamsSchema, modelRefSchema } from "@/app/api/agent/stream/schema";
+
+/**
+ * JSON body accepted by PATCH /api/agent/threads/{threadId}/settings.
+ * Omitted fields keep their stored value, `null` clears them.
+ */
+export const threadSettingsUpdateSchema = z.object({
+  provider: z.string().min(1).nullable().optional(),
+  model: z.string().nullable().optional(),
+  systemPrompt: z.string().max(20000).nullable().optional(),
+  tools: z.array(z.string()).nullable().optional(),
+  approveAllTools: z.boolean().nullable().optional(),
+  params: generationParamsSchema.nullable().optional(),
+  fallbacks: z.array(modelRefSchema).max(5).nullable().optional(),
+  profileId: z.string().min(1).nullable().optional(),
+});
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { bulkUpdateThreads } from "@/lib/thread";
+import { threadBulkSchema } from "../schema";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * Pins, archives, tags, files or deletes several threads at once and returns how many
+ * threads changed.
+ */
+export async function POST(req: Request) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const result = threadBulkSchema.safeParse(body);
+  if (!result.success) {
+    return NextResponse.json(
+      { error: "Invalid request body", issues: result.error.issues },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const updated = await bulkUpdateThreads(result.data);
+    return NextResponse.json({ updated }, { status: 200 });
+  } catch (error) {
+    console.error("Error updating threads:", error);
+    // Foreign key violation: the folder doesn't exist. Raw statements report the
+    // Postgres code instead of Prisma's
+    const { code, meta } = error as { code?: string; meta?: { code?: string } };
+    if (code === "P2003" || (code === "P2010" && meta?.code === "23503")) {
+      return NextResponse.json({ error: "Folder not found" }, { status: 404 });
+    }
+    return NextResponse.json({ error: "Failed to update threads" }, { status: 500 });
+  }
+}
@@ -1,56 +1,80 @@
 import { NextRequest, NextResponse } from "next/server";
-import type { Thread } from "@/types/message";
+import type { ThreadPage } from "@/types/message";
 import prisma from "@/lib/database/prisma";
+import { deleteThread, listThreads, toThread } from "@/lib/thread";
+import { threadListQuerySchema, threadUpdateSchema } from "./schema";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
 
-type ThreadEntity = {
-  id: string;
-  title: string;
-  createdAt: Date;
-  updatedAt: Date;
-};
-export async function GET() {
-  const dbThreads = await prisma.thread.findMany({ orderBy: { updatedAt: "desc" }, take: 50 });
-  const threads: Thread[] = dbThreads.map((t: ThreadEntity) => ({
-    id: t.id,
-    title: t.title,
-    createdAt: t.createdAt.toISOString(),
-    updatedAt: t.updatedAt.toISOString(),
-  }));
-  return NextResponse.json(threads, { status: 200 });
+/**
+ * Lists a page of unarchived threads, pinned threads first and then most recently
+ * updated unless `sort` and `order` say otherwise, together with the cursor of the next
+ * page and the total number of threads. `archived`, `folderId` and `tag` filter the
+ * listing.
+ */
+export async function GET(req: NextRequest) {
+  const result = threadListQuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: "Invalid query parameters", issues: result.error.issues },
+      { status: 400 },
+    );
+  }
+
+  const { threads, nextCursor, total } = await listThreads(result.data);
+  const page: ThreadPage = { threads: threads.map(toThread), nextCursor, total };
+  return NextResponse.json(page, { status: 200 });
 }
 
 export async function POST() {
   const created = await prisma.thread.create({ data: { title: "New thread" } });
-  const thread: Thread = {
-    id: created.id,
-    title: created.title,
-    createdAt: created.createdAt.toISOString(),
-    updatedAt: created.updatedAt.toISOString(),
-  };
-  return NextResponse.json(thread, { status: 201 });
+  return NextResponse.json(toThread(created), { status: 201 });
 }
 
+/**
+ * Renames, tags, pins, archives or files a thread. Omitted fields keep their value.
+ */
 export async function PATCH(req: NextRequest) {
+  let body: unknown;
   try {
-    const body = await req.json();
-    const { id, title } = body || {};
-    if (!id || typeof title !== "string") {
-      return NextResponse.json({ error: "id and title required" }, { status: 400 });
-    }
-    const updated = await prisma.thread.update({ where: { id }, data: { title } });
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const result = threadUpdateSchema.safeParse(body);
+  if (!result.success) {
     return NextResponse.json(
-      {
-        id: updated.id,
-        title: updated.title,
-        createdAt: updated.createdAt.toISOString(),
-        updatedAt: updated.updatedAt.toISOString(),
-      },
-      { status: 200 },
+      { error: "Invalid request body", issues: result.error.issues },
+      { status: 400 },
     );
+  }
+
+  try {
+    const { id, ...fields } = result.data;
+    const current = await prisma.thread.findUnique({ where: { id }, select: { updatedAt: true } });
+    if (!current) {
+      return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+    }
+    const updated = await prisma.thread.update({
+      where: { id },
+      // A renamed thread never gets a generated title. Pinning, archiving, tagging and
+      // filing keep updatedAt, so the list sorted by it doesn't jump.
+      data:
+        fields.title === undefined
+          ? { ...fields, updatedAt: current.updatedAt }
+          : { ...fields, titleSource: "manual" },
+    });
+    return NextResponse.json(toThread(updated), { status: 200 });
   } catch (e: unknown) {
+    const code = (e as { code?: string })?.code;
+    if (code === "P2025") {
+      return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+    }
+    // Foreign key violation: the folder doesn't exist
+    if (code === "P2003") {
+      return NextResponse.json({ error: "Folder not found" }, { status: 404 });
+    }
     const message = e instanceof Error ? e.message : "Update failed";
     return NextResponse.json({ error: message }, { status: 500 });
   }
@@ -59,7 +83,7 @@ export async function PATCH(req: NextRequest) {
 export async function DELETE(req: NextRequest) {
   try {
     const body = await req.json();
-    const { id } = body || {};
+    const { id, deleteAttachments } = body || {};
     if (!id || typeof id !== "string") {
       return NextResponse.json({ error: "Thread id required" }, { status: 400 });
     }
@@ -70,12 +94,9 @@ export async function DELETE(req: NextRequest) {
       return NextResponse.json({ error: "Thread not found" }, { status: 404 });
     }
 
-    // Delete the thread from Prisma (metadata)
-    await prisma.thread.delete({ where: { id } });
-
-    // Note: LangGraph checkpoint data will become orphaned but won't affect functionality
-    // The checkpointer will simply not find any thread metadata for this thread_id
-    // Future versions could implement direct checkpoint deletion via SQL if needed
+    // Delete the thread metadata and its LangGraph checkpoints. Attachments are opt-in
+    // because uploaded files may still be referenced elsewhere.
+    await deleteThread(id, { deleteAttachments: deleteAttachments === true });
 
     return NextResponse.json({ success: true }, { status: 200 });
   } catch (e: unknown) {
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { encodeCursor } from "@/lib/pagination";
+import { threadBulkSchema, threadListQuerySchema, threadUpdateSchema } from "./schema";
+
+describe("threadListQuerySchema", () => {
+  it("should default to the 50 most recently updated threads", () => {
+    expect(threadListQuerySchema.parse({})).toEqual({
+      limit: 50,
+      sort: "updatedAt",
+      order: "desc",
+      archived: false,
+    });
+  });
+
+  it("should accept a cursor, sort and order", () => {
+    const cursor = encodeCursor({ value: "Notes", id: "thread-1" });
+    expect(
+      threadListQuerySchema.parse({ cursor, limit: "20", sort: "title", order: "asc" }),
+    ).toEqual({ cursor, limit: 20, sort: "title", order: "asc", archived: false });
+  });
+
+  it("should reject invalid cursors, limits and sorts", () => {
+    expect(threadListQuerySchema.safeParse({ cursor: "abc" }).success).toBe(false);
+    expect(threadListQuerySchema.safeParse({ limit: "0" }).success).toBe(false);
+    expect(threadListQuerySchema.safeParse({ limit: "500" }).success).toBe(false);
+    expect(threadListQuerySchema.safeParse({ sort: "id" }).success).toBe(false);
+    expect(threadListQuerySchema.safeParse({ archived: "yes" }).success).toBe(false);
+  });
+
+  it("should accept archived, folder and tag filters", () => {
+    expect(
+      threadListQuerySchema.parse({ archived: "true", folderId: "none", tag: " work " }),
+    ).toMatchObject({ archived: true, folderId: "none", tag: "work" });
+  });
+
+  it("should accept a title query", () => {
+    expect(threadListQuerySchema.parse({ q: " trip " })).toMatchObject({ q: "trip" });
+    expect(threadListQuerySchema.safeParse({ q: " " }).success).toBe(false);
+  });
+});
+
+describe("threadUpdateSchema", () => {
+  it("should accept partial updates and drop duplicate tags", () => {
+    expect(
+      threadUpdateSchema.parse({ id: "thread-1", tags: ["work", " work", "ideas"], pinned: true }),
+    ).toEqual({ id: "thread-1", tags: ["work", "ideas"], pinned: true });
+    expect(threadUpdateSchema.parse({ id: "thread-1", folderId: null })).toEqual({
+      id: "thread-1",
+      folderId: null,
+    });
+  });
+
+  it("should reject empty updates, titles and tags", () => {
+    expect(threadUpdateSchema.safeParse({ id: "thread-1" }).success).toBe(false);
+    expect(threadUpdateSchema.safeParse({ id: "thread-1", title: "  " }).success).toBe(false);
+    expect(threadUpdateSchema.safeParse({ id: "thread-1", tags: [""] }).success).toBe(false);
+    expect(threadUpdateSchema.safeParse({ title: "Notes" }).success).toBe(false);
+  });
+});
+
+describe("threadBulkSchema", () => {
+  it("should accept each kind of action", () => {
+    expect(threadBulkSchema.safeParse({ action: "archive", ids: ["a", "b"] }).success).toBe(true);
+    expect(
+      threadBulkSchema.safeParse({ action: "addTags", ids: ["a"], tags: ["work"] }).success,
+    ).toBe(true);
+    expect(threadBulkSchema.safeParse({ action: "move", ids: ["a"], folderId: null }).success).toBe(
+      true,
+    );
+  });
+
+  it("should reject unknown actions and missing arguments", () => {
+    expect(threadBulkSchema.safeParse({ action: "star", ids: ["a"] }).success).toBe(false);
+    expect(threadBulkSchema.safeParse({ action: "pin", ids: [] }).success).toBe(false);
+    expect(threadBulkSchema.safeParse({ action: "addTags", ids: ["a"], tags: [] }).success).toBe(
+      false,
+    );
+    expect(threadBulkSchema.safeParse({ action: "move", ids: ["a"] }).success).toBe(false);
+  });
+});
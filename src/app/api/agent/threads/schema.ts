@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { decodeCursor } from "@/lib/pagination";
+
+/** A tag, trimmed; tags are matched exactly */
+const tagSchema = z.string().trim().min(1).max(50);
+
+/** Tags of a thread, duplicates dropped */
+const tagsSchema = z
+  .array(tagSchema)
+  .max(20)
+  .transform((tags) => [...new Set(tags)]);
+
+/**
+ * Query parameters accepted by GET /api/agent/threads. `cursor` is the `nextCursor` of
+ * the previous page, requested with the same sort, order and filters. `folderId` is
+ * "none" for threads outside any folder, `q` matches titles and ids case-insensitively.
+ */
+export const threadListQuerySchema = z.object({
+  cursor: z
+    .string()
+    .refine((cursor) => decodeCursor(cursor) !== null, "Invalid cursor")
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  sort: z.enum(["updatedAt", "createdAt", "title"]).default("updatedAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  archived: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((archived) => archived === "true"),
+  folderId: z.string().min(1).optional(),
+  tag: tagSchema.optional(),
+  q: z.string().trim().min(1).max(200).optional(),
+});
+
+/**
+ * JSON body accepted by PATCH /api/agent/threads. Omitted fields keep their stored
+ * value, a `null` folderId takes the thread out of its folder.
+ */
+export const threadUpdateSchema = z
+  .object({
+    id: z.string().min(1),
+    title: z.string().trim().min(1).max(100).optional(),
+    tags: tagsSchema.optional(),
+    pinned: z.boolean().optional(),
+    archived: z.boolean().optional(),
+    folderId: z.string().min(1).nullable().optional(),
+  })
+  .refine(
+    ({ title, tags, pinned, archived, folderId }) =>
+      [title, tags, pinned, archived, folderId].some((value) => value !== undefined),
+    { message: "Nothing to update" },
+  );
+
+/**
+ * JSON body accepted by POST /api/agent/threads/bulk: one action applied to every
+ * listed thread.
+ */
+export const threadBulkSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.enum(["pin", "unpin", "archive", "unarchive", "delete"]),
+    ids: z.array(z.string().min(1)).min(1).max(500),
+  }),
+  z.object({
+    action: z.enum(["addTags", "removeTags"]),
+    ids: z.array(z.string().min(1)).min(1).max(500),
+    tags: tagsSchema.pipe(z.array(z.string()).min(1)),
+  }),
+  z.object({
+    action: z.literal("move"),
+    ids: z.array(z.string().min(1)).min(1).max(500),
+    folderId: z.string().min(1).nullable(), // null takes the threads out of their folders
+  }),
+]);
+
+export type ThreadListQuery = z.infer<typeof threadListQuerySchema>;
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { listThreadTags } from "@/lib/thread";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * Lists the tags in use with the number of threads carrying each, most used first.
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({ tags: await listThreadTags() });
+  } catch (error) {
+    console.error("Error fetching thread tags:", error);
+    return NextResponse.json({ error: "Failed to fetch thread tags" }, { status: 500 });
+  }
+}
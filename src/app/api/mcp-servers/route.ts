@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import prisma from "@/lib/database/prisma";
+import { invalidateMCPClient } from "@/lib/agent/mcp";
 import { MCPServerType } from "@/types/mcp";
 
 export async function GET() {
@@ -86,6 +87,9 @@ export async function PATCH(request: Request) {
       data: updateData,
     });
 
+    // Reconnect with the new configuration on next use
+    await invalidateMCPClient(id);
+
     return NextResponse.json(server);
   } catch (error) {
     console.error("Error updating MCP server:", error);
@@ -109,6 +113,8 @@ export async function DELETE(request: Request) {
       where: { id },
     });
 
+    await invalidateMCPClient(id);
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error deleting MCP server:", error);
@@ -0,0 +1,186 @@
+import { NextResponse } from "next/server";
+import type { ModelProvider as ModelProviderRecord } from "@prisma/client";
+import prisma from "@/lib/database/prisma";
+import { encryptSecret, isEncryptionConfigured } from "@/lib/crypto";
+import { ModelProvider, ModelProviderType } from "@/types/model";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * Strips the encrypted key before a provider leaves the server.
+ */
+function toModelProvider(provider: ModelProviderRecord): ModelProvider {
+  const { apiKey, ...rest } = provider;
+  return {
+    ...rest,
+    type: rest.type as ModelProviderType,
+    hasApiKey: !!apiKey,
+    createdAt: rest.createdAt.toISOString(),
+    updatedAt: rest.updatedAt.toISOString(),
+  };
+}
+
+function isValidType(type: unknown): type is ModelProviderType {
+  return Object.values(ModelProviderType).includes(type as ModelProviderType);
+}
+
+function normalizeAllowedModels(allowedModels: unknown): string[] | undefined {
+  if (!Array.isArray(allowedModels)) return undefined;
+  return allowedModels
+    .filter((model): model is string => typeof model === "string")
+    .map((model) => model.trim())
+    .filter(Boolean);
+}
+
+/**
+ * OpenAI-compatible providers have no default endpoint to fall back on.
+ */
+function isMissingBaseURL(type: ModelProviderType, baseURL: unknown): boolean {
+  return type === ModelProviderType.openai_compatible && !baseURL;
+}
+
+const ENCRYPTION_KEY_MISSING = "PROVIDER_ENCRYPTION_KEY must be set to store API keys";
+const BASE_URL_MISSING = "Base URL is required for OpenAI-compatible providers";
+
+export async function GET() {
+  try {
+    const providers = await prisma.modelProvider.findMany({
+      orderBy: { createdAt: "desc" },
+    });
+    return NextResponse.json(providers.map(toModelProvider));
+  } catch (error) {
+    console.error("Error fetching model providers:", error);
+    return NextResponse.json({ error: "Failed to fetch model providers" }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { name, type, baseURL, apiKey, allowedModels, enabled } = body;
+
+    if (!name || typeof name !== "string" || !type) {
+      return NextResponse.json({ error: "Name and type are required" }, { status: 400 });
+    }
+
+    if (!isValidType(type)) {
+      return NextResponse.json({ error: "Invalid provider type" }, { status: 400 });
+    }
+
+    if (isMissingBaseURL(type, baseURL)) {
+      return NextResponse.json({ error: BASE_URL_MISSING }, { status: 400 });
+    }
+
+    if (apiKey && !isEncryptionConfigured()) {
+      return NextResponse.json({ error: ENCRYPTION_KEY_MISSING }, { status: 500 });
+    }
+
+    const provider = await prisma.modelProvider.create({
+      data: {
+        name: name.trim(),
+        type,
+        baseURL: baseURL || null,
+        apiKey: apiKey ? encryptSecret(apiKey) : null,
+        allowedModels: normalizeAllowedModels(allowedModels) ?? [],
+        enabled: enabled ?? true,
+      },
+    });
+
+    return NextResponse.json(toModelProvider(provider), { status: 201 });
+  } catch (error) {
+    console.error("Error creating model provider:", error);
+    if ((error as { code?: string })?.code === "P2002") {
+      return NextResponse.json({ error: "Provider name already exists" }, { status: 409 });
+    }
+    return NextResponse.json({ error: "Failed to create model provider" }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: Request) {
+  try {
+    const body = await request.json();
+    const { id, name, type, baseURL, apiKey, allowedModels, enabled } = body;
+
+    if (!id) {
+      return NextResponse.json({ error: "ID is required" }, { status: 400 });
+    }
+
+    if (type !== undefined && !isValidType(type)) {
+      return NextResponse.json({ error: "Invalid provider type" }, { status: 400 });
+    }
+
+    // Validate the provider as it will be stored, not only the fields being changed
+    if (type !== undefined || baseURL !== undefined) {
+      const stored = await prisma.modelProvider.findUnique({ where: { id } });
+      if (!stored) {
+        return NextResponse.json({ error: "Provider not found" }, { status: 404 });
+      }
+      const merged = {
+        type: type ?? (stored.type as ModelProviderType),
+        baseURL: baseURL !== undefined ? baseURL : stored.baseURL,
+      };
+      if (isMissingBaseURL(merged.type, merged.baseURL)) {
+        return NextResponse.json({ error: BASE_URL_MISSING }, { status: 400 });
+      }
+    }
+
+    const updateData: Record<string, unknown> = {};
+    if (name !== undefined) updateData.name = String(name).trim();
+    if (type !== undefined) updateData.type = type;
+    if (baseURL !== undefined) updateData.baseURL = baseURL || null;
+    if (enabled !== undefined) updateData.enabled = enabled;
+    if (allowedModels !== undefined) {
+      updateData.allowedModels = normalizeAllowedModels(allowedModels) ?? [];
+    }
+
+    // Omitted keeps the stored key, null or "" removes it
+    if (apiKey) {
+      if (!isEncryptionConfigured()) {
+        return NextResponse.json({ error: ENCRYPTION_KEY_MISSING }, { status: 500 });
+      }
+      updateData.apiKey = encryptSecret(apiKey);
+    } else if (apiKey !== undefined) {
+      updateData.apiKey = null;
+    }
+
+    const provider = await prisma.modelProvider.update({
+      where: { id },
+      data: updateData,
+    });
+
+    return NextResponse.json(toModelProvider(provider));
+  } catch (error) {
+    console.error("Error updating model provider:", error);
+    if ((error as { code?: string })?.code === "P2025") {
+      return NextResponse.json({ error: "Provider not found" }, { status: 404 });
+    }
+    if ((error as { code?: string })?.code === "P2002") {
+      return NextResponse.json({ error: "Provider name already exists" }, { status: 409 });
+    }
+    return NextResponse.json({ error: "Failed to update model provider" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get("id");
+
+    if (!id) {
+      return NextResponse.json({ error: "ID is required" }, { status: 400 });
+    }
+
+    await prisma.modelProvider.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting model provider:", error);
+    if ((error as { code?: string })?.code === "P2025") {
+      return NextResponse.json({ error: "Provider not found" }, { status: 404 });
+    }
+    return NextResponse.json({ error: "Failed to delete model provider" }, { status: 500 });
+  }
+}
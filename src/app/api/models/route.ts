@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { listProviderModels } from "@/lib/agent/providers";
+import type { ProviderModelsData } from "@/types/model";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * Lists the models a provider offers: the allowed models of a registered provider, or the
+ * models an OpenAI-compatible endpoint reports. Other hosted providers use DEFAULT_MODELS.
+ *
+ * Query params:
+ *  - provider: model provider name
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const provider = searchParams.get("provider");
+
+  if (!provider) {
+    return NextResponse.json({ error: "provider is required" }, { status: 400 });
+  }
+
+  try {
+    const models = await listProviderModels(provider);
+    if (!models) {
+      return NextResponse.json(
+        { error: `Model listing is not supported for provider "${provider}"` },
+        { status: 400 },
+      );
+    }
+    return NextResponse.json({ provider, models } as ProviderModelsData);
+  } catch (error) {
+    console.error("Error listing models:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to list models" },
+      { status: 502 },
+    );
+  }
+}
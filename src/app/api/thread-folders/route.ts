@@ -0,0 +1,122 @@
+import { NextResponse } from "next/server";
+import type { ThreadFolder as ThreadFolderRecord } from "@prisma/client";
+import prisma from "@/lib/database/prisma";
+import type { ThreadFolder } from "@/types/message";
+import { threadFolderCreateSchema, threadFolderUpdateSchema } from "./schema";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+function toThreadFolder(record: ThreadFolderRecord, threadCount: number): ThreadFolder {
+  return {
+    id: record.id,
+    name: record.name,
+    threadCount,
+    createdAt: record.createdAt.toISOString(),
+    updatedAt: record.updatedAt.toISOString(),
+  };
+}
+
+async function readBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return undefined;
+  }
+}
+
+function invalidBody(issues: unknown) {
+  return NextResponse.json({ error: "Invalid request body", issues }, { status: 400 });
+}
+
+/**
+ * Lists the folders by name with the number of threads filed in each, archived ones
+ * included.
+ */
+export async function GET() {
+  try {
+    const folders = await prisma.threadFolder.findMany({
+      orderBy: { name: "asc" },
+      include: { _count: { select: { threads: true } } },
+    });
+    return NextResponse.json(
+      folders.map(({ _count, ...folder }) => toThreadFolder(folder, _count.threads)),
+    );
+  } catch (error) {
+    console.error("Error fetching thread folders:", error);
+    return NextResponse.json({ error: "Failed to fetch thread folders" }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const result = threadFolderCreateSchema.safeParse(await readBody(request));
+  if (!result.success) {
+    return invalidBody(result.error.issues);
+  }
+
+  try {
+    const folder = await prisma.threadFolder.create({ data: result.data });
+    return NextResponse.json(toThreadFolder(folder, 0), { status: 201 });
+  } catch (error) {
+    console.error("Error creating thread folder:", error);
+    if ((error as { code?: string })?.code === "P2002") {
+      return NextResponse.json({ error: "Folder name already exists" }, { status: 409 });
+    }
+    return NextResponse.json({ error: "Failed to create thread folder" }, { status: 500 });
+  }
+}
+
+/**
+ * Renames a folder.
+ */
+export async function PATCH(request: Request) {
+  const result = threadFolderUpdateSchema.safeParse(await readBody(request));
+  if (!result.success) {
+    return invalidBody(result.error.issues);
+  }
+
+  try {
+    const { id, name } = result.data;
+    const { _count, ...folder } = await prisma.threadFolder.update({
+      where: { id },
+      data: { name },
+      include: { _count: { select: { threads: true } } },
+    });
+    return NextResponse.json(toThreadFolder(folder, _count.threads));
+  } catch (error) {
+    console.error("Error updating thread folder:", error);
+    if ((error as { code?: string })?.code === "P2025") {
+      return NextResponse.json({ error: "Folder not found" }, { status: 404 });
+    }
+    if ((error as { code?: string })?.code === "P2002") {
+      return NextResponse.json({ error: "Folder name already exists" }, { status: 409 });
+    }
+    return NextResponse.json({ error: "Failed to update thread folder" }, { status: 500 });
+  }
+}
+
+/**
+ * Deletes a folder; its threads are kept outside any folder.
+ */
+export async function DELETE(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get("id");
+
+    if (!id) {
+      return NextResponse.json({ error: "ID is required" }, { status: 400 });
+    }
+
+    await prisma.threadFolder.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting thread folder:", error);
+    if ((error as { code?: string })?.code === "P2025") {
+      return NextResponse.json({ error: "Folder not found" }, { status: 404 });
+    }
+    return NextResponse.json({ error: "Failed to delete thread folder" }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { threadFolderCreateSchema, threadFolderUpdateSchema } from "./schema";
+
+describe("threadFolderCreateSchema", () => {
+  it("should trim the name", () => {
+    expect(threadFolderCreateSchema.parse({ name: "  Research " })).toEqual({ name: "Research" });
+  });
+
+  it("should require a name", () => {
+    expect(threadFolderCreateSchema.safeParse({}).success).toBe(false);
+    expect(threadFolderCreateSchema.safeParse({ name: "   " }).success).toBe(false);
+  });
+});
+
+describe("threadFolderUpdateSchema", () => {
+  it("should require the folder id", () => {
+    expect(threadFolderUpdateSchema.safeParse({ name: "Research" }).success).toBe(false);
+    expect(threadFolderUpdateSchema.parse({ id: "folder-1", name: "Research" })).toEqual({
+      id: "folder-1",
+      name: "Research",
+    });
+  });
+});
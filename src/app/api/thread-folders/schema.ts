@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+const folderFields = {
+  name: z.string().trim().min(1).max(100),
+};
+
+/**
+ * JSON body accepted by POST /api/thread-folders.
+ */
+export const threadFolderCreateSchema = z.object(folderFields);
+
+/**
+ * JSON body accepted by PATCH /api/thread-folders.
+ */
+export const threadFolderUpdateSchema = z.object({
+  id: z.string().min(1),
+  ...folderFields,
+});
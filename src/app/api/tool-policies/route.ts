@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/database/prisma";
+import { ToolApprovalPolicy } from "@/types/mcp";
+
+const POLICIES = Object.values(ToolApprovalPolicy) as string[];
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const serverId = searchParams.get("serverId");
+
+    const policies = await prisma.toolPolicy.findMany({
+      where: serverId ? { serverId } : undefined,
+      orderBy: { toolName: "asc" },
+    });
+    return NextResponse.json(policies);
+  } catch (error) {
+    console.error("Error fetching tool policies:", error);
+    return NextResponse.json({ error: "Failed to fetch tool policies" }, { status: 500 });
+  }
+}
+
+/**
+ * Creates or replaces the policy for a single tool of an MCP server.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { serverId, toolName, policy } = body;
+
+    if (!serverId || !toolName) {
+      return NextResponse.json({ error: "serverId and toolName are required" }, { status: 400 });
+    }
+
+    if (!POLICIES.includes(policy)) {
+      return NextResponse.json(
+        { error: `Policy must be one of: ${POLICIES.join(", ")}` },
+        { status: 400 },
+      );
+    }
+
+    const toolPolicy = await prisma.toolPolicy.upsert({
+      where: { serverId_toolName: { serverId, toolName } },
+      create: { serverId, toolName, policy: policy as ToolApprovalPolicy },
+      update: { policy: policy as ToolApprovalPolicy },
+    });
+
+    return NextResponse.json(toolPolicy);
+  } catch (error) {
+    console.error("Error saving tool policy:", error);
+    if ((error as { code?: string })?.code === "P2003") {
+      return NextResponse.json({ error: "Server not found" }, { status: 404 });
+    }
+    return NextResponse.json({ error: "Failed to save tool policy" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get("id");
+
+    if (!id) {
+      return NextResponse.json({ error: "ID is required" }, { status: 400 });
+    }
+
+    await prisma.toolPolicy.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting tool policy:", error);
+    if ((error as { code?: string })?.code === "P2025") {
+      return NextResponse.json({ error: "Tool policy not found" }, { status: 404 });
+    }
+    return NextResponse.json({ error: "Failed to delete tool policy" }, { status: 500 });
+  }
+}
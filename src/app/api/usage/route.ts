@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { getUsageReport } from "@/lib/usage";
+import { usageQuerySchema } from "./schema";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * Token usage and cost of stream runs, summed over the runs matching the filters and
+ * optionally grouped by model, provider, thread or day.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const result = usageQuerySchema.safeParse(Object.fromEntries(searchParams));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: "Invalid query parameters", issues: result.error.issues },
+      { status: 400 },
+    );
+  }
+
+  try {
+    return NextResponse.json(await getUsageReport(result.data));
+  } catch (error) {
+    console.error("Error fetching usage:", error);
+    return NextResponse.json({ error: "Failed to fetch usage" }, { status: 500 });
+  }
+}
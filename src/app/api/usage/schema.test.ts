@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { usageQuerySchema } from "./schema";
+
+describe("usageQuerySchema", () => {
+  it("should accept an empty query", () => {
+    expect(usageQuerySchema.parse({})).toEqual({});
+  });
+
+  it("should parse dates and the grouping", () => {
+    expect(
+      usageQuerySchema.parse({ from: "2026-10-01", to: "2026-11-01T00:00:00Z", groupBy: "day" }),
+    ).toEqual({
+      from: new Date("2026-10-01T00:00:00Z"),
+      to: new Date("2026-11-01T00:00:00Z"),
+      groupBy: "day",
+    });
+  });
+
+  it("should reject invalid dates, ranges and groupings", () => {
+    expect(usageQuerySchema.safeParse({ from: "last week" }).success).toBe(false);
+    expect(usageQuerySchema.safeParse({ from: "2026-11-01", to: "2026-10-01" }).success).toBe(
+      false,
+    );
+    expect(usageQuerySchema.safeParse({ groupBy: "user" }).success).toBe(false);
+  });
+});
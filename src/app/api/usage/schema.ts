@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+/**
+ * Query parameters accepted by GET /api/usage. Dates are ISO 8601, `from` is inclusive
+ * and `to` exclusive.
+ */
+export const usageQuerySchema = z
+  .object({
+    threadId: z.string().min(1).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    groupBy: z.enum(["model", "provider", "thread", "day"]).optional(),
+  })
+  .refine(({ from, to }) => !from || !to || from < to, {
+    message: "`from` must be before `to`",
+    path: ["to"],
+  });
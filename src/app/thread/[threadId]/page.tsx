@@ -2,15 +2,17 @@
 
 import { Thread } from "@/components/Thread";
 import { MainLayout } from "@/components/MainLayout";
-import { useParams } from "next/navigation";
+import { useParams, useSearchParams } from "next/navigation";
 
 export default function ThreadPage() {
   const params = useParams();
   const threadId = params.threadId as string;
+  // Set when the thread is opened from a message search result
+  const targetMessageId = useSearchParams().get("message") ?? undefined;
 
   return (
     <MainLayout>
-      <Thread threadId={threadId} />
+      <Thread threadId={threadId} targetMessageId={targetMessageId} />
     </MainLayout>
   );
 }
@@ -1,26 +1,43 @@
-import type { MessageResponse, ToolApprovalCallbacks } from "@/types/message";
-import { Bot } from "lucide-react";
+import type {
+  AIMessageData,
+  MessageBranch,
+  MessageResponse,
+  ToolApprovalCallbacks,
+} from "@/types/message";
+import { Bot, GitFork, RefreshCw } from "lucide-react";
 import rehypeKatex from "rehype-katex";
 import { cn } from "@/lib/utils";
 import { getMessageContent, hasToolCalls, getToolCalls } from "@/services/messageUtils";
 import { ToolCallDisplay } from "./ToolCallDisplay";
 import { useUISettings } from "@/contexts/UISettingsContext";
 import MDEditor from "@uiw/react-md-editor";
+import { MessageActionButton, MessageActions } from "./MessageActions";
 
 interface AIMessageProps {
   message: MessageResponse;
   approvalCallbacks?: ToolApprovalCallbacks;
-  showApprovalButtons?: boolean;
+  pendingToolCallIds?: string[];
+  branch?: MessageBranch;
+  onRegenerate?: () => void; // runs the model again from the checkpoint before the message
+  onSelectBranch?: (checkpointId: string) => void;
+  onFork?: () => void; // copies the conversation up to this message into a new thread
+  disabled?: boolean;
 }
 
 export const AIMessage = ({
   message,
   approvalCallbacks,
-  showApprovalButtons = false,
+  pendingToolCallIds,
+  branch,
+  onRegenerate,
+  onSelectBranch,
+  onFork,
+  disabled,
 }: AIMessageProps) => {
   const messageContent = getMessageContent(message);
   const hasTools = hasToolCalls(message);
   const toolCalls = getToolCalls(message);
+  const answeredBy = message.type === "ai" ? (message.data as AIMessageData).answeredBy : undefined;
   const { hideToolMessages } = useUISettings();
 
   // If tool messages are hidden and there's no text content, don't render anything
@@ -31,8 +48,12 @@ export const AIMessage = ({
     return null;
   }
 
+  const canRegenerate = !!onRegenerate && !!branch?.replaceable;
+  // A fork can't continue past tool calls that have no results yet
+  const canFork = !!onFork && !hasTools;
+
   return (
-    <div className="flex gap-3">
+    <div className="group flex gap-3">
       <div className="bg-primary/10 flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full">
         <Bot className="text-primary h-5 w-5" />
       </div>
@@ -63,15 +84,44 @@ export const AIMessage = ({
           </div>
         )}
 
+        {answeredBy?.fallback && (
+          <p className="px-1 text-xs text-gray-500">
+            Answered by fallback model {answeredBy.provider}/{answeredBy.model}
+          </p>
+        )}
+
         {shouldShowTools && (
           <div className="space-y-2">
             <ToolCallDisplay
               toolCalls={toolCalls}
               approvalCallbacks={approvalCallbacks}
-              showApprovalButtons={showApprovalButtons}
+              pendingToolCallIds={pendingToolCallIds}
             />
           </div>
         )}
+
+        <MessageActions branch={branch} onSelectBranch={onSelectBranch} disabled={disabled}>
+          {(canRegenerate || canFork) && (
+            <span className="flex items-center opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+              {canRegenerate && (
+                <MessageActionButton
+                  icon={RefreshCw}
+                  label="Regenerate response"
+                  onClick={onRegenerate}
+                  disabled={disabled}
+                />
+              )}
+              {canFork && (
+                <MessageActionButton
+                  icon={GitFork}
+                  label="Fork thread from here"
+                  onClick={onFork}
+                  disabled={disabled}
+                />
+              )}
+            </span>
+          )}
+        </MessageActions>
       </div>
     </div>
   );
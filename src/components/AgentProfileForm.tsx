@@ -0,0 +1,268 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { X, Loader2, Check } from "lucide-react";
+import { ToolApprovalPolicy } from "@/types/mcp";
+import type { GenerationParams } from "@/types/model";
+import type { AgentProfile } from "@/types/profile";
+
+interface AgentProfileFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: (profile: AgentProfile) => void;
+  profile?: AgentProfile;
+  // Prefills a new profile, e.g. with the settings currently selected in the chat
+  defaults?: {
+    provider?: string;
+    model?: string;
+    systemPrompt?: string;
+    params?: GenerationParams;
+  };
+}
+
+interface MCPServerOption {
+  id: string;
+  name: string;
+  enabled: boolean;
+}
+
+const POLICY_LABELS: Record<ToolApprovalPolicy, string> = {
+  [ToolApprovalPolicy.always_ask]: "Always ask",
+  [ToolApprovalPolicy.always_allow]: "Always allow",
+  [ToolApprovalPolicy.always_deny]: "Always deny",
+};
+
+const inputClassName =
+  "focus:border-primary focus:ring-ring/40 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:ring-2 focus:outline-none";
+
+export function AgentProfileForm({ isOpen, ...props }: AgentProfileFormProps) {
+  if (!isOpen) return null;
+  // Mounted per opening and profile, so the form starts from the profile or the defaults
+  return <AgentProfileDialog key={props.profile?.id ?? "new"} {...props} />;
+}
+
+function AgentProfileDialog({
+  onClose,
+  onSaved,
+  profile,
+  defaults,
+}: Omit<AgentProfileFormProps, "isOpen">) {
+  const [name, setName] = useState(profile?.name ?? "");
+  const [description, setDescription] = useState(profile?.description ?? "");
+  const [provider, setProvider] = useState((profile ? profile.provider : defaults?.provider) ?? "");
+  const [model, setModel] = useState((profile ? profile.model : defaults?.model) ?? "");
+  const [systemPrompt, setSystemPrompt] = useState(
+    (profile ? profile.systemPrompt : defaults?.systemPrompt) ?? "",
+  );
+  const [mcpServerIds, setMcpServerIds] = useState<string[]>(profile?.mcpServerIds ?? []);
+  const [toolPolicy, setToolPolicy] = useState<ToolApprovalPolicy>(
+    profile?.toolPolicy ?? ToolApprovalPolicy.always_ask,
+  );
+  const [servers, setServers] = useState<MCPServerOption[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/mcp-servers")
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setServers)
+      .catch((err) => console.error("Failed to fetch MCP servers:", err));
+  }, []);
+
+  const toggleServer = (id: string, checked: boolean) => {
+    setMcpServerIds((ids) => (checked ? [...ids, id] : ids.filter((serverId) => serverId !== id)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      if (!name.trim()) {
+        throw new Error("Name is required");
+      }
+
+      const data: Record<string, unknown> = {
+        name: name.trim(),
+        description: description.trim() || null,
+        provider: provider.trim() || null,
+        model: model.trim() || null,
+        systemPrompt: systemPrompt.trim() ? systemPrompt : null,
+        mcpServerIds,
+        toolPolicy,
+      };
+      // Generation parameters aren't edited here, a new profile keeps the current ones
+      if (!profile && defaults?.params && Object.keys(defaults.params).length > 0) {
+        data.params = defaults.params;
+      }
+
+      const response = await fetch("/api/agent-profiles", {
+        method: profile ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(profile ? { ...data, id: profile.id } : data),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to save profile");
+      }
+
+      onSaved(await response.json());
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save profile");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Rendered into the body, outside the chat form, so Enter doesn't send a message
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="max-h-[90vh] w-full max-w-lg overflow-hidden rounded-lg bg-white shadow-xl">
+        <div className="flex items-center justify-between border-b border-gray-200 p-4">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {profile ? "Edit Agent Profile" : "New Agent Profile"}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="cursor-pointer text-gray-400 transition-colors hover:text-gray-600"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="max-h-[calc(90vh-120px)] space-y-4 overflow-y-auto p-4">
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">Name</label>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Researcher"
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">Description</label>
+            <input
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional"
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">Provider</label>
+              <input
+                value={provider}
+                onChange={(e) => setProvider(e.target.value)}
+                placeholder="Keep the thread's provider"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">Model</label>
+              <input
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                placeholder="Keep the thread's model"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">System Prompt</label>
+            <textarea
+              value={systemPrompt}
+              onChange={(e) => setSystemPrompt(e.target.value)}
+              placeholder="Leave empty to keep the thread's system prompt"
+              rows={4}
+              className={`${inputClassName} resize-y`}
+            />
+          </div>
+
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">MCP Servers</label>
+            {servers.length === 0 ? (
+              <p className="text-xs text-gray-500">No MCP servers configured.</p>
+            ) : (
+              <div className="space-y-1">
+                {servers.map((server) => (
+                  <label key={server.id} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={mcpServerIds.includes(server.id)}
+                      onChange={(e) => toggleServer(server.id, e.target.checked)}
+                    />
+                    {server.name}
+                    {!server.enabled && <span className="text-xs text-gray-400">(disabled)</span>}
+                  </label>
+                ))}
+              </div>
+            )}
+            <p className="mt-1 text-xs text-gray-500">None selected uses every enabled server.</p>
+          </div>
+
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">Tool Policy</label>
+            <select
+              value={toolPolicy}
+              onChange={(e) => setToolPolicy(e.target.value as ToolApprovalPolicy)}
+              className={inputClassName}
+            >
+              {Object.values(ToolApprovalPolicy).map((value) => (
+                <option key={value} value={value}>
+                  {POLICY_LABELS[value]}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              Applies to tools without a policy of their own.
+            </p>
+          </div>
+
+          {error && (
+            <div className="rounded-md border border-red-200 bg-red-50 p-3">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 border-t border-gray-200 bg-gray-50 p-4">
+          <button
+            type="button"
+            onClick={onClose}
+            className="cursor-pointer rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-primary text-primary-foreground hover:bg-primary/90 flex cursor-pointer items-center gap-2 rounded-md px-4 py-2 text-sm font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {saving ? (
+              <>
+                <Loader2 size={16} className="animate-spin" />
+                Saving...
+              </>
+            ) : (
+              <>
+                <Check size={16} />
+                Save Profile
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+}
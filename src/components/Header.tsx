@@ -1,11 +1,114 @@
-import React from "react";
-import { PanelLeftClose } from "lucide-react";
+import React, { useEffect, useRef, useState } from "react";
+import { Coins, FileDown, PanelLeftClose } from "lucide-react";
 import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useThreadUsage } from "@/hooks/useThreadUsage";
+import { getThreadExportUrl } from "@/services/chatService";
+import type { ExportFormat } from "@/types/export";
 
 interface HeaderProps {
   toggleSidebar: () => void;
 }
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "md", label: "Markdown" },
+  { format: "json", label: "JSON" },
+  { format: "html", label: "HTML" },
+];
+
+const tokenFormat = new Intl.NumberFormat("en", { notation: "compact", maximumFractionDigits: 1 });
+
+function formatCost(cost: number) {
+  return `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+}
+
+/** Tokens and cost spent in the open thread */
+const ThreadUsage = ({ threadId }: { threadId: string }) => {
+  const { data } = useThreadUsage(threadId);
+  const totals = data?.totals;
+  if (!totals?.runs) return null;
+
+  const details = [
+    `${totals.inputTokens.toLocaleString()} input tokens`,
+    `${totals.outputTokens.toLocaleString()} output tokens`,
+    `${totals.runs} run${totals.runs === 1 ? "" : "s"}`,
+  ];
+  if (totals.unpricedRuns > 0) {
+    details.push(`${totals.unpricedRuns} run(s) of models without a known price not in the cost`);
+  }
+
+  return (
+    <div
+      className="flex items-center gap-1.5 rounded-md px-2 py-1 text-sm text-gray-500"
+      title={details.join("\n")}
+    >
+      <Coins size={16} />
+      <span>{tokenFormat.format(totals.totalTokens)} tokens</span>
+      <span className="text-gray-300">·</span>
+      <span>
+        {formatCost(totals.cost)}
+        {totals.unpricedRuns > 0 && "+"}
+      </span>
+    </div>
+  );
+};
+
+/** Downloads the open thread as Markdown, JSON or HTML */
+const ThreadExportMenu = ({ threadId }: { threadId: string }) => {
+  const [open, setOpen] = useState(false);
+  const [inlineAttachments, setInlineAttachments] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [open]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen((value) => !value)}
+        className="cursor-pointer rounded-md p-2 text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700"
+        aria-label="Export thread"
+        aria-expanded={open}
+        title="Export thread"
+      >
+        <FileDown size={18} />
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-48 rounded-md border border-gray-200 bg-white py-1 text-sm shadow-md">
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <a
+              key={format}
+              href={getThreadExportUrl(threadId, format, inlineAttachments)}
+              download
+              onClick={() => setOpen(false)}
+              className="block px-3 py-1.5 text-gray-700 hover:bg-gray-100"
+            >
+              {label}
+            </a>
+          ))}
+          <label className="mt-1 flex cursor-pointer items-center gap-2 border-t border-gray-100 px-3 pt-2 pb-1 text-xs text-gray-500">
+            <input
+              type="checkbox"
+              checked={inlineAttachments}
+              onChange={(e) => setInlineAttachments(e.target.checked)}
+            />
+            Embed attachments
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
 export const Header = ({ toggleSidebar }: HeaderProps) => {
+  const { threadId } = useParams<{ threadId?: string }>();
+
   return (
     <header className="sticky top-0 z-10 flex items-center px-4 py-3">
       <div className="flex w-full items-center justify-between">
@@ -26,6 +129,13 @@ export const Header = ({ toggleSidebar }: HeaderProps) => {
             </Link>
           </div>
         </div>
+
+        {threadId && (
+          <div className="flex items-center gap-1">
+            <ThreadUsage threadId={threadId} />
+            <ThreadExportMenu threadId={threadId} />
+          </div>
+        )}
       </div>
     </header>
   );
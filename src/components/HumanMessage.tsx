@@ -1,21 +1,38 @@
+import { useState } from "react";
 import type {
   MessageResponse,
   BasicMessageData,
   FileAttachment,
   ImageUrlContentItem,
+  MessageBranch,
   TextContentItem,
 } from "@/types/message";
-import { UserIcon, FileText, Image as ImageIcon } from "lucide-react";
+import { UserIcon, FileText, Image as ImageIcon, Pencil, GitFork } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { getMessageContent } from "@/services/messageUtils";
+import { MessageActionButton, MessageActions } from "./MessageActions";
 
 interface HumanMessageProps {
   message: MessageResponse;
+  branch?: MessageBranch;
+  onEdit?: (text: string) => void; // resends the message with new text on a new branch
+  onSelectBranch?: (checkpointId: string) => void;
+  onFork?: () => void; // copies the conversation up to this message into a new thread
+  disabled?: boolean;
 }
 
 type ContentItem = ImageUrlContentItem | TextContentItem | { type: string };
 
-export const HumanMessage = ({ message }: HumanMessageProps) => {
+export const HumanMessage = ({
+  message,
+  branch,
+  onEdit,
+  onSelectBranch,
+  onFork,
+  disabled,
+}: HumanMessageProps) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
   const data = message.data as BasicMessageData;
   const attachments = [...(data.attachments || [])];
 
@@ -39,8 +56,65 @@ export const HumanMessage = ({ message }: HumanMessageProps) => {
     attachments.push(...contentAttachments);
   }
 
+  const canEdit = !!onEdit && !!branch?.replaceable;
+
+  const startEditing = () => {
+    setDraft(getMessageContent(message));
+    setEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!draft.trim()) return;
+    setEditing(false);
+    onEdit?.(draft);
+  };
+
+  if (editing) {
+    return (
+      <div className="flex justify-end gap-3">
+        <div className="w-full max-w-[80%] space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                submitEdit();
+              } else if (e.key === "Escape") {
+                setEditing(false);
+              }
+            }}
+            rows={3}
+            autoFocus
+            className="focus:border-primary focus:ring-ring/40 w-full resize-y rounded-2xl border border-gray-300 bg-white px-4 py-2 text-gray-800 focus:ring-2 focus:outline-none"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setEditing(false)}
+              className="cursor-pointer rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm text-gray-700 transition-colors hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={submitEdit}
+              disabled={disabled || !draft.trim()}
+              className="bg-primary text-primary-foreground hover:bg-primary/90 cursor-pointer rounded-md px-3 py-1.5 text-sm transition-colors disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Send
+            </button>
+          </div>
+        </div>
+        <div className="bg-primary/10 flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full">
+          <UserIcon className="text-primary h-5 w-5" />
+        </div>
+      </div>
+    );
+  }
+
   return (
-    <div className="flex justify-end gap-3">
+    <div className="group flex justify-end gap-3">
       <div className="max-w-[80%]">
         <div
           className={cn(
@@ -88,6 +162,33 @@ export const HumanMessage = ({ message }: HumanMessageProps) => {
             <p className="my-0">{getMessageContent(message)}</p>
           </div>
         </div>
+        <MessageActions
+          branch={branch}
+          onSelectBranch={onSelectBranch}
+          disabled={disabled}
+          className="mt-1 justify-end"
+        >
+          {(canEdit || onFork) && (
+            <span className="flex items-center opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+              {canEdit && (
+                <MessageActionButton
+                  icon={Pencil}
+                  label="Edit message"
+                  onClick={startEditing}
+                  disabled={disabled}
+                />
+              )}
+              {onFork && (
+                <MessageActionButton
+                  icon={GitFork}
+                  label="Fork thread from here"
+                  onClick={onFork}
+                  disabled={disabled}
+                />
+              )}
+            </span>
+          )}
+        </MessageActions>
       </div>
       <div className="bg-primary/10 flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full">
         <UserIcon className="text-primary h-5 w-5" />
@@ -1,8 +1,19 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { X, Plus, Edit, Trash2, Server, Globe, Loader2, RefreshCcw } from "lucide-react";
+import {
+  X,
+  Plus,
+  Edit,
+  Trash2,
+  Server,
+  Globe,
+  Loader2,
+  RefreshCcw,
+  ShieldCheck,
+} from "lucide-react";
 import { MCPServerForm } from "./MCPServerForm";
+import { ToolPolicyList } from "./ToolPolicyList";
 import { MCPServerType } from "@/types/mcp";
 import { useQueryClient } from "@tanstack/react-query";
 
@@ -31,6 +42,7 @@ export function MCPServerList({ isOpen, onClose }: MCPServerListProps) {
   const [showForm, setShowForm] = useState(false);
   const [editingServer, setEditingServer] = useState<MCPServer | undefined>();
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [policyServerId, setPolicyServerId] = useState<string | null>(null);
   const queryClient = useQueryClient();
 
   const fetchServers = async () => {
@@ -158,68 +170,84 @@ export function MCPServerList({ isOpen, onClose }: MCPServerListProps) {
             ) : (
               <div className="space-y-3">
                 {servers.map((server) => (
-                  <div
-                    key={server.id}
-                    className="flex items-center justify-between rounded-lg border border-gray-200 p-4 transition-colors hover:bg-gray-50"
-                  >
-                    <div className="flex items-center gap-4">
-                      <div className="flex items-center gap-2">
-                        {server.type === "stdio" ? (
-                          <Server size={20} className="text-primary" />
-                        ) : (
-                          <Globe size={20} className="text-green-500" />
-                        )}
-                        <div>
-                          <h3 className="font-medium text-gray-900">{server.name}</h3>
-                          <div className="text-sm text-gray-500">
-                            <span className="mr-2 inline-block rounded bg-gray-100 px-2 py-0.5 text-xs">
-                              {server.type}
-                            </span>
-                            {server.type === "stdio" ? (
-                              <span>{server.command}</span>
-                            ) : (
-                              <span>{server.url}</span>
-                            )}
+                  <div key={server.id} className="rounded-lg border border-gray-200">
+                    <div className="flex items-center justify-between p-4 transition-colors hover:bg-gray-50">
+                      <div className="flex items-center gap-4">
+                        <div className="flex items-center gap-2">
+                          {server.type === "stdio" ? (
+                            <Server size={20} className="text-primary" />
+                          ) : (
+                            <Globe size={20} className="text-green-500" />
+                          )}
+                          <div>
+                            <h3 className="font-medium text-gray-900">{server.name}</h3>
+                            <div className="text-sm text-gray-500">
+                              <span className="mr-2 inline-block rounded bg-gray-100 px-2 py-0.5 text-xs">
+                                {server.type}
+                              </span>
+                              {server.type === "stdio" ? (
+                                <span>{server.command}</span>
+                              ) : (
+                                <span>{server.url}</span>
+                              )}
+                            </div>
                           </div>
                         </div>
                       </div>
-                    </div>
 
-                    <div className="flex items-center gap-2">
-                      <label className="relative inline-flex cursor-pointer items-center">
-                        <input
-                          type="checkbox"
-                          checked={server.enabled}
-                          onChange={(e) => toggleServer(server.id, e.target.checked)}
-                          className="peer sr-only"
-                        />
-                        <div className="peer peer-checked:bg-primary peer-focus:ring-ring/40 h-5 w-9 rounded-full bg-gray-200 peer-focus:ring-4 peer-focus:outline-none after:absolute after:top-[2px] after:left-[2px] after:h-4 after:w-4 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:after:translate-x-full peer-checked:after:border-white"></div>
-                      </label>
-
-                      <button
-                        onClick={() => {
-                          setEditingServer(server);
-                          setShowForm(true);
-                        }}
-                        className="cursor-pointer p-1.5 text-gray-400 transition-colors hover:text-gray-600"
-                        title="Edit"
-                      >
-                        <Edit size={16} />
-                      </button>
-
-                      <button
-                        onClick={() => deleteServer(server.id, server.name)}
-                        disabled={deletingId === server.id}
-                        className="cursor-pointer p-1.5 text-red-400 transition-colors hover:text-red-600 disabled:cursor-not-allowed disabled:opacity-50"
-                        title="Delete"
-                      >
-                        {deletingId === server.id ? (
-                          <Loader2 size={16} className="animate-spin" />
-                        ) : (
-                          <Trash2 size={16} />
-                        )}
-                      </button>
+                      <div className="flex items-center gap-2">
+                        <label className="relative inline-flex cursor-pointer items-center">
+                          <input
+                            type="checkbox"
+                            checked={server.enabled}
+                            onChange={(e) => toggleServer(server.id, e.target.checked)}
+                            className="peer sr-only"
+                          />
+                          <div className="peer peer-checked:bg-primary peer-focus:ring-ring/40 h-5 w-9 rounded-full bg-gray-200 peer-focus:ring-4 peer-focus:outline-none after:absolute after:top-[2px] after:left-[2px] after:h-4 after:w-4 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:after:translate-x-full peer-checked:after:border-white"></div>
+                        </label>
+
+                        <button
+                          onClick={() =>
+                            setPolicyServerId(policyServerId === server.id ? null : server.id)
+                          }
+                          className={`cursor-pointer p-1.5 transition-colors hover:text-gray-600 ${
+                            policyServerId === server.id ? "text-primary" : "text-gray-400"
+                          }`}
+                          title="Tool approval policies"
+                        >
+                          <ShieldCheck size={16} />
+                        </button>
+
+                        <button
+                          onClick={() => {
+                            setEditingServer(server);
+                            setShowForm(true);
+                          }}
+                          className="cursor-pointer p-1.5 text-gray-400 transition-colors hover:text-gray-600"
+                          title="Edit"
+                        >
+                          <Edit size={16} />
+                        </button>
+
+                        <button
+                          onClick={() => deleteServer(server.id, server.name)}
+                          disabled={deletingId === server.id}
+                          className="cursor-pointer p-1.5 text-red-400 transition-colors hover:text-red-600 disabled:cursor-not-allowed disabled:opacity-50"
+                          title="Delete"
+                        >
+                          {deletingId === server.id ? (
+                            <Loader2 size={16} className="animate-spin" />
+                          ) : (
+                            <Trash2 size={16} />
+                          )}
+                        </button>
+                      </div>
                     </div>
+                    {policyServerId === server.id && (
+                      <div className="border-t border-gray-200 px-4 py-3">
+                        <ToolPolicyList serverId={server.id} serverName={server.name} />
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -4,6 +4,7 @@ import { ThreadList } from "./ThreadList";
 import Sidebar from "./Sidebar";
 import Header from "./Header";
 import { MCPServerList } from "./MCPServerList";
+import { ModelProviderList } from "./ModelProviderList";
 
 interface MainLayoutProps {
   children: ReactNode;
@@ -15,12 +16,15 @@ export function MainLayout({ children }: MainLayoutProps) {
   const toggleSidebar = useCallback(() => setSidebarOpen((v) => !v), []);
   const openMCPConfig = useCallback(() => setShowMCPConfig(true), []);
   const closeMCPConfig = useCallback(() => setShowMCPConfig(false), []);
+  const [showProviderConfig, setShowProviderConfig] = useState(false);
+  const openProviderConfig = useCallback(() => setShowProviderConfig(true), []);
+  const closeProviderConfig = useCallback(() => setShowProviderConfig(false), []);
 
   return (
     <div className="flex h-screen overflow-hidden bg-gray-50">
       {/* Sidebar */}
       <Sidebar isOpen={isSidebarOpen} toggle={toggleSidebar}>
-        <ThreadList onOpenMCPConfig={openMCPConfig} />
+        <ThreadList onOpenMCPConfig={openMCPConfig} onOpenProviderConfig={openProviderConfig} />
       </Sidebar>
 
       {/* Main content area */}
@@ -35,6 +39,9 @@ export function MainLayout({ children }: MainLayoutProps) {
 
       {/* MCP Configuration Modal */}
       <MCPServerList isOpen={showMCPConfig} onClose={closeMCPConfig} />
+
+      {/* Model Provider Configuration Modal */}
+      <ModelProviderList isOpen={showProviderConfig} onClose={closeProviderConfig} />
     </div>
   );
 }
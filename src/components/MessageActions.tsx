@@ -0,0 +1,77 @@
+import type { ReactNode } from "react";
+import { ChevronLeft, ChevronRight, type LucideIcon } from "lucide-react";
+import type { MessageBranch } from "@/types/message";
+import { cn } from "@/lib/utils";
+
+interface MessageActionsProps {
+  branch?: MessageBranch;
+  onSelectBranch?: (checkpointId: string) => void;
+  disabled?: boolean;
+  className?: string;
+  children?: ReactNode;
+}
+
+interface MessageActionButtonProps {
+  icon: LucideIcon;
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+}
+
+export const MessageActionButton = ({
+  icon: Icon,
+  label,
+  onClick,
+  disabled,
+}: MessageActionButtonProps) => (
+  <button
+    type="button"
+    onClick={onClick}
+    disabled={disabled}
+    className="cursor-pointer rounded p-1 text-gray-400 transition-colors hover:bg-gray-100 hover:text-gray-600 disabled:cursor-not-allowed disabled:opacity-50"
+    title={label}
+    aria-label={label}
+  >
+    <Icon className="h-3.5 w-3.5" />
+  </button>
+);
+
+/**
+ * Row under a message with its actions and, when it was regenerated or edited, arrows
+ * to switch between its versions.
+ */
+export const MessageActions = ({
+  branch,
+  onSelectBranch,
+  disabled,
+  className,
+  children,
+}: MessageActionsProps) => {
+  const versions = branch?.checkpointIds ?? [];
+  const index = branch?.index ?? 0;
+
+  return (
+    <div className={cn("flex items-center gap-1 text-xs text-gray-500", className)}>
+      {versions.length > 1 && onSelectBranch && (
+        <div className="flex items-center">
+          <MessageActionButton
+            icon={ChevronLeft}
+            label="Previous version"
+            onClick={() => onSelectBranch(versions[index - 1])}
+            disabled={disabled || index === 0}
+          />
+          <span className="tabular-nums">
+            {index + 1}/{versions.length}
+          </span>
+          <MessageActionButton
+            icon={ChevronRight}
+            label="Next version"
+            onClick={() => onSelectBranch(versions[index + 1])}
+            disabled={disabled || index === versions.length - 1}
+          />
+        </div>
+      )}
+      {children}
+    </div>
+  );
+};
@@ -1,31 +1,66 @@
 import { FormEvent, useEffect, useRef, useState } from "react";
 import { Button } from "./ui/button";
-import { ArrowUp, Loader2, Eye, EyeOff, Paperclip, X } from "lucide-react";
+import { ArrowUp, Loader2, Eye, EyeOff, Paperclip, Square, X } from "lucide-react";
 import { MessageOptions, FileAttachment } from "@/types/message";
+import { GenerationParams } from "@/types/model";
+import { ToolApprovalPolicy } from "@/types/mcp";
+import type { AgentProfile } from "@/types/profile";
 import { SettingsPanel } from "./SettingsPanel";
 import { useUISettings } from "@/contexts/UISettingsContext";
 import { MAX_ATTACHMENTS } from "@/lib/storage/validation";
+import { useThreadSettings } from "@/hooks/useThreadSettings";
 
 interface MessageInputProps {
+  threadId?: string | null;
   onSendMessage: (message: string, opts?: MessageOptions) => Promise<void>;
   isLoading?: boolean;
+  onStop?: () => void;
   maxLength?: number;
 }
 
 export const MessageInput = ({
+  threadId = null,
   onSendMessage,
   isLoading = false,
+  onStop,
   maxLength = 2000,
 }: MessageInputProps) => {
   const [message, setMessage] = useState("");
   const [isFocused, setIsFocused] = useState(false);
   const [provider, setProvider] = useState<string>("deepseek");
   const [model, setModel] = useState<string>("deepseek-chat");
+  const [params, setParams] = useState<GenerationParams>({});
+  const [systemPrompt, setSystemPrompt] = useState<string>("");
+  const [profileId, setProfileId] = useState<string | null>(null);
   const [approveAllTools, setApproveAllTools] = useState<boolean>(false);
   const [settingsExpanded, setSettingsExpanded] = useState<boolean>(false);
   const [attachments, setAttachments] = useState<FileAttachment[]>([]);
   const [isUploading, setIsUploading] = useState(false);
 
+  // Restore the settings the thread was last run with; threads without stored settings
+  // keep the current selection
+  const { data: threadSettings } = useThreadSettings(threadId);
+  useEffect(() => {
+    if (!threadSettings || Object.keys(threadSettings).length === 0) return;
+    if (threadSettings.provider) setProvider(threadSettings.provider);
+    if (threadSettings.model !== undefined) setModel(threadSettings.model);
+    setApproveAllTools(threadSettings.approveAllTools ?? false);
+    setParams(threadSettings.params ?? {});
+    setSystemPrompt(threadSettings.systemPrompt ?? "");
+    setProfileId(threadSettings.profileId ?? null);
+  }, [threadSettings]);
+
+  // A profile fills in the settings it defines; the rest keep the current selection
+  const selectProfile = (profile: AgentProfile | null) => {
+    setProfileId(profile?.id ?? null);
+    if (!profile) return;
+    if (profile.provider) setProvider(profile.provider);
+    if (profile.model) setModel(profile.model);
+    if (profile.systemPrompt !== null) setSystemPrompt(profile.systemPrompt);
+    if (profile.params) setParams(profile.params);
+    setApproveAllTools(profile.toolPolicy === ToolApprovalPolicy.always_allow);
+  };
+
   // UI settings for toggling tool messages
   const { hideToolMessages, toggleToolMessages } = useUISettings();
 
@@ -110,6 +145,9 @@ export const MessageInput = ({
     await onSendMessage(message, {
       model,
       provider,
+      params,
+      systemPrompt,
+      profileId,
       tools: [],
       approveAllTools: approveAllTools,
       attachments: attachments.length > 0 ? attachments : undefined,
@@ -135,6 +173,12 @@ export const MessageInput = ({
           setProvider={setProvider}
           model={model}
           setModel={setModel}
+          params={params}
+          setParams={setParams}
+          systemPrompt={systemPrompt}
+          setSystemPrompt={setSystemPrompt}
+          profileId={profileId}
+          onSelectProfile={selectProfile}
         />
 
         {/* Input Section */}
@@ -201,13 +245,17 @@ export const MessageInput = ({
                 {remainingChars}/{maxLength}
               </div>
 
-              {/* Auto-approve tools setting - always visible */}
-              <label className="flex cursor-pointer items-center gap-1.5">
+              {/* Auto-approve tools setting - always visible, a profile's tool policy replaces it */}
+              <label
+                className="flex cursor-pointer items-center gap-1.5 has-disabled:cursor-not-allowed has-disabled:opacity-50"
+                title={profileId ? "The agent profile's tool policy applies" : undefined}
+              >
                 <input
                   type="checkbox"
                   checked={approveAllTools}
+                  disabled={!!profileId}
                   onChange={(e) => setApproveAllTools(e.target.checked)}
-                  className="h-3.5 w-3.5 cursor-pointer rounded border-gray-300 text-blue-600 focus:ring-1 focus:ring-blue-500"
+                  className="h-3.5 w-3.5 cursor-pointer rounded border-gray-300 text-blue-600 focus:ring-1 focus:ring-blue-500 disabled:cursor-not-allowed"
                 />
                 <span className="text-xs text-gray-600 dark:text-gray-300">Auto-approve tools</span>
               </label>
@@ -248,23 +296,35 @@ export const MessageInput = ({
                 )}
               </Button>
 
-              <Button
-                type="submit"
-                size="sm"
-                disabled={(!message.trim() && attachments.length === 0) || isLoading}
-                className={`flex h-8 w-8 cursor-pointer items-center justify-center rounded-full p-0 ${
-                  (message.trim() || attachments.length > 0) && !isLoading
-                    ? "bg-primary hover:bg-primary/90 text-white"
-                    : ""
-                }`}
-                aria-label="Send message"
-              >
-                {isLoading ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                ) : (
-                  <ArrowUp className="h-4 w-4" />
-                )}
-              </Button>
+              {isLoading && onStop ? (
+                <Button
+                  type="button"
+                  size="sm"
+                  onClick={onStop}
+                  className="bg-primary hover:bg-primary/90 flex h-8 w-8 cursor-pointer items-center justify-center rounded-full p-0 text-white"
+                  aria-label="Stop generating"
+                >
+                  <Square className="h-3 w-3 fill-current" />
+                </Button>
+              ) : (
+                <Button
+                  type="submit"
+                  size="sm"
+                  disabled={(!message.trim() && attachments.length === 0) || isLoading}
+                  className={`flex h-8 w-8 cursor-pointer items-center justify-center rounded-full p-0 ${
+                    (message.trim() || attachments.length > 0) && !isLoading
+                      ? "bg-primary hover:bg-primary/90 text-white"
+                      : ""
+                  }`}
+                  aria-label="Send message"
+                >
+                  {isLoading ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <ArrowUp className="h-4 w-4" />
+                  )}
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -1,9 +1,18 @@
-import type { MessageResponse, ToolApprovalCallbacks } from "@/types/message";
+import type {
+  ConversationSummary,
+  MessageBranch,
+  MessageResponse,
+  ToolApprovalCallbacks,
+  ToolApprovalRequest,
+  ToolReviewDecisions,
+} from "@/types/message";
 import { HumanMessage } from "./HumanMessage";
 import { AIMessage } from "./AIMessage";
 import { ErrorMessage } from "./ErrorMessage";
-import { useEffect, useRef } from "react";
+import { SummaryMarker } from "./SummaryMarker";
+import { Fragment, useEffect, useRef, useState } from "react";
 import { getMessageId } from "@/services/messageUtils";
+import { cn } from "@/lib/utils";
 import dynamic from "next/dynamic";
 import { useUISettings } from "@/contexts/UISettingsContext";
 
@@ -16,24 +25,67 @@ const ToolMessage = dynamic(() => import("./ToolMessage").then((m) => m.ToolMess
 
 interface MessageListProps {
   messages: MessageResponse[];
-  approveToolExecution?: (toolCallId: string, action: "allow" | "deny") => Promise<void>;
+  pendingApproval?: ToolApprovalRequest | null;
+  approveToolExecution?: (decisions: ToolReviewDecisions) => Promise<void>;
+  summary?: ConversationSummary | null;
+  branches?: Record<string, MessageBranch>;
+  onRegenerate?: (messageId: string) => void;
+  onEdit?: (messageId: string, text: string) => void;
+  onSelectBranch?: (checkpointId: string) => void;
+  onFork?: (messageId: string) => void;
+  isSending?: boolean; // disables the message actions while a run streams
+  targetMessageId?: string; // scrolled to and highlighted instead of the latest message
 }
 
-const MessageList = ({ messages, approveToolExecution }: MessageListProps) => {
+// How long a message opened from search stays highlighted
+const TARGET_HIGHLIGHT_MS = 2000;
+
+const MessageList = ({
+  messages,
+  pendingApproval,
+  approveToolExecution,
+  summary,
+  branches,
+  onRegenerate,
+  onEdit,
+  onSelectBranch,
+  onFork,
+  isSending,
+  targetMessageId,
+}: MessageListProps) => {
   const bottomRef = useRef<HTMLDivElement | null>(null);
+  const scrolledToTargetRef = useRef<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
   const { hideToolMessages } = useUISettings();
 
   useEffect(() => {
+    // Jump to the target message once it's loaded, later messages scroll to the bottom
+    if (targetMessageId && scrolledToTargetRef.current !== targetMessageId) {
+      const element = document.getElementById(`message-${targetMessageId}`);
+      if (element) {
+        scrolledToTargetRef.current = targetMessageId;
+        element.scrollIntoView({ block: "center" });
+        setHighlightedId(targetMessageId);
+      }
+      return;
+    }
     bottomRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [messages, targetMessageId]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timeoutId = setTimeout(() => setHighlightedId(null), TARGET_HIGHLIGHT_MS);
+    return () => clearTimeout(timeoutId);
+  }, [highlightedId]);
 
   // Create approval callbacks for tool execution
   const approvalCallbacks: ToolApprovalCallbacks | undefined = approveToolExecution
     ? {
-        onApprove: (toolCallId: string) => approveToolExecution(toolCallId, "allow"),
-        onDeny: (toolCallId: string) => approveToolExecution(toolCallId, "deny"),
+        onSubmit: (decisions: ToolReviewDecisions) => approveToolExecution(decisions),
       }
     : undefined;
+  // Only tool calls listed in the pending interrupt can be reviewed
+  const pendingToolCallIds = pendingApproval?.toolCalls.map((toolCall) => toolCall.id) ?? [];
   // Deduplicate messages by ID
   const uniqueMessages = messages.reduce((acc: MessageResponse[], message) => {
     const isDuplicate = acc.some((m) => m.data?.id === message.data?.id);
@@ -45,24 +97,55 @@ const MessageList = ({ messages, approveToolExecution }: MessageListProps) => {
 
   return (
     <div className="mx-auto w-full max-w-3xl space-y-6">
-      {uniqueMessages.map((message, index) => {
+      {uniqueMessages.map((message) => {
+        const messageId = message.data.id;
+        let element = null;
         if (message.type === "human") {
-          return <HumanMessage key={getMessageId(message)} message={message} />;
+          element = (
+            <HumanMessage
+              message={message}
+              branch={branches?.[messageId]}
+              onEdit={onEdit && ((text) => onEdit(messageId, text))}
+              onFork={onFork && (() => onFork(messageId))}
+              onSelectBranch={onSelectBranch}
+              disabled={isSending}
+            />
+          );
         } else if (message.type === "ai") {
-          return (
+          element = (
             <AIMessage
-              key={getMessageId(message)}
               message={message}
-              showApprovalButtons={index === messages.length - 1} // Show buttons only on the latest AI message
+              pendingToolCallIds={pendingToolCallIds}
               approvalCallbacks={approvalCallbacks}
+              branch={branches?.[messageId]}
+              onRegenerate={onRegenerate && (() => onRegenerate(messageId))}
+              onFork={onFork && (() => onFork(messageId))}
+              onSelectBranch={onSelectBranch}
+              disabled={isSending}
             />
           );
         } else if (message.type === "tool" && !hideToolMessages) {
-          return <ToolMessage key={getMessageId(message)} message={message} />;
+          element = <ToolMessage message={message} />;
         } else if (message.type === "error") {
-          return <ErrorMessage key={getMessageId(message)} message={message} />;
+          element = <ErrorMessage message={message} />;
         }
-        return null;
+        return (
+          <Fragment key={getMessageId(message)}>
+            <div
+              id={`message-${messageId}`}
+              className={cn(
+                "rounded-2xl transition-shadow empty:hidden",
+                highlightedId === messageId && "ring-2 ring-yellow-300 ring-offset-4",
+              )}
+            >
+              {element}
+            </div>
+            {/* The model only sees a summary of the messages up to here */}
+            {summary?.summarizedThroughId === message.data?.id && (
+              <SummaryMarker summary={summary} />
+            )}
+          </Fragment>
+        );
       })}
       <div ref={bottomRef} className="h-px" />
     </div>
@@ -0,0 +1,74 @@
+import { Bot, Loader2, UserIcon, Wrench } from "lucide-react";
+import type { MessageSearchResult, SnippetHighlight } from "@/types/search";
+
+interface MessageSearchResultsProps {
+  results: MessageSearchResult[];
+  isLoading?: boolean;
+  onSelect: (result: MessageSearchResult) => void;
+}
+
+const TYPE_ICONS = { human: UserIcon, ai: Bot, tool: Wrench };
+
+/**
+ * Splits a snippet into plain and highlighted parts.
+ */
+function HighlightedSnippet({
+  snippet,
+  highlights,
+}: {
+  snippet: string;
+  highlights: SnippetHighlight[];
+}) {
+  const parts = [];
+  let offset = 0;
+  for (const { start, end } of highlights) {
+    if (start > offset) parts.push(snippet.slice(offset, start));
+    parts.push(
+      <mark key={start} className="rounded-sm bg-yellow-200/80 px-0.5 text-inherit">
+        {snippet.slice(start, end)}
+      </mark>,
+    );
+    offset = end;
+  }
+  parts.push(snippet.slice(offset));
+  return <>{parts}</>;
+}
+
+/**
+ * Messages matching the sidebar search, each opening its thread at the message.
+ */
+export function MessageSearchResults({ results, isLoading, onSelect }: MessageSearchResultsProps) {
+  return (
+    <div className="space-y-1 pt-2">
+      <div className="text-muted-foreground flex items-center gap-2 px-3 text-[10px] font-medium tracking-wide uppercase">
+        Messages
+        {isLoading && <Loader2 className="h-3 w-3 animate-spin" />}
+      </div>
+      {results.map((result) => {
+        const Icon = TYPE_ICONS[result.type];
+        return (
+          <button
+            key={`${result.threadId}:${result.messageId}`}
+            type="button"
+            onClick={() => onSelect(result)}
+            className="hover:bg-muted/60 dark:hover:bg-muted/30 text-foreground/80 w-full cursor-pointer rounded-md px-3 py-2 text-left"
+          >
+            <div className="flex items-center gap-1.5 text-[10px] text-gray-500">
+              <Icon className="h-3 w-3 flex-shrink-0" />
+              <span className="truncate">
+                {result.threadTitle}
+                {result.name && ` · ${result.name}`}
+              </span>
+            </div>
+            <p className="mt-0.5 line-clamp-3 text-xs break-words">
+              <HighlightedSnippet snippet={result.snippet} highlights={result.highlights} />
+            </p>
+          </button>
+        );
+      })}
+      {!isLoading && results.length === 0 && (
+        <div className="px-3 py-2 text-xs text-gray-400">No messages found.</div>
+      )}
+    </div>
+  );
+}
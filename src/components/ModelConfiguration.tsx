@@ -2,8 +2,11 @@ import { useEffect, useRef, useState } from "react";
 import { BrainCog, Loader2, Wrench } from "lucide-react";
 import Image from "next/image";
 import { useMCPTools } from "@/hooks/useMCPTools";
+import { useProviderModels } from "@/hooks/useProviderModels";
+import { useModelProviders } from "@/hooks/useModelProviders";
 import { MCPToolsTooltip } from "./MCPToolsTooltip";
 import { DEFAULT_MODELS } from "@/lib/agent/util";
+import { GenerationParams, ModelProviderType, ReasoningEffort } from "@/types/model";
 
 interface ModelConfigurationProps {
   provider: string;
@@ -12,6 +15,18 @@ interface ModelConfigurationProps {
   setModel: (model: string) => void;
   approveAllTools?: boolean;
   setApproveAllTools?: (approveAllTools: boolean) => void;
+  params?: GenerationParams;
+  setParams?: (params: GenerationParams) => void;
+}
+
+const inputClassName =
+  "w-full rounded border border-gray-300 bg-white px-3 py-1.5 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 focus:outline-none dark:border-gray-600 dark:bg-gray-800 dark:text-gray-200";
+
+// Empty inputs unset the parameter so the provider default applies
+function parseNumber(value: string): number | undefined {
+  if (value.trim() === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
 }
 
 export const ModelConfiguration = ({
@@ -19,6 +34,8 @@ export const ModelConfiguration = ({
   setProvider,
   model,
   setModel,
+  params = {},
+  setParams,
 }: ModelConfigurationProps) => {
   const [showMCPTooltip, setShowMCPTooltip] = useState(false);
   const editContainerRef = useRef<HTMLDivElement | null>(null);
@@ -27,10 +44,49 @@ export const ModelConfiguration = ({
   // Fetch MCP tools data
   const { data: mcpToolsData, isLoading: mcpToolsLoading } = useMCPTools();
 
+  // Providers from the registry; ones named like a built-in provider only override its credentials
+  const { data: registeredProviders = [] } = useModelProviders();
+  const enabledProviders = registeredProviders.filter((p) => p.enabled);
+  const customProviders = enabledProviders.filter((p) => !(p.name in DEFAULT_MODELS));
+  const registered = enabledProviders.find((p) => p.name === provider);
+
+  // Models reported by self-hosted endpoints or allowed by the registry
+  const {
+    data: providerModelsData,
+    isFetching: providerModelsLoading,
+    error: providerModelsError,
+  } = useProviderModels(
+    provider,
+    registered
+      ? registered.allowedModels.length > 0 ||
+          registered.type === ModelProviderType.openai_compatible
+      : provider === "openai-compatible",
+  );
+  const providerModels = providerModelsData?.models;
+
+  // Providers without a fixed default start with the first model the endpoint reports
+  useEffect(() => {
+    if (!model && providerModels?.length) {
+      setModel(providerModels[0]);
+    }
+  }, [model, providerModels, setModel]);
+
   // Handle provider change - update model to default for that provider
   const handleProviderChange = (newProvider: string) => {
+    const allowedModels = enabledProviders.find((p) => p.name === newProvider)?.allowedModels;
     setProvider(newProvider);
-    setModel(DEFAULT_MODELS[newProvider] || "");
+    setModel(allowedModels?.[0] || DEFAULT_MODELS[newProvider] || "");
+  };
+
+  // Registered providers show the logo of the provider type they use
+  const logoProvider = registered
+    ? registered.type === ModelProviderType.openai_compatible
+      ? "openai-compatible"
+      : registered.type
+    : provider;
+
+  const updateParam = <K extends keyof GenerationParams>(key: K, value: GenerationParams[K]) => {
+    setParams?.({ ...params, [key]: value });
   };
 
   // Hide MCP tooltip when clicking outside
@@ -59,7 +115,7 @@ export const ModelConfiguration = ({
         <div className="flex items-center gap-3">
           <span className="inline-flex h-6 w-6 items-center justify-center overflow-hidden rounded bg-gray-200 dark:bg-gray-700">
             <Image
-              src={`/${provider.toLowerCase()}.svg`}
+              src={`/${logoProvider.toLowerCase()}.svg`}
               alt={provider}
               width={24}
               height={24}
@@ -78,6 +134,17 @@ export const ModelConfiguration = ({
             <option value="google">Google</option>
             <option value="openai">OpenAI</option>
             <option value="deepseek">DeepSeek</option>
+            <option value="anthropic">Anthropic</option>
+            <option value="openai-compatible">OpenAI-compatible</option>
+            {customProviders.length > 0 && (
+              <optgroup label="Registered">
+                {customProviders.map((p) => (
+                  <option key={p.id} value={p.name}>
+                    {p.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
           </select>
         </div>
       </div>
@@ -89,10 +156,136 @@ export const ModelConfiguration = ({
           value={model}
           onChange={(e) => setModel(e.target.value)}
           placeholder="Enter model name"
+          list={providerModels?.length ? "provider-models" : undefined}
           className="w-full rounded border border-gray-300 bg-white px-3 py-1.5 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 focus:outline-none dark:border-gray-600 dark:bg-gray-800 dark:text-gray-200"
         />
+        {!!providerModels?.length && (
+          <datalist id="provider-models">
+            {providerModels.map((name) => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+        )}
+        {providerModelsLoading && (
+          <div className="flex items-center gap-2 text-xs text-gray-500">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            <span>Loading models...</span>
+          </div>
+        )}
+        {providerModelsError && (
+          <p className="text-xs text-red-500">{(providerModelsError as Error).message}</p>
+        )}
       </div>
 
+      {/* Generation Parameters */}
+      {setParams && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="block text-xs font-medium text-gray-600 dark:text-gray-400">
+              Generation
+            </label>
+            <div className="flex items-center gap-2 text-xs">
+              <button
+                type="button"
+                onClick={() => setParams({ ...params, temperature: 0, seed: params.seed ?? 42 })}
+                className="cursor-pointer text-blue-600 hover:underline dark:text-blue-400"
+                title="Temperature 0 and a fixed seed for reproducible runs"
+              >
+                Deterministic
+              </button>
+              <button
+                type="button"
+                onClick={() => setParams({})}
+                className="cursor-pointer text-gray-500 hover:underline"
+              >
+                Reset
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="space-y-1 text-xs text-gray-500">
+              <span>Temperature</span>
+              <input
+                type="number"
+                min={0}
+                max={2}
+                step={0.1}
+                value={params.temperature ?? ""}
+                onChange={(e) => updateParam("temperature", parseNumber(e.target.value))}
+                placeholder="Default"
+                className={inputClassName}
+              />
+            </label>
+            <label className="space-y-1 text-xs text-gray-500">
+              <span>Top P</span>
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={params.topP ?? ""}
+                onChange={(e) => updateParam("topP", parseNumber(e.target.value))}
+                placeholder="Default"
+                className={inputClassName}
+              />
+            </label>
+            <label className="space-y-1 text-xs text-gray-500">
+              <span>Max tokens</span>
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={params.maxTokens ?? ""}
+                onChange={(e) => updateParam("maxTokens", parseNumber(e.target.value))}
+                placeholder="Default"
+                className={inputClassName}
+              />
+            </label>
+            <label className="space-y-1 text-xs text-gray-500">
+              <span>Seed</span>
+              <input
+                type="number"
+                step={1}
+                value={params.seed ?? ""}
+                onChange={(e) => updateParam("seed", parseNumber(e.target.value))}
+                placeholder="Random"
+                className={inputClassName}
+              />
+            </label>
+            <label className="space-y-1 text-xs text-gray-500">
+              <span>Reasoning effort</span>
+              <select
+                value={params.reasoningEffort ?? ""}
+                onChange={(e) =>
+                  updateParam("reasoningEffort", (e.target.value || undefined) as ReasoningEffort)
+                }
+                className={inputClassName}
+              >
+                <option value="">Default</option>
+                <option value="low">Low</option>
+                <option value="medium">Medium</option>
+                <option value="high">High</option>
+              </select>
+            </label>
+            <label className="space-y-1 text-xs text-gray-500">
+              <span>Stop sequences</span>
+              <input
+                value={params.stop?.join(", ") ?? ""}
+                onChange={(e) => {
+                  const stop = e.target.value
+                    .split(",")
+                    .map((sequence) => sequence.trim())
+                    .filter(Boolean);
+                  updateParam("stop", stop.length ? stop : undefined);
+                }}
+                placeholder="Comma separated"
+                className={inputClassName}
+              />
+            </label>
+          </div>
+        </div>
+      )}
+
       {/* MCP Tools Display */}
       {((mcpToolsData?.totalCount ?? 0) > 0 || mcpToolsLoading) && (
         <div className="space-y-2">
@@ -0,0 +1,222 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { X, Loader2, Check } from "lucide-react";
+import { ModelProvider, ModelProviderType } from "@/types/model";
+
+interface ModelProviderFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+  provider?: ModelProvider;
+}
+
+const TYPE_LABELS: Record<ModelProviderType, string> = {
+  [ModelProviderType.openai]: "OpenAI",
+  [ModelProviderType.google]: "Google",
+  [ModelProviderType.deepseek]: "DeepSeek",
+  [ModelProviderType.anthropic]: "Anthropic",
+  [ModelProviderType.openai_compatible]: "OpenAI-compatible",
+};
+
+const inputClassName =
+  "focus:border-primary focus:ring-ring/40 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:ring-2 focus:outline-none";
+
+export function ModelProviderForm({ isOpen, onClose, onSaved, provider }: ModelProviderFormProps) {
+  const [name, setName] = useState("");
+  const [type, setType] = useState<ModelProviderType>(ModelProviderType.openai_compatible);
+  const [baseURL, setBaseURL] = useState("");
+  const [apiKey, setApiKey] = useState("");
+  const [removeApiKey, setRemoveApiKey] = useState(false);
+  const [allowedModels, setAllowedModels] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the form whenever it opens for another provider
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(provider?.name ?? "");
+    setType(provider?.type ?? ModelProviderType.openai_compatible);
+    setBaseURL(provider?.baseURL ?? "");
+    setApiKey("");
+    setRemoveApiKey(false);
+    setAllowedModels(provider?.allowedModels.join(", ") ?? "");
+    setError(null);
+  }, [isOpen, provider]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      if (!name.trim()) {
+        throw new Error("Name is required");
+      }
+      if (type === ModelProviderType.openai_compatible && !baseURL.trim()) {
+        throw new Error("Base URL is required for OpenAI-compatible providers");
+      }
+
+      const data: Record<string, unknown> = {
+        name: name.trim(),
+        type,
+        baseURL: baseURL.trim() || null,
+        allowedModels: allowedModels
+          .split(",")
+          .map((model) => model.trim())
+          .filter(Boolean),
+      };
+      // Leaving the key empty keeps the stored one when editing
+      if (apiKey) {
+        data.apiKey = apiKey;
+      } else if (removeApiKey) {
+        data.apiKey = null;
+      }
+
+      const response = await fetch("/api/model-providers", {
+        method: provider ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(provider ? { ...data, id: provider.id } : data),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to save provider");
+      }
+
+      onSaved();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save provider");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="max-h-[90vh] w-full max-w-lg overflow-hidden rounded-lg bg-white shadow-xl">
+        <div className="flex items-center justify-between border-b border-gray-200 p-4">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {provider ? "Edit Model Provider" : "Add Model Provider"}
+          </h2>
+          <button
+            onClick={onClose}
+            className="cursor-pointer text-gray-400 transition-colors hover:text-gray-600"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="max-h-[calc(90vh-120px)] space-y-4 overflow-y-auto p-4">
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">Name</label>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="ollama"
+              className={inputClassName}
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Use a built-in name (e.g. &quot;openai&quot;) to override its environment credentials.
+            </p>
+          </div>
+
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">Type</label>
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as ModelProviderType)}
+              className={inputClassName}
+            >
+              {Object.values(ModelProviderType).map((value) => (
+                <option key={value} value={value}>
+                  {TYPE_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">Base URL</label>
+            <input
+              value={baseURL}
+              onChange={(e) => setBaseURL(e.target.value)}
+              placeholder={
+                type === ModelProviderType.openai_compatible
+                  ? "http://localhost:11434/v1"
+                  : "Leave empty for the provider default"
+              }
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">API Key</label>
+            <input
+              type="password"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              placeholder={provider?.hasApiKey ? "Leave empty to keep the stored key" : ""}
+              autoComplete="off"
+              className={inputClassName}
+            />
+            {provider?.hasApiKey && !apiKey && (
+              <label className="mt-2 flex items-center gap-2 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={removeApiKey}
+                  onChange={(e) => setRemoveApiKey(e.target.checked)}
+                />
+                Remove the stored key
+              </label>
+            )}
+          </div>
+
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">Allowed Models</label>
+            <input
+              value={allowedModels}
+              onChange={(e) => setAllowedModels(e.target.value)}
+              placeholder="Comma separated, empty allows any model"
+              className={inputClassName}
+            />
+          </div>
+
+          {error && (
+            <div className="rounded-md border border-red-200 bg-red-50 p-3">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 border-t border-gray-200 bg-gray-50 p-4">
+          <button
+            onClick={onClose}
+            className="cursor-pointer rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-primary text-primary-foreground hover:bg-primary/90 flex cursor-pointer items-center gap-2 rounded-md px-4 py-2 text-sm font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {saving ? (
+              <>
+                <Loader2 size={16} className="animate-spin" />
+                Saving...
+              </>
+            ) : (
+              <>
+                <Check size={16} />
+                Save Provider
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+"use client";
+
+import { useState } from "react";
+import { X, Plus, Edit, Trash2, Loader2, RefreshCcw, KeyRound, BrainCog } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { ModelProviderForm } from "./ModelProviderForm";
+import { useModelProviders } from "@/hooks/useModelProviders";
+import { ModelProvider } from "@/types/model";
+
+interface ModelProviderListProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function ModelProviderList({ isOpen, onClose }: ModelProviderListProps) {
+  const { data: providers = [], isFetching: loading, refetch } = useModelProviders();
+  const [showForm, setShowForm] = useState(false);
+  const [editingProvider, setEditingProvider] = useState<ModelProvider | undefined>();
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  // Model lists depend on the registry, so refresh both
+  const invalidateProviders = () => {
+    queryClient.invalidateQueries({ queryKey: ["model-providers"] });
+    queryClient.invalidateQueries({ queryKey: ["provider-models"] });
+  };
+
+  const toggleProvider = async (id: string, enabled: boolean) => {
+    try {
+      const response = await fetch("/api/model-providers", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id, enabled }),
+      });
+      if (response.ok) {
+        invalidateProviders();
+      }
+    } catch (error) {
+      console.error("Failed to toggle provider:", error);
+    }
+  };
+
+  const deleteProvider = async (id: string, providerName: string) => {
+    const confirmed = window.confirm(
+      `Are you sure you want to delete the model provider "${providerName}"? Its stored API key will be removed.`,
+    );
+    if (!confirmed) return;
+
+    setDeletingId(id);
+    try {
+      const response = await fetch(`/api/model-providers?id=${id}`, {
+        method: "DELETE",
+      });
+      if (response.ok) {
+        invalidateProviders();
+      }
+    } catch (error) {
+      console.error("Failed to delete provider:", error);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const handleFormClose = () => {
+    setShowForm(false);
+    setEditingProvider(undefined);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+        <div className="max-h-[90vh] w-full max-w-4xl overflow-hidden rounded-lg bg-white shadow-xl">
+          <div className="flex items-center justify-between border-b border-gray-200 p-4">
+            <h2 className="text-lg font-semibold text-gray-900">Model Providers</h2>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setShowForm(true)}
+                className="bg-primary text-primary-foreground hover:bg-primary/90 flex cursor-pointer items-center gap-2 rounded-md px-3 py-1.5 text-sm font-medium transition-colors"
+              >
+                <Plus size={16} />
+                Add Provider
+              </button>
+              <button
+                onClick={() => refetch()}
+                disabled={loading}
+                className="flex cursor-pointer items-center gap-1 px-2 py-1.5 text-sm text-gray-600 transition-colors hover:text-gray-800"
+                title="Refresh"
+              >
+                {loading ? (
+                  <Loader2 size={16} className="animate-spin" />
+                ) : (
+                  <RefreshCcw size={16} />
+                )}
+              </button>
+              <button
+                onClick={onClose}
+                className="cursor-pointer text-gray-400 transition-colors hover:text-gray-600"
+              >
+                <X size={20} />
+              </button>
+            </div>
+          </div>
+
+          <div className="max-h-[calc(90vh-120px)] overflow-y-auto p-4">
+            {loading && providers.length === 0 ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 size={24} className="animate-spin text-gray-400" />
+              </div>
+            ) : providers.length === 0 ? (
+              <div className="py-8 text-center text-gray-500">
+                <BrainCog size={48} className="mx-auto mb-4 text-gray-300" />
+                <p className="text-lg font-medium">No model providers registered</p>
+                <p className="text-sm">
+                  Built-in providers use the API keys from the server environment
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {providers.map((provider) => (
+                  <div
+                    key={provider.id}
+                    className="flex items-center justify-between rounded-lg border border-gray-200 p-4 transition-colors hover:bg-gray-50"
+                  >
+                    <div className="flex items-center gap-2">
+                      <BrainCog size={20} className="text-primary" />
+                      <div>
+                        <h3 className="font-medium text-gray-900">{provider.name}</h3>
+                        <div className="text-sm text-gray-500">
+                          <span className="mr-2 inline-block rounded bg-gray-100 px-2 py-0.5 text-xs">
+                            {provider.type}
+                          </span>
+                          {provider.baseURL && <span className="mr-2">{provider.baseURL}</span>}
+                          {provider.hasApiKey && (
+                            <span className="mr-2 inline-flex items-center gap-1 text-xs">
+                              <KeyRound size={12} />
+                              key stored
+                            </span>
+                          )}
+                          {provider.allowedModels.length > 0 && (
+                            <span className="text-xs">{provider.allowedModels.join(", ")}</span>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <label className="relative inline-flex cursor-pointer items-center">
+                        <input
+                          type="checkbox"
+                          checked={provider.enabled}
+                          onChange={(e) => toggleProvider(provider.id, e.target.checked)}
+                          className="peer sr-only"
+                        />
+                        <div className="peer peer-checked:bg-primary peer-focus:ring-ring/40 h-5 w-9 rounded-full bg-gray-200 peer-focus:ring-4 peer-focus:outline-none after:absolute after:top-[2px] after:left-[2px] after:h-4 after:w-4 after:rounded-full after:border after:border-gray-300 after:bg-white after:transition-all after:content-[''] peer-checked:after:translate-x-full peer-checked:after:border-white"></div>
+                      </label>
+
+                      <button
+                        onClick={() => {
+                          setEditingProvider(provider);
+                          setShowForm(true);
+                        }}
+                        className="cursor-pointer p-1.5 text-gray-400 transition-colors hover:text-gray-600"
+                        title="Edit"
+                      >
+                        <Edit size={16} />
+                      </button>
+
+                      <button
+                        onClick={() => deleteProvider(provider.id, provider.name)}
+                        disabled={deletingId === provider.id}
+                        className="cursor-pointer p-1.5 text-red-400 transition-colors hover:text-red-600 disabled:cursor-not-allowed disabled:opacity-50"
+                        title="Delete"
+                      >
+                        {deletingId === provider.id ? (
+                          <Loader2 size={16} className="animate-spin" />
+                        ) : (
+                          <Trash2 size={16} />
+                        )}
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <ModelProviderForm
+        isOpen={showForm}
+        onClose={handleFormClose}
+        onSaved={invalidateProviders}
+        provider={editingProvider}
+      />
+    </>
+  );
+}
@@ -1,6 +1,13 @@
-import { ChevronDown, ChevronUp, Settings } from "lucide-react";
+import { useState } from "react";
+import { ChevronDown, ChevronUp, Pencil, Plus, Settings, Trash2 } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
 import { ModelConfiguration } from "./ModelConfiguration";
+import { AgentProfileForm } from "./AgentProfileForm";
 import { useMCPTools } from "@/hooks/useMCPTools";
+import { useAgentProfiles } from "@/hooks/useAgentProfiles";
+import { useUISettings } from "@/contexts/UISettingsContext";
+import { GenerationParams } from "@/types/model";
+import type { AgentProfile } from "@/types/profile";
 
 interface SettingsPanelProps {
   isExpanded: boolean;
@@ -9,6 +16,12 @@ interface SettingsPanelProps {
   setProvider: (provider: string) => void;
   model: string;
   setModel: (model: string) => void;
+  params: GenerationParams;
+  setParams: (params: GenerationParams) => void;
+  systemPrompt: string;
+  setSystemPrompt: (systemPrompt: string) => void;
+  profileId: string | null;
+  onSelectProfile: (profile: AgentProfile | null) => void;
 }
 
 export const SettingsPanel = ({
@@ -18,8 +31,47 @@ export const SettingsPanel = ({
   setProvider,
   model,
   setModel,
+  params,
+  setParams,
+  systemPrompt,
+  setSystemPrompt,
+  profileId,
+  onSelectProfile,
 }: SettingsPanelProps) => {
   const { data: mcpToolsData } = useMCPTools();
+  const { data: profiles = [] } = useAgentProfiles();
+  const { userName, setUserName } = useUISettings();
+  const queryClient = useQueryClient();
+  const [profileFormOpen, setProfileFormOpen] = useState(false);
+  const [editingProfile, setEditingProfile] = useState<AgentProfile | undefined>();
+  const selectedProfile = profiles.find((profile) => profile.id === profileId);
+
+  const openProfileForm = (profile?: AgentProfile) => {
+    setEditingProfile(profile);
+    setProfileFormOpen(true);
+  };
+
+  const handleProfileSaved = (profile: AgentProfile) => {
+    queryClient.invalidateQueries({ queryKey: ["agent-profiles"] });
+    onSelectProfile(profile);
+  };
+
+  const deleteProfile = async (profile: AgentProfile) => {
+    if (!confirm(`Delete the profile "${profile.name}"?`)) return;
+    try {
+      const response = await fetch(`/api/agent-profiles?id=${encodeURIComponent(profile.id)}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to delete profile");
+      }
+      queryClient.invalidateQueries({ queryKey: ["agent-profiles"] });
+      onSelectProfile(null);
+    } catch (error) {
+      console.error("Failed to delete agent profile:", error);
+    }
+  };
+
   return (
     <div className="border-b border-gray-200 dark:border-gray-700">
       {/* Settings Header */}
@@ -36,7 +88,9 @@ export const SettingsPanel = ({
           {!isExpanded && (
             <>
               <span className="text-xs text-gray-500">
+                {selectedProfile && `${selectedProfile.name} - `}
                 {provider} / {model}
+                {params.temperature !== undefined && ` - temp ${params.temperature}`}
               </span>
               {(mcpToolsData?.totalCount ?? 0) > 0 && (
                 <span className="text-xs text-gray-500">
@@ -57,6 +111,64 @@ export const SettingsPanel = ({
       {isExpanded && (
         <div className="animate-in slide-in-from-top-2 px-4 pb-3 duration-200">
           <div className="space-y-3">
+            {/* Agent Profile */}
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Profile
+              </label>
+              <div className="flex items-center gap-2">
+                <select
+                  value={profileId ?? ""}
+                  onChange={(e) =>
+                    onSelectProfile(
+                      profiles.find((profile) => profile.id === e.target.value) ?? null,
+                    )
+                  }
+                  className="flex-1 rounded border border-gray-300 bg-white px-3 py-1.5 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 focus:outline-none dark:border-gray-600 dark:bg-gray-800 dark:text-gray-200"
+                  aria-label="Agent profile"
+                >
+                  <option value="">No profile</option>
+                  {profiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => openProfileForm()}
+                  className="rounded p-1.5 text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700 dark:hover:bg-gray-700"
+                  aria-label="New profile from the current settings"
+                  title="New profile from the current settings"
+                >
+                  <Plus className="h-4 w-4" />
+                </button>
+                {selectedProfile && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => openProfileForm(selectedProfile)}
+                      className="rounded p-1.5 text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700 dark:hover:bg-gray-700"
+                      aria-label="Edit profile"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => deleteProfile(selectedProfile)}
+                      className="rounded p-1.5 text-gray-500 transition-colors hover:bg-gray-100 hover:text-red-600 dark:hover:bg-gray-700"
+                      aria-label="Delete profile"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </>
+                )}
+              </div>
+              {selectedProfile?.description && (
+                <p className="text-xs text-gray-500">{selectedProfile.description}</p>
+              )}
+            </div>
+
             {/* Model Configuration */}
             <div className="space-y-2">
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
@@ -67,11 +179,49 @@ export const SettingsPanel = ({
                 setProvider={setProvider}
                 model={model}
                 setModel={setModel}
+                params={params}
+                setParams={setParams}
+              />
+            </div>
+
+            {/* System Prompt */}
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                System Prompt
+              </label>
+              <textarea
+                value={systemPrompt}
+                onChange={(e) => setSystemPrompt(e.target.value)}
+                placeholder="Leave empty to use the default system prompt. Supports {{date}}, {{user_name}}, {{thread_title}} and {{available_tools}}."
+                rows={3}
+                className="w-full resize-y rounded border border-gray-300 bg-white px-3 py-1.5 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 focus:outline-none dark:border-gray-600 dark:bg-gray-800 dark:text-gray-200"
+              />
+            </div>
+
+            {/* User Name */}
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Your Name
+              </label>
+              <input
+                value={userName}
+                onChange={(e) => setUserName(e.target.value)}
+                placeholder="Fills {{user_name}} in the system prompt"
+                maxLength={100}
+                className="w-full rounded border border-gray-300 bg-white px-3 py-1.5 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 focus:outline-none dark:border-gray-600 dark:bg-gray-800 dark:text-gray-200"
               />
             </div>
           </div>
         </div>
       )}
+
+      <AgentProfileForm
+        isOpen={profileFormOpen}
+        onClose={() => setProfileFormOpen(false)}
+        onSaved={handleProfileSaved}
+        profile={editingProfile}
+        defaults={{ provider, model, systemPrompt, params }}
+      />
     </div>
   );
 };
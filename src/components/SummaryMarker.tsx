@@ -0,0 +1,44 @@
+import { useState } from "react";
+import { ChevronDown, ChevronRight, FileText } from "lucide-react";
+import type { ConversationSummary } from "@/types/message";
+
+interface SummaryMarkerProps {
+  summary: ConversationSummary;
+}
+
+/**
+ * Divider placed after the last summarized message: the model no longer sees the
+ * messages above it, only the summary, which can be expanded here.
+ */
+export const SummaryMarker = ({ summary }: SummaryMarkerProps) => {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="text-xs text-gray-500 dark:text-gray-400">
+      <div className="flex items-center gap-3">
+        <div className="h-px flex-1 bg-gray-200 dark:bg-gray-700" />
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          className="inline-flex cursor-pointer items-center gap-1 rounded px-2 py-1 transition-colors hover:bg-gray-100 dark:hover:bg-gray-800"
+          aria-expanded={expanded}
+          title="The model sees a summary instead of the messages above"
+        >
+          <FileText className="h-3.5 w-3.5" />
+          <span>Earlier messages summarized</span>
+          {expanded ? (
+            <ChevronDown className="h-3.5 w-3.5" />
+          ) : (
+            <ChevronRight className="h-3.5 w-3.5" />
+          )}
+        </button>
+        <div className="h-px flex-1 bg-gray-200 dark:bg-gray-700" />
+      </div>
+      {expanded && (
+        <p className="mx-auto mt-2 max-w-2xl rounded-lg bg-gray-50 px-4 py-3 whitespace-pre-wrap text-gray-600 dark:bg-gray-800 dark:text-gray-300">
+          {summary.summary}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -2,19 +2,36 @@
 import { MessageInput } from "./MessageInput";
 import MessageList from "./MessageList";
 import { useChatThread } from "@/hooks/useChatThread";
+import { useThreads } from "@/hooks/useThreads";
 import { Loader2 } from "lucide-react";
 import { ScrollArea } from "./ui/scroll-area";
 import { useEffect, useRef, useState } from "react";
 import { MessageOptions } from "@/types/message";
+import { useRouter } from "next/navigation";
 
 interface ThreadProps {
   threadId: string;
   onFirstMessageSent?: (threadId: string) => void;
+  targetMessageId?: string; // message to scroll to, e.g. a search result
 }
 
-export const Thread = ({ threadId, onFirstMessageSent }: ThreadProps) => {
-  const { messages, isLoadingHistory, isSending, sendMessage, approveToolExecution } =
-    useChatThread({ threadId });
+export const Thread = ({ threadId, onFirstMessageSent, targetMessageId }: ThreadProps) => {
+  const {
+    messages,
+    isLoadingHistory,
+    isSending,
+    pendingApproval,
+    summary,
+    branches,
+    sendMessage,
+    regenerateMessage,
+    editMessage,
+    selectBranch,
+    approveToolExecution,
+    stopStreaming,
+  } = useChatThread({ threadId });
+  const { forkThread } = useThreads();
+  const router = useRouter();
   const firstMessageInitiatedRef = useRef(false);
   const [awaitingFirstResponse, setAwaitingFirstResponse] = useState(false);
 
@@ -27,6 +44,16 @@ export const Thread = ({ threadId, onFirstMessageSent }: ThreadProps) => {
     }
   };
 
+  const handleFork = async (messageId: string) => {
+    try {
+      const fork = await forkThread(threadId, messageId);
+      router.push(`/thread/${fork.id}`);
+    } catch (e) {
+      console.error("Fork failed", e);
+      alert(e instanceof Error ? e.message : "Failed to fork thread. Please try again.");
+    }
+  };
+
   // Detect first AI/tool/error message arrival after initial user message to trigger redirect
   useEffect(() => {
     if (awaitingFirstResponse && !isSending) {
@@ -54,14 +81,31 @@ export const Thread = ({ threadId, onFirstMessageSent }: ThreadProps) => {
           <div className="min-h-0 flex-1">
             <ScrollArea className="h-full">
               <div className="space-y-4 px-4 py-4">
-                <MessageList messages={messages} approveToolExecution={approveToolExecution} />
+                <MessageList
+                  messages={messages}
+                  pendingApproval={pendingApproval}
+                  approveToolExecution={approveToolExecution}
+                  summary={summary}
+                  branches={branches}
+                  onRegenerate={regenerateMessage}
+                  onEdit={editMessage}
+                  onSelectBranch={selectBranch}
+                  onFork={handleFork}
+                  targetMessageId={targetMessageId}
+                  isSending={isSending}
+                />
               </div>
             </ScrollArea>
           </div>
           <div className="flex-shrink-0">
             <div className="w-full p-4 pb-6">
               <div className="mx-auto max-w-3xl">
-                <MessageInput onSendMessage={handleSendMessage} isLoading={isSending} />
+                <MessageInput
+                  threadId={threadId}
+                  onSendMessage={handleSendMessage}
+                  isLoading={isSending}
+                  onStop={stopStreaming}
+                />
               </div>
             </div>
           </div>
@@ -77,7 +121,12 @@ export const Thread = ({ threadId, onFirstMessageSent }: ThreadProps) => {
                 Start a new conversation by sending a message
               </p>
             </div>
-            <MessageInput onSendMessage={handleSendMessage} isLoading={isSending} />
+            <MessageInput
+              threadId={threadId}
+              onSendMessage={handleSendMessage}
+              isLoading={isSending}
+              onStop={stopStreaming}
+            />
           </div>
         </div>
       )}
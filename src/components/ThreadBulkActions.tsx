@@ -0,0 +1,155 @@
+"use client";
+
+import {
+  Archive,
+  ArchiveRestore,
+  ListChecks,
+  Loader2,
+  Pin,
+  PinOff,
+  Tag,
+  Trash2,
+  X,
+} from "lucide-react";
+import type { ThreadBulkAction, ThreadFolder } from "@/types/message";
+
+interface ThreadBulkActionsProps {
+  selectedIds: string[];
+  archivedView: boolean; // selection comes from the archive
+  folders: ThreadFolder[];
+  isApplying: boolean;
+  onApply: (bulk: ThreadBulkAction) => void;
+  onSelectAll: () => void;
+  onClear: () => void;
+}
+
+const BUTTON_CLASS =
+  "hover:bg-muted inline-flex h-6 w-6 items-center justify-center rounded disabled:opacity-50";
+
+function askTags(message: string): string[] {
+  const input = prompt(message);
+  return (input ?? "")
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Toolbar of the thread list while threads are selected: pins, archives, tags, files or
+ * deletes them all at once.
+ */
+export function ThreadBulkActions({
+  selectedIds: ids,
+  archivedView,
+  folders,
+  isApplying,
+  onApply,
+  onSelectAll,
+  onClear,
+}: ThreadBulkActionsProps) {
+  const handleTags = (action: "addTags" | "removeTags") => {
+    const tags = askTags(
+      action === "addTags"
+        ? "Tags to add, separated by commas"
+        : "Tags to remove, separated by commas",
+    );
+    if (tags.length > 0) onApply({ action, ids, tags });
+  };
+
+  const handleDelete = () => {
+    const count = ids.length === 1 ? "this thread" : `these ${ids.length} threads`;
+    if (confirm(`Are you sure you want to delete ${count}? This action cannot be undone.`)) {
+      onApply({ action: "delete", ids });
+    }
+  };
+
+  return (
+    <div className="bg-muted/40 text-muted-foreground flex flex-wrap items-center gap-1 rounded-md px-2 py-1 text-[10px]">
+      <span className="text-foreground mr-auto font-medium">
+        {isApplying ? <Loader2 className="inline h-3 w-3 animate-spin" /> : ids.length} selected
+      </span>
+      <button onClick={onSelectAll} className={BUTTON_CLASS} title="Select all loaded threads">
+        <ListChecks className="h-3.5 w-3.5" />
+      </button>
+      <button
+        onClick={() => onApply({ action: "pin", ids })}
+        disabled={isApplying}
+        className={BUTTON_CLASS}
+        title="Pin"
+      >
+        <Pin className="h-3.5 w-3.5" />
+      </button>
+      <button
+        onClick={() => onApply({ action: "unpin", ids })}
+        disabled={isApplying}
+        className={BUTTON_CLASS}
+        title="Unpin"
+      >
+        <PinOff className="h-3.5 w-3.5" />
+      </button>
+      <button
+        onClick={() => onApply({ action: archivedView ? "unarchive" : "archive", ids })}
+        disabled={isApplying}
+        className={BUTTON_CLASS}
+        title={archivedView ? "Unarchive" : "Archive"}
+      >
+        {archivedView ? (
+          <ArchiveRestore className="h-3.5 w-3.5" />
+        ) : (
+          <Archive className="h-3.5 w-3.5" />
+        )}
+      </button>
+      <button
+        onClick={() => handleTags("addTags")}
+        disabled={isApplying}
+        className={BUTTON_CLASS}
+        title="Add tags"
+      >
+        <Tag className="h-3.5 w-3.5" />
+      </button>
+      <button
+        onClick={() => handleTags("removeTags")}
+        disabled={isApplying}
+        className={`${BUTTON_CLASS} w-auto px-1`}
+        title="Remove tags"
+      >
+        <Tag className="h-3.5 w-3.5" />
+        <X className="h-2.5 w-2.5" />
+      </button>
+      <select
+        value=""
+        onChange={(e) =>
+          onApply({
+            action: "move",
+            ids,
+            folderId: e.target.value === "none" ? null : e.target.value,
+          })
+        }
+        disabled={isApplying}
+        aria-label="Move to folder"
+        className="max-w-24 cursor-pointer rounded bg-transparent py-0.5 text-[10px] focus:ring-2 focus:ring-blue-500/40 focus:outline-none"
+      >
+        <option value="" disabled>
+          Move to…
+        </option>
+        <option value="none">No folder</option>
+        {folders.map((folder) => (
+          <option key={folder.id} value={folder.id}>
+            {folder.name}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={handleDelete}
+        disabled={isApplying}
+        className={`${BUTTON_CLASS} hover:text-red-600`}
+        title="Delete"
+      >
+        <Trash2 className="h-3.5 w-3.5" />
+      </button>
+      <button onClick={onClear} className={BUTTON_CLASS} title="Clear selection">
+        <X className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  );
+}
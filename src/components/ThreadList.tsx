@@ -1,7 +1,15 @@
 "use client";
 
-import { useRef, useState } from "react";
-import { useThreads } from "@/hooks/useThreads";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { useThreads, type UseThreadsOptions } from "@/hooks/useThreads";
+import { useThreadFolders } from "@/hooks/useThreadFolders";
+import { useThreadTags } from "@/hooks/useThreadTags";
+import { useMessageSearch } from "@/hooks/useMessageSearch";
+import { groupThreads, type ThreadGrouping } from "@/lib/threadGroups";
+import { MessageSearchResults } from "./MessageSearchResults";
+import { ThreadBulkActions } from "./ThreadBulkActions";
 import {
   SquarePen,
   Search,
@@ -12,25 +20,96 @@ import {
   RefreshCcw,
   Settings,
   Trash2,
+  BrainCog,
+  Pin,
+  PinOff,
+  Archive,
+  ArchiveRestore,
 } from "lucide-react";
 import { useRouter, usePathname } from "next/navigation";
+import type { Thread, ThreadBulkAction, ThreadFolder, ThreadUpdate } from "@/types/message";
+
+const SORT_OPTIONS = {
+  updated: { label: "Last updated", sort: "updatedAt", order: "desc" },
+  newest: { label: "Newest", sort: "createdAt", order: "desc" },
+  oldest: { label: "Oldest", sort: "createdAt", order: "asc" },
+  title: { label: "Title", sort: "title", order: "asc" },
+} satisfies Record<string, UseThreadsOptions & { label: string }>;
+
+type SortOption = keyof typeof SORT_OPTIONS;
+
+const GROUPING_OPTIONS: Record<ThreadGrouping, string> = {
+  pinned: "Pinned first",
+  folder: "By folder",
+  none: "No grouping",
+};
+
+// Folder filter option that creates a folder instead of filtering
+const NEW_FOLDER = "__new";
+
+const FILTER_SELECT_CLASS =
+  "min-w-0 flex-1 cursor-pointer rounded bg-transparent py-0.5 text-[10px] focus:ring-2 focus:ring-blue-500/40 focus:outline-none";
+
+// Estimated height of a thread row before it is measured
+const THREAD_ROW_HEIGHT = 60;
+
+// Wait for the user to stop typing before filtering titles on the server
+const TITLE_FILTER_DEBOUNCE_MS = 300;
 
 interface ThreadListProps {
   onOpenMCPConfig: () => void;
+  onOpenProviderConfig: () => void;
 }
 
-export function ThreadList({ onOpenMCPConfig }: ThreadListProps) {
-  const { threads, createThread, deleteThread, refetchThreads } = useThreads();
-  const [isCreating, setIsCreating] = useState(false);
+export function ThreadList({ onOpenMCPConfig, onOpenProviderConfig }: ThreadListProps) {
+  const [sortOption, setSortOption] = useState<SortOption>("updated");
+  const [showArchived, setShowArchived] = useState(false);
+  const [folderFilter, setFolderFilter] = useState(""); // folder id, "none" or all
+  const [tagFilter, setTagFilter] = useState("");
+  const [grouping, setGrouping] = useState<ThreadGrouping>("pinned");
   const [filter, setFilter] = useState("");
+  const [titleQuery, setTitleQuery] = useState("");
+  const {
+    threads,
+    totalThreads,
+    hasMoreThreads,
+    isLoadingMoreThreads,
+    loadMoreThreads,
+    createThread,
+    deleteThread,
+    updateThread,
+    bulkUpdateThreads,
+    refetchThreads,
+  } = useThreads({
+    ...SORT_OPTIONS[sortOption],
+    archived: showArchived,
+    folderId: folderFilter || undefined,
+    tag: tagFilter || undefined,
+    q: titleQuery || undefined,
+  });
+  const { data: folders = [] } = useThreadFolders();
+  const { data: tags = [] } = useThreadTags();
+  const queryClient = useQueryClient();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [applyingBulk, setApplyingBulk] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
   const [renamingId, setRenamingId] = useState<string | null>(null);
   const [renameValue, setRenameValue] = useState("");
   const [savingRename, setSavingRename] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement | null>(null);
+  const listRef = useRef<HTMLDivElement | null>(null);
   const router = useRouter();
   const pathname = usePathname();
+  // Titles filter the listing on the server, so pages load only for matching threads;
+  // message contents are searched separately
+  const { data: messageResults, isFetching: isSearchingMessages } = useMessageSearch(filter);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setTitleQuery(filter.trim()), TITLE_FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [filter]);
 
   const handleCreateThread = async () => {
     setIsCreating(true);
@@ -42,11 +121,105 @@ export function ThreadList({ onOpenMCPConfig }: ThreadListProps) {
     }
   };
 
-  const filtered = threads.filter((t) => {
-    if (!filter.trim()) return true;
-    const q = filter.toLowerCase();
-    return (t.title || "").toLowerCase().includes(q) || t.id.toLowerCase().includes(q);
+  const folderNames = useMemo(
+    () => new Map(folders.map((folder) => [folder.id, folder.name])),
+    [folders],
+  );
+  const rows = groupThreads(threads, grouping, folderNames);
+
+  // Only the rows in view are rendered; the extra row at the end shows more are loading
+  const virtualizer = useVirtualizer({
+    count: rows.length + (hasMoreThreads ? 1 : 0),
+    getScrollElement: () => listRef.current,
+    estimateSize: () => THREAD_ROW_HEIGHT,
+    overscan: 8,
   });
+  const virtualRows = virtualizer.getVirtualItems();
+  const lastRenderedIndex = virtualRows[virtualRows.length - 1]?.index ?? -1;
+
+  // Load the next page once the end of the list scrolls into view
+  useEffect(() => {
+    if (lastRenderedIndex >= rows.length - 1 && hasMoreThreads && !isLoadingMoreThreads) {
+      loadMoreThreads();
+    }
+  }, [lastRenderedIndex, rows.length, hasMoreThreads, isLoadingMoreThreads, loadMoreThreads]);
+
+  // A selection only makes sense within the listing it was made in
+  const changeListing = (change: () => void) => {
+    setSelectedIds(new Set());
+    change();
+  };
+
+  const toggleSelected = (threadId: string) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(threadId)) next.delete(threadId);
+      else next.add(threadId);
+      return next;
+    });
+  };
+
+  const handleBulkAction = async (bulk: ThreadBulkAction) => {
+    setApplyingBulk(true);
+    try {
+      await bulkUpdateThreads(bulk);
+      setSelectedIds(new Set());
+    } catch (e) {
+      console.error("Bulk update failed", e);
+      alert(`Failed to update threads: ${(e as Error).message}`);
+    } finally {
+      setApplyingBulk(false);
+    }
+  };
+
+  const handleUpdateThread = async (threadId: string, changes: ThreadUpdate) => {
+    try {
+      await updateThread(threadId, changes);
+    } catch (e) {
+      console.error("Update failed", e);
+      alert(`Failed to update thread: ${(e as Error).message}`);
+    }
+  };
+
+  const handleFolderFilter = async (value: string) => {
+    if (value !== NEW_FOLDER) {
+      changeListing(() => setFolderFilter(value));
+      return;
+    }
+    const name = prompt("Folder name")?.trim();
+    if (!name) return;
+    const response = await fetch("/api/thread-folders", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      alert(`Failed to create folder: ${errorData.error || response.statusText}`);
+      return;
+    }
+    const created: ThreadFolder = await response.json();
+    await queryClient.invalidateQueries({ queryKey: ["thread-folders"] });
+    changeListing(() => setFolderFilter(created.id));
+  };
+
+  const handleDeleteFolder = async (folder: ThreadFolder) => {
+    if (!confirm(`Delete the folder "${folder.name}"? Its threads are kept.`)) return;
+    const response = await fetch(`/api/thread-folders?id=${encodeURIComponent(folder.id)}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      alert("Failed to delete folder. Please try again.");
+      return;
+    }
+    changeListing(() => setFolderFilter(""));
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: ["thread-folders"] }),
+      queryClient.invalidateQueries({ queryKey: ["threads"] }),
+    ]);
+  };
+
+  const selectedFolder = folders.find((folder) => folder.id === folderFilter);
 
   const startRename = (id: string, current: string | undefined) => {
     setRenamingId(id);
@@ -63,12 +236,7 @@ export function ThreadList({ onOpenMCPConfig }: ThreadListProps) {
     if (!renamingId) return;
     setSavingRename(true);
     try {
-      await fetch("/api/agent/threads", {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ id: renamingId, title: renameValue || "Untitled thread" }),
-      });
-      await refetchThreads();
+      await updateThread(renamingId, { title: renameValue.trim() || "Untitled thread" });
       setRenamingId(null);
     } catch (e) {
       console.error("Rename failed", e);
@@ -102,6 +270,143 @@ export function ThreadList({ onOpenMCPConfig }: ThreadListProps) {
     }
   };
 
+  const renderThread = (thread: Thread) => {
+    const active = pathname === `/thread/${thread.id}`;
+    const isRenaming = renamingId === thread.id;
+    const selected = selectedIds.has(thread.id);
+    return (
+      <div
+        className={`group relative cursor-pointer rounded-md border border-transparent px-3 py-2 text-left ${active ? "bg-accent text-accent-foreground dark:bg-accent/60" : "hover:bg-muted/60 dark:hover:bg-muted/30 text-foreground/80"}`}
+        onClick={() => {
+          if (!isRenaming) router.push(`/thread/${thread.id}`);
+        }}
+      >
+        {!isRenaming && (
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex min-w-0 items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={selected}
+                onClick={(e) => e.stopPropagation()}
+                onChange={() => toggleSelected(thread.id)}
+                aria-label="Select thread"
+                className={`h-3 w-3 shrink-0 cursor-pointer ${selected || selectedIds.size > 0 ? "" : "hidden group-hover:block"}`}
+              />
+              {thread.pinned && <Pin className="text-muted-foreground h-3 w-3 shrink-0" />}
+              <div className="truncate text-sm font-medium" title={thread.title || thread.id}>
+                {thread.title || `Thread ${thread.id.slice(0, 8)}`}
+              </div>
+            </div>
+            <div className="flex items-center gap-1 opacity-0 transition-opacity group-hover:opacity-100">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleUpdateThread(thread.id, { pinned: !thread.pinned });
+                }}
+                className="hover:bg-muted inline-flex h-5 w-5 items-center justify-center rounded"
+                title={thread.pinned ? "Unpin" : "Pin"}
+              >
+                {thread.pinned ? (
+                  <PinOff className="h-3.5 w-3.5" />
+                ) : (
+                  <Pin className="h-3.5 w-3.5" />
+                )}
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleUpdateThread(thread.id, { archived: !thread.archived });
+                }}
+                className="hover:bg-muted inline-flex h-5 w-5 items-center justify-center rounded"
+                title={thread.archived ? "Unarchive" : "Archive"}
+              >
+                {thread.archived ? (
+                  <ArchiveRestore className="h-3.5 w-3.5" />
+                ) : (
+                  <Archive className="h-3.5 w-3.5" />
+                )}
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  startRename(thread.id, thread.title);
+                }}
+                className="hover:bg-muted inline-flex h-5 w-5 items-center justify-center rounded"
+                title="Rename"
+              >
+                <Pencil className="h-3.5 w-3.5" />
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDeleteThread(thread.id);
+                }}
+                disabled={deletingId === thread.id}
+                className="hover:bg-muted inline-flex h-5 w-5 items-center justify-center rounded hover:text-red-600 disabled:opacity-50"
+                title="Delete"
+              >
+                {deletingId === thread.id ? (
+                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <Trash2 className="h-3.5 w-3.5" />
+                )}
+              </button>
+            </div>
+          </div>
+        )}
+        {isRenaming && (
+          <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+            <input
+              ref={inputRef}
+              value={renameValue}
+              onChange={(e) => setRenameValue(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") saveRename();
+                if (e.key === "Escape") cancelRename();
+              }}
+              className="bg-background border-input focus:ring-ring/40 flex-1 rounded border px-2 py-1 text-xs focus:ring-2 focus:outline-none"
+            />
+            <button
+              disabled={savingRename}
+              onClick={saveRename}
+              className="bg-primary text-primary-foreground inline-flex h-6 w-6 items-center justify-center rounded hover:brightness-110 disabled:opacity-50"
+            >
+              {savingRename ? (
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <Check className="h-3.5 w-3.5" />
+              )}
+            </button>
+            <button
+              onClick={cancelRename}
+              className="bg-muted text-muted-foreground inline-flex h-6 w-6 items-center justify-center rounded hover:brightness-110"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        )}
+        <div className="text-muted-foreground/70 mt-1 flex items-center gap-2 text-[10px]">
+          <span>{thread.id.slice(0, 6)}</span>
+          <span className="h-1 w-1 rounded-full bg-gray-300 dark:bg-gray-600" />
+          <span>{new Date(thread.createdAt).toLocaleDateString()}</span>
+          {thread.tags.map((tag) => (
+            <button
+              key={tag}
+              onClick={(e) => {
+                e.stopPropagation();
+                changeListing(() => setTagFilter(tag));
+              }}
+              className="bg-muted hover:text-foreground truncate rounded px-1"
+              title={`Show threads tagged "${tag}"`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
   return (
     <nav className="flex h-full flex-col border-r border-gray-200 bg-white/60 backdrop-blur-sm dark:border-gray-800 dark:bg-gray-900/60">
       <div className="space-y-2 px-3 pt-3 pb-2">
@@ -135,103 +440,148 @@ export function ThreadList({ onOpenMCPConfig }: ThreadListProps) {
           <input
             value={filter}
             onChange={(e) => setFilter(e.target.value)}
-            placeholder="Search threads..."
+            placeholder="Search threads and messages..."
             className="w-full rounded-md border border-gray-300/70 bg-white/40 py-1.5 pr-2 pl-8 text-xs focus:ring-2 focus:ring-blue-500/40 focus:outline-none dark:border-gray-700/70 dark:bg-gray-800/40"
           />
         </div>
-      </div>
-      <div className="flex-1 space-y-1 overflow-y-auto px-2 pb-3">
-        {filtered.map((thread) => {
-          const active = pathname === `/thread/${thread.id}`;
-          const isRenaming = renamingId === thread.id;
-          return (
-            <div
-              key={thread.id}
-              className={`group relative cursor-pointer rounded-md border border-transparent px-3 py-2 text-left ${active ? "bg-accent text-accent-foreground dark:bg-accent/60" : "hover:bg-muted/60 dark:hover:bg-muted/30 text-foreground/80"}`}
-              onClick={() => {
-                if (!isRenaming) router.push(`/thread/${thread.id}`);
-              }}
+        <div className="text-muted-foreground flex items-center gap-1 px-1 text-[10px]">
+          <select
+            value={showArchived ? "archived" : "active"}
+            onChange={(e) => changeListing(() => setShowArchived(e.target.value === "archived"))}
+            aria-label="Show active or archived threads"
+            className={FILTER_SELECT_CLASS}
+          >
+            <option value="active">Active</option>
+            <option value="archived">Archived</option>
+          </select>
+          <select
+            value={folderFilter}
+            onChange={(e) => handleFolderFilter(e.target.value)}
+            aria-label="Filter by folder"
+            className={FILTER_SELECT_CLASS}
+          >
+            <option value="">All folders</option>
+            <option value="none">No folder</option>
+            {folders.map((folder) => (
+              <option key={folder.id} value={folder.id}>
+                {folder.name} ({folder.threadCount})
+              </option>
+            ))}
+            <option value={NEW_FOLDER}>New folder…</option>
+          </select>
+          {selectedFolder && (
+            <button
+              onClick={() => handleDeleteFolder(selectedFolder)}
+              className="hover:bg-muted inline-flex h-5 w-5 shrink-0 items-center justify-center rounded hover:text-red-600"
+              title="Delete folder"
             >
-              {!isRenaming && (
-                <div className="flex items-center justify-between gap-2">
-                  <div className="truncate text-sm font-medium" title={thread.title || thread.id}>
-                    {thread.title || `Thread ${thread.id.slice(0, 8)}`}
+              <Trash2 className="h-3 w-3" />
+            </button>
+          )}
+          <select
+            value={tagFilter}
+            onChange={(e) => changeListing(() => setTagFilter(e.target.value))}
+            aria-label="Filter by tag"
+            className={FILTER_SELECT_CLASS}
+          >
+            <option value="">All tags</option>
+            {tagFilter && !tags.some(({ tag }) => tag === tagFilter) && (
+              <option value={tagFilter}>#{tagFilter}</option>
+            )}
+            {tags.map(({ tag, count }) => (
+              <option key={tag} value={tag}>
+                #{tag} ({count})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="text-muted-foreground flex items-center justify-between gap-2 px-1 text-[10px]">
+          <span className="mr-auto">
+            {totalThreads} {totalThreads === 1 ? "thread" : "threads"}
+          </span>
+          <select
+            value={grouping}
+            onChange={(e) => setGrouping(e.target.value as ThreadGrouping)}
+            aria-label="Group threads"
+            className="cursor-pointer rounded bg-transparent py-0.5 text-[10px] focus:ring-2 focus:ring-blue-500/40 focus:outline-none"
+          >
+            {Object.entries(GROUPING_OPTIONS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={sortOption}
+            onChange={(e) => setSortOption(e.target.value as SortOption)}
+            aria-label="Sort threads"
+            className="cursor-pointer rounded bg-transparent py-0.5 text-[10px] focus:ring-2 focus:ring-blue-500/40 focus:outline-none"
+          >
+            {Object.entries(SORT_OPTIONS).map(([value, { label }]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {selectedIds.size > 0 && (
+          <ThreadBulkActions
+            selectedIds={[...selectedIds]}
+            archivedView={showArchived}
+            folders={folders}
+            isApplying={applyingBulk}
+            onApply={handleBulkAction}
+            onSelectAll={() => setSelectedIds(new Set(threads.map((thread) => thread.id)))}
+            onClear={() => setSelectedIds(new Set())}
+          />
+        )}
+      </div>
+      <div ref={listRef} className="flex-1 overflow-y-auto px-2 pb-3">
+        <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+          {virtualRows.map((virtualRow) => {
+            const row = rows[virtualRow.index];
+            return (
+              <div
+                key={virtualRow.key}
+                data-index={virtualRow.index}
+                ref={virtualizer.measureElement}
+                className="absolute top-0 left-0 w-full pb-1"
+                style={{ transform: `translateY(${virtualRow.start}px)` }}
+              >
+                {row?.kind === "header" ? (
+                  <div className="text-muted-foreground flex items-center justify-between px-3 pt-2 text-[10px] font-medium tracking-wide uppercase">
+                    <span className="truncate">{row.label}</span>
+                    <span>{row.count}</span>
                   </div>
-                  <div className="flex items-center gap-1 opacity-0 transition-opacity group-hover:opacity-100">
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        startRename(thread.id, thread.title);
-                      }}
-                      className="hover:bg-muted inline-flex h-5 w-5 items-center justify-center rounded"
-                      title="Rename"
-                    >
-                      <Pencil className="h-3.5 w-3.5" />
-                    </button>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleDeleteThread(thread.id);
-                      }}
-                      disabled={deletingId === thread.id}
-                      className="hover:bg-muted inline-flex h-5 w-5 items-center justify-center rounded hover:text-red-600 disabled:opacity-50"
-                      title="Delete"
-                    >
-                      {deletingId === thread.id ? (
-                        <Loader2 className="h-3.5 w-3.5 animate-spin" />
-                      ) : (
-                        <Trash2 className="h-3.5 w-3.5" />
-                      )}
-                    </button>
+                ) : row ? (
+                  renderThread(row.thread)
+                ) : (
+                  <div className="flex justify-center py-2 text-gray-400">
+                    <Loader2 className="h-4 w-4 animate-spin" />
                   </div>
-                </div>
-              )}
-              {isRenaming && (
-                <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
-                  <input
-                    ref={inputRef}
-                    value={renameValue}
-                    onChange={(e) => setRenameValue(e.target.value)}
-                    onKeyDown={(e) => {
-                      if (e.key === "Enter") saveRename();
-                      if (e.key === "Escape") cancelRename();
-                    }}
-                    className="bg-background border-input focus:ring-ring/40 flex-1 rounded border px-2 py-1 text-xs focus:ring-2 focus:outline-none"
-                  />
-                  <button
-                    disabled={savingRename}
-                    onClick={saveRename}
-                    className="bg-primary text-primary-foreground inline-flex h-6 w-6 items-center justify-center rounded hover:brightness-110 disabled:opacity-50"
-                  >
-                    {savingRename ? (
-                      <Loader2 className="h-3.5 w-3.5 animate-spin" />
-                    ) : (
-                      <Check className="h-3.5 w-3.5" />
-                    )}
-                  </button>
-                  <button
-                    onClick={cancelRename}
-                    className="bg-muted text-muted-foreground inline-flex h-6 w-6 items-center justify-center rounded hover:brightness-110"
-                  >
-                    <X className="h-3.5 w-3.5" />
-                  </button>
-                </div>
-              )}
-              <div className="text-muted-foreground/70 mt-1 flex items-center gap-2 text-[10px]">
-                <span>{thread.id.slice(0, 6)}</span>
-                <span className="h-1 w-1 rounded-full bg-gray-300 dark:bg-gray-600" />
-                <span>{new Date(thread.createdAt).toLocaleDateString()}</span>
+                )}
               </div>
-            </div>
-          );
-        })}
-        {filtered.length === 0 && (
+            );
+          })}
+        </div>
+        {threads.length === 0 && !messageResults && (
           <div className="px-3 py-6 text-center text-xs text-gray-400">No threads found.</div>
         )}
+        {messageResults && (
+          <MessageSearchResults
+            results={messageResults}
+            isLoading={isSearchingMessages}
+            onSelect={(result) =>
+              router.push(
+                `/thread/${result.threadId}?message=${encodeURIComponent(result.messageId)}`,
+              )
+            }
+          />
+        )}
       </div>
 
-      {/* MCP Configuration Button */}
-      <div className="border-t border-gray-200 p-3">
+      {/* MCP and model provider configuration buttons */}
+      <div className="space-y-2 border-t border-gray-200 p-3">
         <button
           onClick={onOpenMCPConfig}
           className="flex w-full cursor-pointer items-center justify-center gap-2 rounded-md bg-gray-50 px-3 py-2 text-xs font-medium text-gray-600 transition-colors hover:bg-gray-100"
@@ -239,6 +589,13 @@ export function ThreadList({ onOpenMCPConfig }: ThreadListProps) {
           <Settings className="h-4 w-4" />
           Configure MCP Servers
         </button>
+        <button
+          onClick={onOpenProviderConfig}
+          className="flex w-full cursor-pointer items-center justify-center gap-2 rounded-md bg-gray-50 px-3 py-2 text-xs font-medium text-gray-600 transition-colors hover:bg-gray-100"
+        >
+          <BrainCog className="h-4 w-4" />
+          Configure Model Providers
+        </button>
       </div>
     </nav>
   );
@@ -1,12 +1,19 @@
 import React, { useState } from "react";
-import { ChevronDown, ChevronRight, Settings2Icon, Check, X } from "lucide-react";
-import type { ToolCall, FunctionCall, ToolApprovalCallbacks } from "@/types/message";
+import { ChevronDown, ChevronRight, Settings2Icon, Check, X, Undo2, Pencil } from "lucide-react";
+import type {
+  ToolCall,
+  FunctionCall,
+  ToolApprovalCallbacks,
+  ToolReviewDecision,
+  ToolReviewDecisions,
+} from "@/types/message";
 
 interface ToolCallDisplayProps {
   toolCalls?: ToolCall[];
   functionCalls?: FunctionCall[];
   approvalCallbacks?: ToolApprovalCallbacks;
-  showApprovalButtons?: boolean;
+  // Ids of the tool calls the interrupted run is waiting on
+  pendingToolCallIds?: string[];
 }
 
 const formatArgs = (args: Record<string, unknown> | string) => {
@@ -18,14 +25,49 @@ const formatArgs = (args: Record<string, unknown> | string) => {
   );
 };
 
+const DECISION_LABELS: Record<ToolReviewDecision["action"], string> = {
+  continue: "Allowed",
+  update: "Allowed with edits",
+  feedback: "Denied",
+};
+
 const ToolCallItem: React.FC<{
   name: string;
   args: Record<string, unknown>;
-  id?: string;
-  approvalCallbacks?: ToolApprovalCallbacks;
-  showApprovalButtons?: boolean;
-}> = ({ name, args, id, approvalCallbacks, showApprovalButtons }) => {
+  decision?: ToolReviewDecision;
+  onDecide?: (decision: ToolReviewDecision | undefined) => void;
+}> = ({ name, args, decision, onDecide }) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  // "edit" shows the JSON argument editor, "deny" the rejection reason input
+  const [mode, setMode] = useState<"review" | "edit" | "deny">("review");
+  const [argsInput, setArgsInput] = useState("");
+  const [argsError, setArgsError] = useState<string | null>(null);
+  const [denyReason, setDenyReason] = useState("");
+
+  const startEdit = () => {
+    setArgsInput(JSON.stringify(args, null, 2));
+    setArgsError(null);
+    setMode("edit");
+  };
+
+  const submitEdit = () => {
+    try {
+      const parsed = JSON.parse(argsInput);
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        setArgsError("Arguments must be a JSON object");
+        return;
+      }
+      setMode("review");
+      onDecide?.({ action: "update", data: parsed });
+    } catch (err) {
+      setArgsError(`JSON Syntax Error: ${err instanceof Error ? err.message : "Invalid JSON"}`);
+    }
+  };
+
+  const submitDeny = () => {
+    setMode("review");
+    onDecide?.({ action: "feedback", data: denyReason.trim() || undefined });
+  };
 
   return (
     <div className="rounded-r border-l-4 border-gray-200 bg-gray-200/30 p-3">
@@ -49,17 +91,24 @@ const ToolCallItem: React.FC<{
         </div>
       )}
 
-      {showApprovalButtons && id && approvalCallbacks && (
+      {onDecide && !decision && mode === "review" && (
         <div className="mt-3 flex justify-end gap-2">
           <button
-            onClick={() => approvalCallbacks.onDeny(id)}
+            onClick={startEdit}
+            className="flex items-center gap-1 rounded border border-gray-300 px-3 py-1 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-100"
+          >
+            <Pencil className="h-3 w-3" />
+            Edit
+          </button>
+          <button
+            onClick={() => setMode("deny")}
             className="flex items-center gap-1 rounded border border-red-200 px-3 py-1 text-sm font-medium text-red-700 transition-colors hover:bg-red-100"
           >
             <X className="h-3 w-3" />
             Deny
           </button>
           <button
-            onClick={() => approvalCallbacks.onApprove(id)}
+            onClick={() => onDecide({ action: "continue" })}
             className="flex items-center gap-1 rounded border border-green-200 px-3 py-1 text-sm font-medium text-green-700 transition-colors hover:bg-green-100"
           >
             <Check className="h-3 w-3" />
@@ -67,6 +116,95 @@ const ToolCallItem: React.FC<{
           </button>
         </div>
       )}
+
+      {onDecide && !decision && mode === "edit" && (
+        <div className="mt-3 space-y-2">
+          <div className="text-sm font-medium text-gray-700">Edit arguments (JSON):</div>
+          <textarea
+            value={argsInput}
+            onChange={(e) => {
+              setArgsInput(e.target.value);
+              setArgsError(null);
+            }}
+            className={`h-40 w-full rounded border p-2 font-mono text-sm focus:ring-1 focus:outline-none ${
+              argsError
+                ? "border-red-300 bg-red-50/30 focus:ring-red-500"
+                : "border-gray-300 bg-white focus:ring-blue-500"
+            }`}
+            aria-label="Tool call arguments"
+          />
+          {argsError && <p className="text-xs text-red-600">{argsError}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setMode("review")}
+              className="rounded border border-gray-300 px-3 py-1 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={submitEdit}
+              className="flex items-center gap-1 rounded border border-green-200 px-3 py-1 text-sm font-medium text-green-700 transition-colors hover:bg-green-100"
+            >
+              <Check className="h-3 w-3" />
+              Run with edits
+            </button>
+          </div>
+        </div>
+      )}
+
+      {onDecide && !decision && mode === "deny" && (
+        <div className="mt-3 space-y-2">
+          <textarea
+            value={denyReason}
+            onChange={(e) => setDenyReason(e.target.value)}
+            placeholder="Reason for denying (optional, shared with the agent)"
+            className="h-20 w-full rounded border border-gray-300 bg-white p-2 text-sm focus:ring-1 focus:ring-blue-500 focus:outline-none"
+            aria-label="Denial reason"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setMode("review")}
+              className="rounded border border-gray-300 px-3 py-1 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={submitDeny}
+              className="flex items-center gap-1 rounded border border-red-200 px-3 py-1 text-sm font-medium text-red-700 transition-colors hover:bg-red-100"
+            >
+              <X className="h-3 w-3" />
+              Deny
+            </button>
+          </div>
+        </div>
+      )}
+
+      {onDecide && decision && (
+        <div className="mt-3 flex items-center justify-end gap-2 text-sm">
+          {decision.action === "feedback" && typeof decision.data === "string" && (
+            <span className="truncate text-xs text-gray-500" title={decision.data}>
+              {decision.data}
+            </span>
+          )}
+          <span
+            className={
+              decision.action === "feedback"
+                ? "font-medium text-red-700"
+                : "font-medium text-green-700"
+            }
+          >
+            {DECISION_LABELS[decision.action]}
+          </span>
+          <button
+            onClick={() => onDecide(undefined)}
+            className="flex items-center gap-1 rounded px-2 py-1 text-xs text-gray-600 transition-colors hover:bg-gray-200"
+            title="Change decision"
+          >
+            <Undo2 className="h-3 w-3" />
+            Change
+          </button>
+        </div>
+      )}
     </div>
   );
 };
@@ -75,8 +213,9 @@ export const ToolCallDisplay: React.FC<ToolCallDisplayProps> = ({
   toolCalls = [],
   functionCalls = [],
   approvalCallbacks,
-  showApprovalButtons = false,
+  pendingToolCallIds = [],
 }) => {
+  const [decisions, setDecisions] = useState<ToolReviewDecisions>({});
   const hasToolCalls = toolCalls.length > 0;
   const hasFunctionCalls = functionCalls.length > 0;
 
@@ -84,6 +223,25 @@ export const ToolCallDisplay: React.FC<ToolCallDisplayProps> = ({
     return null;
   }
 
+  const reviewableIds = approvalCallbacks
+    ? toolCalls.map((toolCall) => toolCall.id).filter((id) => pendingToolCallIds.includes(id))
+    : [];
+
+  // Record a decision and submit once every pending call has been reviewed
+  const decide = (toolCallId: string, decision: ToolReviewDecision | undefined) => {
+    const next = { ...decisions };
+    if (decision) {
+      next[toolCallId] = decision;
+    } else {
+      delete next[toolCallId];
+    }
+    setDecisions(next);
+    if (decision && reviewableIds.every((id) => next[id])) {
+      approvalCallbacks?.onSubmit(next);
+      setDecisions({});
+    }
+  };
+
   return (
     <div className="space-y-2">
       {hasToolCalls && (
@@ -93,9 +251,12 @@ export const ToolCallDisplay: React.FC<ToolCallDisplayProps> = ({
               key={toolCall.id || index}
               name={toolCall.name}
               args={toolCall.args}
-              id={toolCall.id}
-              approvalCallbacks={approvalCallbacks}
-              showApprovalButtons={showApprovalButtons}
+              decision={toolCall.id ? decisions[toolCall.id] : undefined}
+              onDecide={
+                reviewableIds.includes(toolCall.id)
+                  ? (decision) => decide(toolCall.id, decision)
+                  : undefined
+              }
             />
           ))}
         </div>
@@ -104,13 +265,7 @@ export const ToolCallDisplay: React.FC<ToolCallDisplayProps> = ({
       {hasFunctionCalls && (
         <div className="space-y-2">
           {functionCalls.map((functionCall, index) => (
-            <ToolCallItem
-              key={index}
-              name={functionCall.name}
-              args={functionCall.args}
-              approvalCallbacks={approvalCallbacks}
-              showApprovalButtons={showApprovalButtons}
-            />
+            <ToolCallItem key={index} name={functionCall.name} args={functionCall.args} />
           ))}
         </div>
       )}
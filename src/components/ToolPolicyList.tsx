@@ -0,0 +1,119 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { useMCPTools } from "@/hooks/useMCPTools";
+import { ToolApprovalPolicy, ToolPolicy } from "@/types/mcp";
+
+interface ToolPolicyListProps {
+  serverId: string;
+  serverName: string;
+}
+
+const POLICY_LABELS: Record<ToolApprovalPolicy, string> = {
+  [ToolApprovalPolicy.always_ask]: "Always ask",
+  [ToolApprovalPolicy.always_allow]: "Always allow",
+  [ToolApprovalPolicy.always_deny]: "Always deny",
+};
+
+export function ToolPolicyList({ serverId, serverName }: ToolPolicyListProps) {
+  const { data: mcpToolsData, isLoading: toolsLoading } = useMCPTools();
+  const [policies, setPolicies] = useState<ToolPolicy[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [savingTool, setSavingTool] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchPolicies = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/tool-policies?serverId=${serverId}`);
+        if (response.ok) {
+          setPolicies(await response.json());
+        }
+      } catch (error) {
+        console.error("Failed to fetch tool policies:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchPolicies();
+  }, [serverId]);
+
+  const updatePolicy = async (toolName: string, value: string) => {
+    const existing = policies.find((p) => p.toolName === toolName);
+    setSavingTool(toolName);
+    try {
+      if (value === "default") {
+        // No stored policy: the tool follows the per-request auto-approve setting
+        if (!existing) return;
+        const response = await fetch(`/api/tool-policies?id=${existing.id}`, { method: "DELETE" });
+        if (response.ok) {
+          setPolicies(policies.filter((p) => p.id !== existing.id));
+        }
+        return;
+      }
+
+      const response = await fetch("/api/tool-policies", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ serverId, toolName, policy: value }),
+      });
+      if (response.ok) {
+        const saved: ToolPolicy = await response.json();
+        setPolicies([...policies.filter((p) => p.toolName !== toolName), saved]);
+      }
+    } catch (error) {
+      console.error("Failed to update tool policy:", error);
+    } finally {
+      setSavingTool(null);
+    }
+  };
+
+  const tools = mcpToolsData?.serverGroups[serverName]?.tools ?? [];
+
+  if (toolsLoading || loading) {
+    return (
+      <div className="flex items-center gap-2 py-2 text-sm text-gray-500">
+        <Loader2 size={14} className="animate-spin" />
+        Loading tools...
+      </div>
+    );
+  }
+
+  if (tools.length === 0) {
+    return <p className="py-2 text-sm text-gray-500">No tools reported by this server.</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {tools.map((tool) => {
+        const policy = policies.find((p) => p.toolName === tool.name)?.policy;
+        return (
+          <div key={tool.name} className="flex items-center justify-between gap-4 py-1">
+            <span className="truncate font-mono text-xs text-gray-700" title={tool.description}>
+              {tool.name}
+            </span>
+            <div className="flex items-center gap-2">
+              {savingTool === tool.name && (
+                <Loader2 size={14} className="animate-spin text-gray-400" />
+              )}
+              <select
+                value={policy ?? "default"}
+                onChange={(e) => updatePolicy(tool.name, e.target.value)}
+                disabled={savingTool === tool.name}
+                className="rounded border border-gray-300 bg-white px-2 py-1 text-xs focus:border-blue-500 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+              >
+                <option value="default">Default</option>
+                {Object.values(ToolApprovalPolicy).map((value) => (
+                  <option key={value} value={value}>
+                    {POLICY_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
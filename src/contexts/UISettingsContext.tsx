@@ -1,27 +1,46 @@
 "use client";
 
-import { createContext, useContext, useState, ReactNode } from "react";
+import { createContext, useContext, useEffect, useState, ReactNode } from "react";
 
 interface UISettingsContextType {
   hideToolMessages: boolean;
   toggleToolMessages: () => void;
+  userName: string; // sent with every message for the system prompt's {{user_name}}
+  setUserName: (userName: string) => void;
 }
 
 const UISettingsContext = createContext<UISettingsContextType | undefined>(undefined);
 
+// The name is kept in the browser, the server has no notion of users
+const USER_NAME_STORAGE_KEY = "userName";
+
 interface UISettingsProviderProps {
   children: ReactNode;
 }
 
 export const UISettingsProvider = ({ children }: UISettingsProviderProps) => {
   const [hideToolMessages, setHideToolMessages] = useState(false);
+  const [userName, setUserNameState] = useState("");
+
+  // Read after mounting, localStorage doesn't exist during server rendering
+  useEffect(() => {
+    setUserNameState(localStorage.getItem(USER_NAME_STORAGE_KEY) ?? "");
+  }, []);
 
   const toggleToolMessages = () => {
     setHideToolMessages((prev) => !prev);
   };
 
+  const setUserName = (name: string) => {
+    setUserNameState(name);
+    if (name.trim()) localStorage.setItem(USER_NAME_STORAGE_KEY, name);
+    else localStorage.removeItem(USER_NAME_STORAGE_KEY);
+  };
+
   return (
-    <UISettingsContext.Provider value={{ hideToolMessages, toggleToolMessages }}>
+    <UISettingsContext.Provider
+      value={{ hideToolMessages, toggleToolMessages, userName, setUserName }}
+    >
       {children}
     </UISettingsContext.Provider>
   );
@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import type { AgentProfile } from "@/types/profile";
+
+async function fetchAgentProfiles(): Promise<AgentProfile[]> {
+  const response = await fetch("/api/agent-profiles");
+  if (!response.ok) {
+    throw new Error("Failed to fetch agent profiles");
+  }
+  return response.json();
+}
+
+export function useAgentProfiles() {
+  return useQuery({
+    queryKey: ["agent-profiles"],
+    queryFn: fetchAgentProfiles,
+    staleTime: 30000, // 30 seconds
+    refetchOnWindowFocus: false,
+  });
+}
@@ -1,8 +1,20 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
-import type { MessageOptions, MessageResponse, AIMessageData, ToolMessageData } from "@/types/message";
+import type {
+  AnsweringModel,
+  ConversationSummary,
+  MessageBranch,
+  MessageOptions,
+  MessageResponse,
+  AIMessageData,
+  ToolMessageData,
+  ToolApprovalRequest,
+  ToolReviewDecisions,
+} from "@/types/message";
 import type { StreamChunk } from "@/services/agentService";
-import { fetchMessageHistory } from "@/services/chatService";
+import { fetchMessageHistory, fetchParentCheckpoint } from "@/services/chatService";
+import { updateCachedThread } from "@/hooks/useThreads";
+import { useUISettings } from "@/contexts/UISettingsContext";
 
 interface UseChatThreadOptions {
   threadId: string | null;
@@ -14,9 +26,16 @@ export interface UseChatThreadReturn {
   isSending: boolean;
   historyError: Error | null;
   sendError: Error | null;
+  pendingApproval: ToolApprovalRequest | null;
+  summary: ConversationSummary | null;
+  branches: Record<string, MessageBranch>;
   sendMessage: (text: string, opts?: MessageOptions) => Promise<void>;
+  regenerateMessage: (messageId: string, opts?: MessageOptions) => Promise<void>;
+  editMessage: (messageId: string, text: string, opts?: MessageOptions) => Promise<void>;
+  selectBranch: (checkpointId: string) => Promise<unknown>;
   refetchMessages: () => Promise<unknown>;
-  approveToolExecution: (toolCallId: string, action: "allow" | "deny") => Promise<void>;
+  approveToolExecution: (decisions: ToolReviewDecisions) => Promise<void>;
+  stopStreaming: () => void;
 }
 
 interface ChatServiceConfig {
@@ -39,11 +58,25 @@ function getStreamUrl(): string {
 
 export function useChatThread({ threadId }: UseChatThreadOptions): UseChatThreadReturn {
   const queryClient = useQueryClient();
+  const { userName } = useUISettings();
   const abortControllerRef = useRef<AbortController | null>(null);
   const currentMessageIdRef = useRef<string | null>(null);
   const accumulatedContentRef = useRef<string>("");
+  const answeringModelRef = useRef<AnsweringModel | null>(null);
   const [sendError, setSendError] = useState<Error | null>(null);
   const [isSending, setIsSending] = useState(false);
+  // Tool calls the interrupted run is waiting on, from the history or an interrupt chunk
+  const [pendingApproval, setPendingApproval] = useState<ToolApprovalRequest | null>(null);
+  // Older messages the model only sees as a summary, from the history or a summary chunk
+  const [summary, setSummary] = useState<ConversationSummary | null>(null);
+  const [branches, setBranches] = useState<Record<string, MessageBranch>>({});
+  // Checkpoint of the branch being viewed, the latest one when unset. New messages
+  // continue from it.
+  const viewedBranchRef = useRef<{ threadId: string; checkpointId: string } | null>(null);
+  const getViewedCheckpoint = (threadId: string) =>
+    viewedBranchRef.current?.threadId === threadId
+      ? viewedBranchRef.current.checkpointId
+      : undefined;
 
   const {
     data: messages = [],
@@ -53,7 +86,23 @@ export function useChatThread({ threadId }: UseChatThreadOptions): UseChatThread
   } = useQuery<MessageResponse[]>({
     queryKey: ["messages", threadId],
     enabled: !!threadId,
-    queryFn: () => (threadId ? fetchMessageHistory(threadId) : Promise.resolve([])),
+    queryFn: async () => {
+      if (!threadId) return [];
+      const history = await fetchMessageHistory(threadId, getViewedCheckpoint(threadId));
+      setPendingApproval(history.interrupts[0] ?? null);
+      setSummary(history.summary ?? null);
+      setBranches(history.branches ?? {});
+      // The answering model isn't stored, keep what the stream reported
+      const previous = queryClient.getQueryData<MessageResponse[]>(["messages", threadId]) ?? [];
+      return history.messages.map((message) => {
+        const answeredBy = (
+          previous.find(({ data }) => data.id === message.data.id)?.data as
+            | AIMessageData
+            | undefined
+        )?.answeredBy;
+        return answeredBy ? { ...message, data: { ...message.data, answeredBy } } : message;
+      });
+    },
   });
 
   // Ensure we fetch once the threadId becomes available
@@ -83,6 +132,7 @@ export function useChatThread({ threadId }: UseChatThreadOptions): UseChatThread
               data: {
                 id: messageId,
                 content: accumulatedContentRef.current,
+                ...(answeringModelRef.current ? { answeredBy: answeringModelRef.current } : {}),
               } as AIMessageData,
             };
             queryClient.setQueryData(["messages", threadId], (old: MessageResponse[] = []) => [
@@ -166,13 +216,53 @@ export function useChatThread({ threadId }: UseChatThreadOptions): UseChatThread
           break;
         }
 
+        case "model": {
+          // Announces the model behind the next AI message. A new message id after a
+          // fallback starts a fresh message instead of appending to the failed attempt.
+          answeringModelRef.current = chunk.model || null;
+          if (currentMessageIdRef.current && currentMessageIdRef.current !== chunk.messageId) {
+            currentMessageIdRef.current = null;
+            accumulatedContentRef.current = "";
+          }
+          break;
+        }
+
+        case "summary": {
+          // Older messages were folded into the running summary before the model call
+          if (chunk.messageId) {
+            setSummary({ summary: chunk.summary ?? "", summarizedThroughId: chunk.messageId });
+          }
+          break;
+        }
+
+        case "interrupt": {
+          // The run paused for human review of the listed tool calls
+          if (chunk.interrupt) {
+            setPendingApproval(chunk.interrupt);
+          }
+          break;
+        }
+
         case "done": {
+          // The run's usage is recorded once the stream ends
+          void queryClient.invalidateQueries({ queryKey: ["thread-usage", threadId] });
+          // The run left the newest checkpoint; reload for the stored message ids and branches
+          viewedBranchRef.current = null;
+          void queryClient.invalidateQueries({ queryKey: ["messages", threadId] });
           setIsSending(false);
           currentMessageIdRef.current = null;
           accumulatedContentRef.current = "";
           break;
         }
 
+        case "title": {
+          // The server named the thread after its first answer
+          if (threadId && chunk.title) {
+            updateCachedThread(queryClient, threadId, { title: chunk.title });
+          }
+          break;
+        }
+
         case "error": {
           // Surface the error in the chat as a message
           const errorMsg: MessageResponse = {
@@ -206,6 +296,7 @@ export function useChatThread({ threadId }: UseChatThreadOptions): UseChatThread
 
       setIsSending(true);
       setSendError(null);
+      setPendingApproval(null);
 
       // Abort any existing stream
       if (abortControllerRef.current) {
@@ -220,20 +311,16 @@ export function useChatThread({ threadId }: UseChatThreadOptions): UseChatThread
       accumulatedContentRef.current = "";
 
       try {
-        // Build query params
-        const params = new URLSearchParams({ content: text, threadId });
-        if (opts?.model) params.set("model", opts.model);
-        if (opts?.provider) params.set("provider", opts.provider);
-        if (opts?.tools?.length) params.set("tools", opts.tools.join(","));
-        if (opts?.allowTool) params.set("allowTool", opts.allowTool);
-        if (opts?.approveAllTools !== undefined) {
-          params.set("approveAllTools", opts.approveAllTools ? "true" : "false");
-        }
-        if (opts?.attachments && opts.attachments.length > 0) {
-          params.set("attachments", JSON.stringify(opts.attachments));
-        }
-
-        const response = await fetch(`${getStreamUrl()}?${params}`, {
+        // Send the message and options as a JSON body (see api/agent/stream/schema.ts)
+        const response = await fetch(getStreamUrl(), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ...opts,
+            ...(userName.trim() ? { userName: userName.trim() } : {}),
+            content: text,
+            threadId,
+          }),
           signal: abortController.signal,
         });
 
@@ -300,7 +387,7 @@ export function useChatThread({ threadId }: UseChatThreadOptions): UseChatThread
         accumulatedContentRef.current = "";
       }
     },
-    [processStreamChunk],
+    [processStreamChunk, userName],
   );
 
   const sendMessage = useCallback(
@@ -324,25 +411,113 @@ export function useChatThread({ threadId }: UseChatThreadOptions): UseChatThread
       ]);
 
       // Handle the streaming response
-      await handleStreamResponse({ threadId, text, opts });
+      await handleStreamResponse({
+        threadId,
+        text,
+        opts: { checkpointId: getViewedCheckpoint(threadId), ...opts },
+      });
     },
     [threadId, queryClient, handleStreamResponse],
   );
 
+  /**
+   * Drops a message and everything after it from the view, ahead of a run that forks
+   * from the checkpoint before it.
+   */
+  const truncateBefore = useCallback(
+    (threadId: string, messageId: string) => {
+      queryClient.setQueryData(["messages", threadId], (old: MessageResponse[] = []) => {
+        const index = old.findIndex(({ data }) => data.id === messageId);
+        return index === -1 ? old : old.slice(0, index);
+      });
+    },
+    [queryClient],
+  );
+
+  // Checkpoint to regenerate or edit a message from, looked up on demand
+  const findParentCheckpoint = useCallback(
+    async (threadId: string, messageId: string) => {
+      if (!branches[messageId]?.replaceable) return null;
+      try {
+        return await fetchParentCheckpoint(threadId, messageId, getViewedCheckpoint(threadId));
+      } catch (err) {
+        setSendError(err as Error);
+        return null;
+      }
+    },
+    [branches],
+  );
+
+  const regenerateMessage = useCallback(
+    async (messageId: string, opts?: MessageOptions) => {
+      if (!threadId) return;
+      const checkpointId = await findParentCheckpoint(threadId, messageId);
+      if (!checkpointId) return;
+
+      truncateBefore(threadId, messageId);
+      await handleStreamResponse({
+        threadId,
+        opts: { ...opts, checkpointId, regenerate: true },
+      });
+    },
+    [threadId, findParentCheckpoint, truncateBefore, handleStreamResponse],
+  );
+
+  const editMessage = useCallback(
+    async (messageId: string, text: string, opts?: MessageOptions) => {
+      if (!threadId) return;
+      const checkpointId = await findParentCheckpoint(threadId, messageId);
+      if (!checkpointId) return;
+
+      truncateBefore(threadId, messageId);
+      const userMessage: MessageResponse = {
+        type: "human",
+        data: { id: `temp-${Date.now()}`, content: text },
+      };
+      queryClient.setQueryData(["messages", threadId], (old: MessageResponse[] = []) => [
+        ...old,
+        userMessage,
+      ]);
+      await handleStreamResponse({ threadId, text, opts: { ...opts, checkpointId } });
+    },
+    [threadId, findParentCheckpoint, queryClient, truncateBefore, handleStreamResponse],
+  );
+
+  // Shows another branch of the conversation, see MessageBranch
+  const selectBranch = useCallback(
+    (checkpointId: string) => {
+      if (!threadId) return Promise.resolve();
+      viewedBranchRef.current = { threadId, checkpointId };
+      return refetchMessagesQuery();
+    },
+    [threadId, refetchMessagesQuery],
+  );
+
   const approveToolExecution = useCallback(
-    async (_toolCallId: string, action: "allow" | "deny") => {
+    async (decisions: ToolReviewDecisions) => {
       if (!threadId) return;
 
-      // Handle the streaming response with allowTool parameter
+      // Resume the interrupted run with one decision per pending tool call
       await handleStreamResponse({
         threadId,
         text: "",
-        opts: { allowTool: action },
+        opts: { toolDecisions: decisions, checkpointId: getViewedCheckpoint(threadId) },
       });
     },
     [threadId, handleStreamResponse],
   );
 
+  // Closing the stream makes the server cancel the agent run
+  const stopStreaming = useCallback(() => {
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+      abortControllerRef.current = null;
+    }
+    setIsSending(false);
+    currentMessageIdRef.current = null;
+    accumulatedContentRef.current = "";
+  }, []);
+
   // Cleanup on unmount
   useEffect(
     () => () => {
@@ -359,8 +534,15 @@ export function useChatThread({ threadId }: UseChatThreadOptions): UseChatThread
     isSending,
     historyError: historyError as Error | null,
     sendError,
+    pendingApproval,
+    summary,
+    branches,
     sendMessage,
+    regenerateMessage,
+    editMessage,
+    selectBranch,
     refetchMessages: refetchMessagesQuery,
     approveToolExecution,
+    stopStreaming,
   };
 }
@@ -0,0 +1,39 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import type { MessageSearchResult } from "@/types/search";
+
+// Wait for the user to stop typing before querying the server
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+async function searchMessages(query: string): Promise<MessageSearchResult[]> {
+  const response = await fetch(`/api/agent/search?q=${encodeURIComponent(query)}`);
+  if (!response.ok) {
+    throw new Error("Failed to search messages");
+  }
+  const data = await response.json();
+  return data.results;
+}
+
+/**
+ * Messages of any thread matching a search query, with highlighted snippets. Queries
+ * shorter than two characters don't search.
+ */
+export function useMessageSearch(query: string) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [query]);
+
+  const enabled = debouncedQuery.length >= MIN_QUERY_LENGTH;
+  const result = useQuery({
+    queryKey: ["message-search", debouncedQuery],
+    queryFn: () => searchMessages(debouncedQuery),
+    enabled,
+    placeholderData: keepPreviousData,
+    refetchOnWindowFocus: false,
+  });
+  return { ...result, data: enabled ? result.data : undefined };
+}
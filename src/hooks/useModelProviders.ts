@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import { ModelProvider } from "@/types/model";
+
+async function fetchModelProviders(): Promise<ModelProvider[]> {
+  const response = await fetch("/api/model-providers");
+  if (!response.ok) {
+    throw new Error("Failed to fetch model providers");
+  }
+  return response.json();
+}
+
+export function useModelProviders() {
+  return useQuery({
+    queryKey: ["model-providers"],
+    queryFn: fetchModelProviders,
+    staleTime: 30000, // 30 seconds
+    refetchOnWindowFocus: false,
+  });
+}
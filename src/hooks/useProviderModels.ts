@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { ProviderModelsData } from "@/types/model";
+
+async function fetchProviderModels(provider: string): Promise<ProviderModelsData> {
+  const response = await fetch(`/api/models?provider=${encodeURIComponent(provider)}`);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || "Failed to fetch models");
+  }
+  return response.json();
+}
+
+/**
+ * Models offered by a provider that can list them (OpenAI-compatible endpoints and
+ * registered providers), see /api/models.
+ */
+export function useProviderModels(provider: string, enabled: boolean) {
+  return useQuery({
+    queryKey: ["provider-models", provider],
+    queryFn: () => fetchProviderModels(provider),
+    enabled,
+    staleTime: 60000, // 1 minute
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+}
@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import type { ThreadFolder } from "@/types/message";
+
+async function fetchThreadFolders(): Promise<ThreadFolder[]> {
+  const response = await fetch("/api/thread-folders");
+  if (!response.ok) {
+    throw new Error("Failed to fetch thread folders");
+  }
+  return response.json();
+}
+
+export function useThreadFolders() {
+  return useQuery({
+    queryKey: ["thread-folders"],
+    queryFn: fetchThreadFolders,
+    staleTime: 30000, // 30 seconds
+    refetchOnWindowFocus: false,
+  });
+}
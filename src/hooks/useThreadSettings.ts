@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import type { ThreadSettings } from "@/types/message";
+import { fetchThreadSettings } from "@/services/chatService";
+
+/**
+ * Agent settings stored for a thread. They are saved by the stream route whenever a
+ * message is sent, so this only needs to load them when a thread is opened.
+ */
+export function useThreadSettings(threadId: string | null) {
+  return useQuery<ThreadSettings>({
+    queryKey: ["thread-settings", threadId],
+    queryFn: () => fetchThreadSettings(threadId!),
+    enabled: !!threadId,
+    refetchOnWindowFocus: false,
+  });
+}
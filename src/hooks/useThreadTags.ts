@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchThreadTags } from "@/services/chatService";
+
+/**
+ * Tags in use across threads, most used first. useThreads invalidates it when threads
+ * are tagged or deleted.
+ */
+export function useThreadTags() {
+  return useQuery({
+    queryKey: ["thread-tags"],
+    queryFn: fetchThreadTags,
+    staleTime: 30000, // 30 seconds
+    refetchOnWindowFocus: false,
+  });
+}
@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import type { UsageReport } from "@/types/usage";
+
+async function fetchThreadUsage(threadId: string): Promise<UsageReport> {
+  const response = await fetch(`/api/usage?threadId=${encodeURIComponent(threadId)}`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch thread usage");
+  }
+  return response.json();
+}
+
+/**
+ * Tokens and cost a thread's runs spent so far. useChatThread invalidates it when a
+ * run reports usage.
+ */
+export function useThreadUsage(threadId: string | null) {
+  return useQuery({
+    queryKey: ["thread-usage", threadId],
+    queryFn: () => fetchThreadUsage(threadId!),
+    enabled: !!threadId,
+    refetchOnWindowFocus: false,
+  });
+}
@@ -1,48 +1,190 @@
-import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { useCallback } from "react";
-import type { Thread } from "@/types/message";
-import { fetchThreads, createNewThread, deleteThread } from "@/services/chatService";
+import {
+  keepPreviousData,
+  useInfiniteQuery,
+  useQueryClient,
+  type InfiniteData,
+  type QueryClient,
+} from "@tanstack/react-query";
+import { useCallback, useMemo } from "react";
+import type {
+  Thread,
+  ThreadBulkAction,
+  ThreadFilters,
+  ThreadPage,
+  ThreadSort,
+  ThreadUpdate,
+} from "@/types/message";
+import {
+  fetchThreads,
+  createNewThread,
+  deleteThread,
+  forkThread,
+  updateThread,
+  bulkUpdateThreads,
+} from "@/services/chatService";
 import { useThreadContext } from "@/contexts/ThreadContext";
 
+const THREADS_PAGE_SIZE = 50;
+
+export interface UseThreadsOptions extends ThreadFilters {
+  sort?: ThreadSort;
+  order?: "asc" | "desc";
+}
+
 export interface UseThreadsReturn {
-  threads: Thread[];
+  threads: Thread[]; // the pages loaded so far
+  totalThreads: number;
   activeThreadId: string | null;
   isLoadingThreads: boolean;
   threadError: Error | null;
+  hasMoreThreads: boolean;
+  isLoadingMoreThreads: boolean;
+  loadMoreThreads: () => Promise<unknown>;
   createThread: () => Promise<Thread>;
   deleteThread: (threadId: string) => Promise<void>;
+  forkThread: (threadId: string, messageId: string) => Promise<Thread>;
+  updateThread: (threadId: string, changes: ThreadUpdate) => Promise<Thread>;
+  bulkUpdateThreads: (bulk: ThreadBulkAction) => Promise<number>;
   switchThread: (threadId: string) => void;
   refetchThreads: () => Promise<unknown>;
 }
 
-export function useThreads(): UseThreadsReturn {
+type ThreadPages = InfiniteData<ThreadPage, string | undefined>;
+
+/**
+ * Applies a change to every cached thread listing, whatever its sort.
+ */
+function updateThreadPages(
+  old: ThreadPages | undefined,
+  update: (page: ThreadPage, index: number) => ThreadPage,
+): ThreadPages | undefined {
+  return old && { ...old, pages: old.pages.map(update) };
+}
+
+/**
+ * Whether a thread belongs in a listing with the given filters.
+ */
+function matchesFilters(thread: Thread, filters: ThreadFilters = {}): boolean {
+  if (thread.archived !== (filters.archived ?? false)) return false;
+  if (
+    filters.folderId &&
+    thread.folderId !== (filters.folderId === "none" ? null : filters.folderId)
+  ) {
+    return false;
+  }
+  if (filters.tag && !thread.tags.includes(filters.tag)) return false;
+  const q = filters.q?.toLowerCase();
+  return (
+    !q || (thread.title ?? "").toLowerCase().includes(q) || thread.id.toLowerCase().includes(q)
+  );
+}
+
+/**
+ * Updates a thread in every cached listing, e.g. when the server names it.
+ */
+export function updateCachedThread(
+  queryClient: QueryClient,
+  threadId: string,
+  changes: Partial<Thread>,
+): void {
+  queryClient.setQueriesData<ThreadPages>({ queryKey: ["threads"] }, (old) =>
+    updateThreadPages(old, (page) => ({
+      ...page,
+      threads: page.threads.map((thread) =>
+        thread.id === threadId ? { ...thread, ...changes } : thread,
+      ),
+    })),
+  );
+}
+
+export function useThreads({
+  sort = "updatedAt",
+  order = "desc",
+  archived = false,
+  folderId,
+  tag,
+  q,
+}: UseThreadsOptions = {}): UseThreadsReturn {
   const queryClient = useQueryClient();
   const { activeThreadId, setActiveThreadId } = useThreadContext();
 
   const {
-    data: threads = [],
+    data,
     isLoading: isLoadingThreads,
     error: threadError,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
     refetch: refetchThreadsQuery,
-  } = useQuery<Thread[]>({
-    queryKey: ["threads"],
-    queryFn: () => fetchThreads(),
+  } = useInfiniteQuery({
+    queryKey: ["threads", { sort, order, archived, folderId, tag, q }],
+    queryFn: ({ pageParam }) =>
+      fetchThreads({
+        cursor: pageParam,
+        limit: THREADS_PAGE_SIZE,
+        sort,
+        order,
+        archived,
+        folderId,
+        tag,
+        q,
+      }),
+    // Keep showing the previous listing while a changed filter loads
+    placeholderData: keepPreviousData,
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
   });
 
+  const threads = useMemo(() => data?.pages.flatMap((page) => page.threads) ?? [], [data]);
+
+  // New threads go on top of the first page, whatever the sort, so they are easy to find.
+  // Listings filtered to other folders, tags or the archive don't get them.
+  const prependThread = useCallback(
+    (thread: Thread) => {
+      queryClient.setQueriesData<ThreadPages>(
+        {
+          queryKey: ["threads"],
+          predicate: (query) => matchesFilters(thread, query.queryKey[1] as ThreadFilters),
+        },
+        (old) =>
+          updateThreadPages(old, (page, index) => ({
+            ...page,
+            threads: index === 0 ? [thread, ...page.threads] : page.threads,
+            total: page.total + 1,
+          })),
+      );
+    },
+    [queryClient],
+  );
+
+  // Pinning, archiving, tagging and filing move threads between listings and positions,
+  // so those are reloaded rather than patched
+  const invalidateListings = useCallback(async () => {
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: ["threads"] }),
+      queryClient.invalidateQueries({ queryKey: ["thread-tags"] }),
+      queryClient.invalidateQueries({ queryKey: ["thread-folders"] }),
+    ]);
+  }, [queryClient]);
+
   const createThread = useCallback(async () => {
     // Delegate to backend; optimistic append after create
     const created = await createNewThread();
-    queryClient.setQueryData(["threads"], (old: Thread[] = []) => [created, ...old]);
+    prependThread(created);
     setActiveThreadId(created.id);
     return created;
-  }, [queryClient, setActiveThreadId]);
+  }, [prependThread, setActiveThreadId]);
 
   const deleteThreadCallback = useCallback(
     async (threadId: string) => {
       await deleteThread(threadId);
       // Remove from cache optimistically
-      queryClient.setQueryData(["threads"], (old: Thread[] = []) =>
-        old.filter((thread) => thread.id !== threadId),
+      queryClient.setQueriesData<ThreadPages>({ queryKey: ["threads"] }, (old) =>
+        updateThreadPages(old, (page) => ({
+          ...page,
+          threads: page.threads.filter((thread) => thread.id !== threadId),
+          total: page.total - 1,
+        })),
       );
       // If we're deleting the active thread, clear the active thread
       if (activeThreadId === threadId) {
@@ -54,6 +196,45 @@ export function useThreads(): UseThreadsReturn {
     [queryClient, setActiveThreadId, activeThreadId],
   );
 
+  const forkThreadCallback = useCallback(
+    async (threadId: string, messageId: string) => {
+      const fork = await forkThread(threadId, messageId);
+      prependThread(fork);
+      setActiveThreadId(fork.id);
+      return fork;
+    },
+    [prependThread, setActiveThreadId],
+  );
+
+  const updateThreadCallback = useCallback(
+    async (threadId: string, changes: ThreadUpdate) => {
+      const updated = await updateThread(threadId, changes);
+      updateCachedThread(queryClient, threadId, updated);
+      if (Object.keys(changes).some((key) => key !== "title")) {
+        await invalidateListings();
+      }
+      return updated;
+    },
+    [queryClient, invalidateListings],
+  );
+
+  const bulkUpdateThreadsCallback = useCallback(
+    async (bulk: ThreadBulkAction) => {
+      const updated = await bulkUpdateThreads(bulk);
+      if (bulk.action === "delete") {
+        for (const threadId of bulk.ids) {
+          queryClient.removeQueries({ queryKey: ["messages", threadId] });
+        }
+        if (activeThreadId && bulk.ids.includes(activeThreadId)) {
+          setActiveThreadId(null);
+        }
+      }
+      await invalidateListings();
+      return updated;
+    },
+    [queryClient, invalidateListings, activeThreadId, setActiveThreadId],
+  );
+
   const switchThread = useCallback(
     (threadId: string) => {
       setActiveThreadId(threadId);
@@ -63,11 +244,18 @@ export function useThreads(): UseThreadsReturn {
 
   return {
     threads,
+    totalThreads: data?.pages[0]?.total ?? 0,
     activeThreadId,
     isLoadingThreads,
     threadError: threadError as Error | null,
+    hasMoreThreads: hasNextPage,
+    isLoadingMoreThreads: isFetchingNextPage,
+    loadMoreThreads: fetchNextPage,
     createThread,
     deleteThread: deleteThreadCallback,
+    forkThread: forkThreadCallback,
+    updateThread: updateThreadCallback,
+    bulkUpdateThreads: bulkUpdateThreadsCallback,
     switchThread,
     refetchThreads: refetchThreadsQuery,
   };
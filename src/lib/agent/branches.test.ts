@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildMessageBranches,
+  CheckpointLink,
+  CheckpointMessages,
+  findBranchTips,
+  findMessageCheckpoint,
+  findParentCheckpoint,
+  getCheckpointChain,
+} from "./branches";
+
+// Checkpoints of a thread where the answer "a1" was regenerated as "a1b" and the follow-up
+// question "h2" was then edited into "h2b", newest first
+const checkpoints: CheckpointMessages[] = [
+  { checkpointId: "cp-9", messageIds: ["h1", "a1b", "h2b", "a2b"] },
+  { checkpointId: "cp-8", messageIds: ["h1", "a1b", "h2b"] },
+  { checkpointId: "cp-7", messageIds: ["h1", "a1b", "h2", "a2"] },
+  { checkpointId: "cp-6", messageIds: ["h1", "a1b", "h2"] },
+  { checkpointId: "cp-5", messageIds: ["h1", "a1b"] },
+  { checkpointId: "cp-4", messageIds: ["h1", "a1"] },
+  { checkpointId: "cp-3", messageIds: ["h1"] },
+  { checkpointId: "cp-1", messageIds: [] },
+];
+
+// How those checkpoints were written: "a1b" was regenerated from cp-3 and "h2b" written
+// from cp-5
+const links: CheckpointLink[] = [
+  { checkpointId: "cp-9", parentCheckpointId: "cp-8" },
+  { checkpointId: "cp-8", parentCheckpointId: "cp-5" },
+  { checkpointId: "cp-7", parentCheckpointId: "cp-6" },
+  { checkpointId: "cp-6", parentCheckpointId: "cp-5" },
+  { checkpointId: "cp-5", parentCheckpointId: "cp-3" },
+  { checkpointId: "cp-4", parentCheckpointId: "cp-3" },
+  { checkpointId: "cp-3", parentCheckpointId: "cp-1" },
+  { checkpointId: "cp-1", parentCheckpointId: null },
+];
+
+const tips = checkpoints.filter(({ checkpointId }) =>
+  ["cp-9", "cp-7", "cp-4"].includes(checkpointId),
+);
+
+function countMessages(checkpointId: string) {
+  return Promise.resolve(
+    checkpoints.find((checkpoint) => checkpoint.checkpointId === checkpointId)!.messageIds.length,
+  );
+}
+
+describe("findBranchTips", () => {
+  it("should find the latest checkpoint of each branch", () => {
+    expect(findBranchTips(links)).toEqual(["cp-9", "cp-7", "cp-4"]);
+  });
+});
+
+describe("getCheckpointChain", () => {
+  it("should follow the parents back to the first checkpoint", () => {
+    expect(getCheckpointChain(links, "cp-9")).toEqual(["cp-9", "cp-8", "cp-5", "cp-3", "cp-1"]);
+    expect(getCheckpointChain(links, "cp-4")).toEqual(["cp-4", "cp-3", "cp-1"]);
+  });
+});
+
+describe("buildMessageBranches", () => {
+  it("should list the versions of regenerated and edited messages, oldest first", () => {
+    const branches = buildMessageBranches(tips, links, ["h1", "a1b", "h2b", "a2b"]);
+    expect(branches.h1).toEqual({ replaceable: true, checkpointIds: ["cp-9"], index: 0 });
+    expect(branches.a1b).toMatchObject({ checkpointIds: ["cp-4", "cp-9"], index: 1 });
+    expect(branches.h2b).toMatchObject({ checkpointIds: ["cp-7", "cp-9"], index: 1 });
+    expect(branches.a2b).toMatchObject({ checkpointIds: ["cp-9"], index: 0 });
+  });
+
+  it("should describe an older branch from its own messages", () => {
+    const branches = buildMessageBranches(tips, links, ["h1", "a1b", "h2", "a2"]);
+    expect(branches.h2).toMatchObject({ checkpointIds: ["cp-7", "cp-9"], index: 0 });
+    expect(branches.a2).toMatchObject({ checkpointIds: ["cp-7"] });
+
+    const original = buildMessageBranches(tips, links, ["h1", "a1"]);
+    expect(original.a1).toMatchObject({ checkpointIds: ["cp-4", "cp-9"], index: 0 });
+  });
+
+  it("should order versions by when they were written, not by their latest checkpoint", () => {
+    // The original answer's branch got a new turn after "a1b" was regenerated
+    const grown: CheckpointMessages[] = [
+      { checkpointId: "cp-9b", messageIds: ["h1", "a1", "h3", "a3"] },
+      ...tips.filter(({ checkpointId }) => checkpointId !== "cp-4"),
+    ];
+    const grownLinks: CheckpointLink[] = [
+      { checkpointId: "cp-9b", parentCheckpointId: "cp-9a" },
+      { checkpointId: "cp-9a", parentCheckpointId: "cp-4" },
+      ...links,
+    ];
+    const branches = buildMessageBranches(grown, grownLinks, ["h1", "a1", "h3", "a3"]);
+    expect(branches.a1).toMatchObject({ checkpointIds: ["cp-9b", "cp-9"], index: 0 });
+  });
+
+  it("should not offer to replace messages copied by a fork", () => {
+    const branches = buildMessageBranches(tips, links, ["h1", "a1b", "h2b", "a2b"], 2);
+    expect(branches.a1b.replaceable).toBe(false);
+    expect(branches.h2b.replaceable).toBe(true);
+  });
+});
+
+describe("findParentCheckpoint", () => {
+  it("should find the latest checkpoint before each message of the branch", async () => {
+    const chain = getCheckpointChain(links, "cp-9");
+    expect(await findParentCheckpoint(chain, 0, countMessages)).toBe("cp-1");
+    expect(await findParentCheckpoint(chain, 1, countMessages)).toBe("cp-3");
+    expect(await findParentCheckpoint(chain, 2, countMessages)).toBe("cp-5");
+    expect(await findParentCheckpoint(chain, 3, countMessages)).toBe("cp-8");
+  });
+
+  it("should return null when no checkpoint ends right before the message", async () => {
+    const chain = getCheckpointChain(links, "cp-9");
+    expect(await findParentCheckpoint(chain.slice(0, 3), 1, countMessages)).toBeNull();
+  });
+});
+
+describe("findMessageCheckpoint", () => {
+  it("should find the checkpoint ending at the message on its branch", async () => {
+    const chain = getCheckpointChain(links, "cp-9");
+    expect(await findMessageCheckpoint(chain, 1, countMessages)).toBe("cp-5");
+    expect(await findMessageCheckpoint(chain, 2, countMessages)).toBe("cp-8");
+    expect(await findMessageCheckpoint(chain, 3, countMessages)).toBe("cp-9");
+    expect(await findMessageCheckpoint(getCheckpointChain(links, "cp-7"), 2, countMessages)).toBe(
+      "cp-6",
+    );
+    expect(await findMessageCheckpoint(getCheckpointChain(links, "cp-4"), 1, countMessages)).toBe(
+      "cp-4",
+    );
+  });
+
+  it("should skip the input checkpoint of the next run", async () => {
+    // cp-2 holds "h2" as pending input
+    const counts: Record<string, number> = { "cp-3": 3, "cp-2": 2, "cp-1": 2, "cp-0": 1 };
+    const countWithInput = (checkpointId: string) => Promise.resolve(counts[checkpointId]);
+    const chain = ["cp-3", "cp-2", "cp-1", "cp-0"];
+    expect(await findMessageCheckpoint(chain, 1, countWithInput)).toBe("cp-1");
+  });
+
+  it("should return null when no checkpoint ends at the message", async () => {
+    const chain = getCheckpointChain(links, "cp-9");
+    expect(await findMessageCheckpoint(chain.slice(0, 2), 1, countMessages)).toBeNull();
+  });
+});
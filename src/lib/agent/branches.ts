@@ -0,0 +1,175 @@
+import type { MessageBranch } from "@/types/message";
+
+/** The ids of the messages a checkpoint holds */
+export interface CheckpointMessages {
+  checkpointId: string;
+  messageIds: string[];
+}
+
+/** A checkpoint and the one it was written after, read without its channel values */
+export interface CheckpointLink {
+  checkpointId: string;
+  parentCheckpointId: string | null;
+}
+
+/** Length of the run of ids both lists start with */
+function commonPrefixLength(a: string[], b: string[]): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+}
+
+/**
+ * Finds the latest checkpoint of every branch: the checkpoints no other checkpoint was
+ * written after.
+ * @param links Every checkpoint of the thread, newest first
+ * @returns The checkpoint ids, newest first
+ */
+export function findBranchTips(links: CheckpointLink[]): string[] {
+  const parents = new Set(links.map(({ parentCheckpointId }) => parentCheckpointId));
+  return links
+    .map(({ checkpointId }) => checkpointId)
+    .filter((checkpointId) => !parents.has(checkpointId));
+}
+
+/**
+ * Follows the parent links from a checkpoint back to the first checkpoint of the thread.
+ * @param links Every checkpoint of the thread
+ * @returns The checkpoint and its ancestors, newest first
+ */
+export function getCheckpointChain(links: CheckpointLink[], checkpointId: string): string[] {
+  const parents = new Map(links.map((link) => [link.checkpointId, link.parentCheckpointId]));
+  const chain = new Set<string>();
+  for (let id: string | null = checkpointId; id && !chain.has(id); id = parents.get(id) ?? null) {
+    chain.add(id);
+  }
+  return [...chain];
+}
+
+/**
+ * Works out, for each message of a conversation, the alternative versions of it that
+ * regenerating or editing left on other branches. Versions are told apart by the
+ * messages that precede them: two branches hold versions of the same message when
+ * everything before it is identical. Only the latest checkpoint of each branch has to be
+ * read, and the parent links order the versions by when they were written.
+ * @param tips The latest checkpoint of every branch, newest first, see findBranchTips
+ * @param links Every checkpoint of the thread, newest first
+ * @param messageIds The conversation shown, oldest message first
+ * @param firstReplaceable Position of the first message a checkpoint precedes; the
+ * messages before it were copied into the thread's first checkpoint by a fork
+ */
+export function buildMessageBranches(
+  tips: CheckpointMessages[],
+  links: CheckpointLink[],
+  messageIds: string[],
+  firstReplaceable = 0,
+): Record<string, MessageBranch> {
+  const shared = tips.map(({ messageIds: ids }) => commonPrefixLength(ids, messageIds));
+  const chains = new Map<string, string[]>();
+  const chainOf = (checkpointId: string) => {
+    if (!chains.has(checkpointId)) {
+      chains.set(checkpointId, getCheckpointChain(links, checkpointId));
+    }
+    return chains.get(checkpointId)!;
+  };
+
+  const branches: Record<string, MessageBranch> = {};
+  messageIds.forEach((messageId, position) => {
+    // Tips of each version, newest first
+    const versions = new Map<string, string[]>();
+    tips.forEach(({ checkpointId, messageIds: ids }, index) => {
+      if (shared[index] < position || ids.length <= position) return;
+      versions.set(ids[position], [...(versions.get(ids[position]) ?? []), checkpointId]);
+    });
+
+    // Oldest version first, so the order doesn't change as branches grow. A version was
+    // written at the oldest checkpoint only its own branches go through.
+    const firstCheckpoint = (versionTips: string[]) => {
+      const others = new Set(
+        [...versions.values()]
+          .filter((otherTips) => otherTips !== versionTips)
+          .flatMap((otherTips) => otherTips.flatMap(chainOf)),
+      );
+      const own = versionTips.flatMap(chainOf).filter((id) => !others.has(id));
+      return own.reduce((oldest, id) => (id < oldest ? id : oldest), own[0] ?? "");
+    };
+    const ordered = [...versions.entries()];
+    if (ordered.length > 1) {
+      const ages = new Map(ordered.map(([id, versionTips]) => [id, firstCheckpoint(versionTips)]));
+      ordered.sort(([a], [b]) => ages.get(a)!.localeCompare(ages.get(b)!));
+    }
+
+    branches[messageId] = {
+      replaceable: position >= firstReplaceable,
+      checkpointIds: ordered.map(([, versionTips]) => versionTips[0]),
+      index: Math.max(
+        0,
+        ordered.findIndex(([id]) => id === messageId),
+      ),
+    };
+  });
+  return branches;
+}
+
+/**
+ * Finds the checkpoint right before a message of a conversation: the latest one of its
+ * branch holding exactly the messages before it. Messages only ever get appended along a
+ * branch, so the message count falls monotonically going back and a binary search reads
+ * a handful of checkpoints.
+ * @param chain The checkpoint shown and its ancestors, newest first, see getCheckpointChain
+ * @param position Position of the message in the conversation shown
+ * @param countMessages Reads the number of messages a checkpoint holds
+ * @returns The checkpoint, or null when no checkpoint ends right before the message
+ */
+export async function findParentCheckpoint(
+  chain: string[],
+  position: number,
+  countMessages: (checkpointId: string) => Promise<number>,
+): Promise<string | null> {
+  let low = 0;
+  let high = chain.length;
+  let count: number | null = null;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    const middleCount = await countMessages(chain[middle]);
+    if (middleCount <= position) {
+      high = middle;
+      count = middleCount;
+    } else {
+      low = middle + 1;
+    }
+  }
+  return low < chain.length && count === position ? chain[low] : null;
+}
+
+/**
+ * Finds the checkpoint a conversation ends at a message: the oldest one of its branch
+ * holding exactly the messages up to it. Later checkpoints ending at the same message
+ * already carry the input of the next run. Like findParentCheckpoint, a binary search
+ * reads a handful of checkpoints.
+ * @param chain A checkpoint of the branch holding the message and its ancestors, newest
+ * first, see getCheckpointChain
+ * @param position Position of the message in the conversation of the branch
+ * @param countMessages Reads the number of messages a checkpoint holds
+ * @returns The checkpoint, or null when no checkpoint ends at the message
+ */
+export async function findMessageCheckpoint(
+  chain: string[],
+  position: number,
+  countMessages: (checkpointId: string) => Promise<number>,
+): Promise<string | null> {
+  let low = 0;
+  let high = chain.length;
+  let count: number | null = null;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    const middleCount = await countMessages(chain[middle]);
+    if (middleCount > position) {
+      low = middle + 1;
+      count = middleCount;
+    } else {
+      high = middle;
+    }
+  }
+  return low > 0 && count === position + 1 ? chain[low - 1] : null;
+}
@@ -1,4 +1,5 @@
 import {
+  Annotation,
   StateGraph,
   MessagesAnnotation,
   END,
@@ -6,46 +7,112 @@ import {
   BaseCheckpointSaver,
   interrupt,
   Command,
+  LangGraphRunnableConfig,
 } from "@langchain/langgraph";
 import { ToolNode } from "@langchain/langgraph/prebuilt";
-import { BaseChatModel } from "@langchain/core/language_models/chat_models";
-import { SystemMessage, ToolMessage, ContentBlock } from "@langchain/core/messages";
+import {
+  AIMessage,
+  BaseMessage,
+  ContentBlock,
+  HumanMessage,
+  SystemMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
 import { ToolCall } from "@langchain/core/messages/tool";
 import { DynamicTool } from "@langchain/core/tools";
+import type { ToolApprovalRequest, ToolReviewDecisions } from "@/types/message";
+import type { TokenUsage } from "@/types/usage";
+import { ToolApprovalPolicy } from "@/types/mcp";
+import { invokeWithFallbacks, ModelCandidate } from "./fallback";
+import { RetryPolicy } from "./util";
+import { renderPromptTemplate } from "./prompt";
+import {
+  buildSummaryRequest,
+  estimateTokens,
+  findSummaryCutoff,
+  getSummaryThreshold,
+  SUMMARY_PROMPT,
+} from "./summary";
+
+/**
+ * Graph state: the full message history, kept for display, plus a running summary of
+ * the older messages that the model sees instead of them.
+ */
+export const AgentState = Annotation.Root({
+  ...MessagesAnnotation.spec,
+  summary: Annotation<string | undefined>,
+  summarizedThroughId: Annotation<string | undefined>, // last message covered by the summary
+});
+
+type AgentStateType = typeof AgentState.State;
 
 export class AgentBuilder {
   private toolNode: ToolNode;
-  private readonly model: BaseChatModel;
+  private readonly models: ModelCandidate[];
+  private readonly retryPolicy?: Partial<RetryPolicy>;
   private tools: DynamicTool[];
   private systemPrompt: string = "";
   private approveAllTools: boolean = false;
+  private toolPolicies: Record<string, ToolApprovalPolicy> | null = {};
+  private defaultToolPolicy?: ToolApprovalPolicy;
   private checkpointer?: BaseCheckpointSaver;
+  private readonly summaryThreshold: number;
 
   constructor({
     tools,
-    llm,
+    models,
+    retryPolicy,
     prompt,
     checkpointer,
     approveAllTools,
+    toolPolicies,
+    defaultToolPolicy,
   }: {
     tools: DynamicTool[];
-    llm: BaseChatModel;
+    models: ModelCandidate[]; // primary model first, then its fallbacks
+    retryPolicy?: Partial<RetryPolicy>;
     prompt: string;
     checkpointer?: BaseCheckpointSaver;
     approveAllTools?: boolean;
+    toolPolicies?: Record<string, ToolApprovalPolicy> | null; // null when they couldn't be read
+    defaultToolPolicy?: ToolApprovalPolicy; // e.g. from the thread's agent profile
   }) {
-    if (!llm) {
+    if (!models?.length) {
       throw new Error("Language model (llm) is required");
     }
     this.tools = tools || [];
     this.toolNode = new ToolNode(tools || []);
     this.systemPrompt = prompt;
-    this.model = llm;
+    this.models = models;
+    this.retryPolicy = retryPolicy;
     this.checkpointer = checkpointer;
     this.approveAllTools = approveAllTools || false;
+    this.toolPolicies = toolPolicies === null ? null : toolPolicies || {};
+    this.defaultToolPolicy = defaultToolPolicy;
+    this.summaryThreshold = getSummaryThreshold(models);
   }
 
-  private shouldApproveTool(state: typeof MessagesAnnotation.State) {
+  /**
+   * Resolves the approval policy for a tool. Explicit policies win over the default
+   * policy of the profile, which wins over the per-request approveAllTools flag; tools
+   * without either follow the flag. When the stored policies couldn't be read, every
+   * tool asks, since any of them may be denied.
+   */
+  private resolveToolPolicy(toolName: string): ToolApprovalPolicy {
+    if (!this.toolPolicies) {
+      return ToolApprovalPolicy.always_ask;
+    }
+    const policy = this.toolPolicies[toolName];
+    if (policy) {
+      return policy;
+    }
+    if (this.defaultToolPolicy) {
+      return this.defaultToolPolicy;
+    }
+    return this.approveAllTools ? ToolApprovalPolicy.always_allow : ToolApprovalPolicy.always_ask;
+  }
+
+  private shouldApproveTool(state: AgentStateType) {
     const { messages } = state;
     const lastMessage = messages[messages.length - 1];
     if (
@@ -58,10 +125,7 @@ export class AgentBuilder {
     return END;
   }
 
-  private async approveToolCall(state: typeof MessagesAnnotation.State) {
-    if (this.approveAllTools) {
-      return new Command({ goto: "tools" });
-    }
+  private async approveToolCall(state: AgentStateType) {
     const { messages } = state;
     const lastMessage = messages[messages.length - 1];
     if (
@@ -69,82 +133,224 @@ export class AgentBuilder {
       Array.isArray(lastMessage.tool_calls) &&
       lastMessage.tool_calls?.length
     ) {
-      const toolCall = lastMessage.tool_calls![lastMessage.tool_calls!.length - 1];
-
-      const humanReview = interrupt<
-        {
-          question: string;
-          toolCall: ToolCall;
-        },
-        {
-          action: string;
-          data: string | ContentBlock[];
+      const toolCalls = lastMessage.tool_calls as ToolCall[];
+
+      // Apply stored policies first; only the remaining calls need a human.
+      const reviews: ToolReviewDecisions = {};
+      const callsToReview: ToolCall[] = [];
+      for (const toolCall of toolCalls) {
+        const policy = this.resolveToolPolicy(toolCall.name);
+        if (policy === ToolApprovalPolicy.always_allow) {
+          reviews[toolCall.id!] = { action: "continue" };
+        } else if (policy === ToolApprovalPolicy.always_deny) {
+          reviews[toolCall.id!] = {
+            action: "feedback",
+            data: `The tool ${toolCall.name} is blocked by the approval policy.`,
+          };
+        } else {
+          callsToReview.push(toolCall);
         }
-      >({
-        question: "Is this correct?",
-        toolCall: toolCall,
-      });
-      const reviewAction = humanReview.action;
-      const reviewData = humanReview.data;
-      if (reviewAction === "continue") {
-        return new Command({ goto: "tools" });
-      } else if (reviewAction === "update") {
-        const updatedMessage = {
+      }
+
+      if (callsToReview.length) {
+        // A single interrupt covers every tool call of the turn so parallel calls cannot
+        // slip through without review.
+        const humanReviews = interrupt<ToolApprovalRequest, ToolReviewDecisions>({
+          question: "Do you approve these tool calls?",
+          toolCalls: callsToReview as ToolApprovalRequest["toolCalls"],
+        });
+        for (const toolCall of callsToReview) {
+          reviews[toolCall.id!] = humanReviews?.[toolCall.id!];
+        }
+      }
+
+      const reviewedToolCalls: ToolCall[] = [];
+      const feedbackMessages: ToolMessage[] = [];
+      let hasApprovedCalls = false;
+      let hasUpdatedCalls = false;
+
+      for (const toolCall of toolCalls) {
+        const review = toolCall.id ? reviews[toolCall.id] : undefined;
+        if (review?.action === "continue") {
+          hasApprovedCalls = true;
+          reviewedToolCalls.push(toolCall);
+        } else if (review?.action === "update") {
+          hasApprovedCalls = true;
+          hasUpdatedCalls = true;
+          reviewedToolCalls.push({
+            ...toolCall,
+            args: (review.data ?? {}) as Record<string, unknown>,
+          });
+        } else if (review?.action === "feedback") {
+          reviewedToolCalls.push(toolCall);
+          feedbackMessages.push(
+            new ToolMessage({
+              name: toolCall.name,
+              content:
+                (review.data as string | ContentBlock[]) || "The user denied this tool call.",
+              tool_call_id: toolCall.id!,
+            }),
+          );
+        } else {
+          throw new Error(`Invalid review action for tool call ${toolCall.id ?? toolCall.name}`);
+        }
+      }
+
+      const update: unknown[] = [];
+      if (hasUpdatedCalls) {
+        update.push({
           role: "ai",
           content: lastMessage.content,
-          tool_calls: [
-            {
-              id: toolCall.id,
-              name: toolCall.name,
-              args: reviewData,
-            },
-          ],
+          tool_calls: reviewedToolCalls,
           id: lastMessage.id,
-        };
-        return new Command({
-          goto: "tools",
-          update: { messages: [updatedMessage] },
-        });
-      } else if (reviewAction === "feedback") {
-        const toolMessage = new ToolMessage({
-          name: toolCall.name,
-          content: reviewData,
-          tool_call_id: toolCall.id,
-        });
-        return new Command({
-          goto: "agent",
-          update: { messages: [toolMessage] },
         });
       }
-      throw new Error("Invalid review action");
+      // Denied calls are answered with a ToolMessage so the ToolNode skips them.
+      update.push(...feedbackMessages);
+
+      // Without calls to run the model answers the feedback, past the summary threshold
+      // like after the tools node
+      return new Command({
+        goto: hasApprovedCalls
+          ? "tools"
+          : this.routeToModel({ ...state, messages: [...messages, ...feedbackMessages] }),
+        update: update.length ? { messages: update } : undefined,
+      });
     }
   }
 
-  private async callModel(state: typeof MessagesAnnotation.State) {
-    if (!this.model || !this.model.bindTools) {
+  /**
+   * Renders the system prompt template for a model call, so values such as the date are
+   * current on every call rather than when the server started.
+   */
+  private renderSystemPrompt(config?: LangGraphRunnableConfig): string {
+    const configurable = config?.configurable ?? {};
+    return renderPromptTemplate(this.systemPrompt, {
+      date: new Date().toISOString().split("T")[0],
+      user_name: configurable.user_name,
+      thread_title: configurable.thread_title,
+      available_tools: this.tools.map((tool) => tool.name).join(", ") || "none",
+    });
+  }
+
+  /**
+   * Writes the tokens a model call spent to the custom stream, where the stream route
+   * picks them up. Failed attempts of the fallback chain don't report anything.
+   */
+  private reportUsage(
+    config: LangGraphRunnableConfig | undefined,
+    candidate: ModelCandidate,
+    response: AIMessage,
+  ) {
+    const usage = response.usage_metadata;
+    if (!usage || !config?.writer) return;
+    const tokenUsage: TokenUsage = {
+      provider: candidate.provider,
+      model: candidate.model,
+      inputTokens: usage.input_tokens,
+      outputTokens: usage.output_tokens,
+      totalTokens: usage.total_tokens,
+    };
+    config.writer({ usage: tokenUsage, messageId: response.id });
+  }
+
+  /**
+   * Messages the model sees in full: those after the last one the summary covers.
+   */
+  private unsummarizedMessages(state: AgentStateType): BaseMessage[] {
+    if (!state.summarizedThroughId) return state.messages;
+    const index = state.messages.findIndex(({ id }) => id === state.summarizedThroughId);
+    return state.messages.slice(index + 1);
+  }
+
+  /**
+   * Routes model calls through the summarize node once the conversation the model would
+   * see passes the summary threshold.
+   */
+  private routeToModel(state: AgentStateType) {
+    const tokens = estimateTokens(this.unsummarizedMessages(state), state.summary);
+    return tokens > this.summaryThreshold ? "summarize" : "agent";
+  }
+
+  /**
+   * Folds the older turns into the running summary, leaving about half the threshold of
+   * recent messages. The messages themselves stay in the state.
+   */
+  private async summarize(state: AgentStateType, config?: LangGraphRunnableConfig) {
+    const messages = this.unsummarizedMessages(state);
+    const cutoff = findSummaryCutoff(messages, this.summaryThreshold / 2);
+    if (cutoff === 0) {
+      return {};
+    }
+    const summarized = messages.slice(0, cutoff);
+    const request = [
+      new SystemMessage(SUMMARY_PROMPT),
+      new HumanMessage(buildSummaryRequest(state.summary, summarized)),
+    ];
+    const response = await invokeWithFallbacks(
+      this.models,
+      async (candidate) => {
+        // Kept out of the token stream, the client only sees the agent's answer
+        const response = await candidate.llm.withConfig({ tags: ["nostream"] }).invoke(request);
+        this.reportUsage(config, candidate, response);
+        return response;
+      },
+      { retry: this.retryPolicy, signal: config?.signal },
+    );
+    return {
+      summary: response.text.trim(),
+      summarizedThroughId: summarized[summarized.length - 1].id,
+    };
+  }
+
+  private async callModel(state: AgentStateType, config?: LangGraphRunnableConfig) {
+    if (this.models.some(({ llm }) => !llm?.bindTools)) {
       throw new Error("Invalid or missing language model (llm)");
     }
+    // The summary joins the system prompt, some providers reject a second system message
+    const systemPrompt = state.summary
+      ? `${this.renderSystemPrompt(config)}\n\nSummary of the earlier conversation:\n${state.summary}`
+      : this.renderSystemPrompt(config);
     const messages = [
       // Add always system prompt so it is not duplicated in the messages
-      new SystemMessage(this.systemPrompt),
-      ...state.messages,
+      new SystemMessage(systemPrompt),
+      ...this.unsummarizedMessages(state),
     ];
-    const modelInvoker = this.model.bindTools(this.tools);
-    const response = await modelInvoker.invoke(messages);
+    const response = await invokeWithFallbacks(
+      this.models,
+      async (candidate, index) => {
+        const response = await candidate.llm.bindTools!(this.tools)
+          // Tags the streamed chunks so the client learns which model answered
+          .withConfig({
+            metadata: {
+              agent_provider: candidate.provider,
+              agent_model: candidate.model,
+              agent_fallback: index > 0,
+            },
+          })
+          .invoke(messages);
+        this.reportUsage(config, candidate, response);
+        return response;
+      },
+      { retry: this.retryPolicy, signal: config?.signal },
+    );
     return { messages: response };
   }
 
   build() {
-    const stateGraph = new StateGraph(MessagesAnnotation);
+    const stateGraph = new StateGraph(AgentState);
+    const routeToModel = this.routeToModel.bind(this);
     stateGraph
       .addNode("agent", this.callModel.bind(this))
+      .addNode("summarize", this.summarize.bind(this))
       .addNode("tools", this.toolNode)
       .addNode("tool_approval", this.approveToolCall.bind(this), {
-        ends: ["tools", "agent"],
+        ends: ["tools", "summarize", "agent"],
       })
-      .addEdge(START, "agent")
+      .addConditionalEdges(START, routeToModel, ["summarize", "agent"])
+      .addEdge("summarize", "agent")
       .addConditionalEdges("agent", this.shouldApproveTool.bind(this), ["tool_approval", END])
-      .addEdge("tools", "agent");
+      .addConditionalEdges("tools", routeToModel, ["summarize", "agent"]);
 
     const compiledGraph = stateGraph.compile({ checkpointer: this.checkpointer });
     return compiledGraph;
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { getBackoffDelay, invokeWithFallbacks, isRetryableModelError } from "./fallback";
+
+function statusError(status: number) {
+  return Object.assign(new Error(`Request failed with status ${status}`), { status });
+}
+
+const candidates = [
+  { provider: "deepseek", model: "deepseek-chat" },
+  { provider: "openai", model: "gpt-4o-mini" },
+  { provider: "google", model: "gemini-3-flash-preview" },
+];
+
+// No waiting between retries in tests
+const retry = { maxAttempts: 2, initialDelayMs: 0, maxDelayMs: 0 };
+
+describe("isRetryableModelError", () => {
+  it("should retry rate limits, timeouts and server errors", () => {
+    expect(isRetryableModelError(statusError(429))).toBe(true);
+    expect(isRetryableModelError(statusError(408))).toBe(true);
+    expect(isRetryableModelError(statusError(503))).toBe(true);
+    expect(isRetryableModelError({ response: { status: 502 } })).toBe(true);
+  });
+
+  it("should retry network failures", () => {
+    expect(isRetryableModelError(Object.assign(new Error("reset"), { code: "ECONNRESET" }))).toBe(
+      true,
+    );
+    const connectionError = new Error("Connection error.");
+    connectionError.name = "APIConnectionError";
+    expect(isRetryableModelError(connectionError)).toBe(true);
+  });
+
+  it("should not retry client errors", () => {
+    expect(isRetryableModelError(statusError(400))).toBe(false);
+    expect(isRetryableModelError(statusError(401))).toBe(false);
+    expect(isRetryableModelError(new Error("Invalid tool schema"))).toBe(false);
+  });
+});
+
+describe("getBackoffDelay", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should double the delay on every retry up to the maximum", () => {
+    vi.spyOn(Math, "random").mockReturnValue(1);
+    const policy = { maxAttempts: 5, initialDelayMs: 1000, maxDelayMs: 3000 };
+    expect(getBackoffDelay(policy, 1)).toBe(1000);
+    expect(getBackoffDelay(policy, 2)).toBe(2000);
+    expect(getBackoffDelay(policy, 3)).toBe(3000);
+  });
+
+  it("should apply jitter of up to half the delay", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(getBackoffDelay({ maxAttempts: 3, initialDelayMs: 1000, maxDelayMs: 8000 }, 2)).toBe(
+      1000,
+    );
+  });
+});
+
+describe("invokeWithFallbacks", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should return the primary model's answer", async () => {
+    const invoke = vi.fn(async (candidate: { model: string }) => candidate.model);
+    await expect(invokeWithFallbacks(candidates, invoke, { retry })).resolves.toBe("deepseek-chat");
+    expect(invoke).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry a transient error on the same model", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const invoke = vi
+      .fn()
+      .mockRejectedValueOnce(statusError(429))
+      .mockImplementation(async (candidate: { model: string }) => candidate.model);
+    await expect(invokeWithFallbacks(candidates, invoke, { retry })).resolves.toBe("deepseek-chat");
+    expect(invoke).toHaveBeenCalledTimes(2);
+  });
+
+  it("should fall back in order once a model exhausts its attempts", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const invoke = vi.fn(async (candidate: { model: string }, index: number) => {
+      if (index < 2) throw statusError(503);
+      return candidate.model;
+    });
+    await expect(invokeWithFallbacks(candidates, invoke, { retry })).resolves.toBe(
+      "gemini-3-flash-preview",
+    );
+    expect(invoke.mock.calls.map(([, index]) => index)).toEqual([0, 0, 1, 1, 2]);
+  });
+
+  it("should throw the last error when every model fails", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const invoke = vi.fn(async () => {
+      throw statusError(500);
+    });
+    await expect(invokeWithFallbacks(candidates, invoke, { retry })).rejects.toMatchObject({
+      status: 500,
+    });
+    expect(invoke).toHaveBeenCalledTimes(6);
+  });
+
+  it("should throw non-retryable errors without falling back", async () => {
+    const invoke = vi.fn(async () => {
+      throw statusError(401);
+    });
+    await expect(invokeWithFallbacks(candidates, invoke, { retry })).rejects.toMatchObject({
+      status: 401,
+    });
+    expect(invoke).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop when the run is aborted", async () => {
+    const controller = new AbortController();
+    const invoke = vi.fn(async () => {
+      controller.abort();
+      throw statusError(503);
+    });
+    await expect(
+      invokeWithFallbacks(candidates, invoke, { retry, signal: controller.signal }),
+    ).rejects.toMatchObject({ status: 503 });
+    expect(invoke).toHaveBeenCalledTimes(1);
+  });
+});
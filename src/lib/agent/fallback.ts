@@ -0,0 +1,119 @@
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { DEFAULT_RETRY_POLICY, ModelRef, RetryPolicy } from "./util";
+
+/** A model of the fallback chain, ready to be invoked */
+export interface ModelCandidate extends ModelRef {
+  llm: BaseChatModel;
+}
+
+// Error names/codes of requests that never reached the provider or timed out
+const NETWORK_ERROR_NAMES = ["APIConnectionError", "APIConnectionTimeoutError", "TimeoutError"];
+const NETWORK_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+];
+
+/**
+ * Reads the HTTP status from the errors thrown by the OpenAI, Anthropic and Google clients.
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  if (!error || typeof error !== "object") return undefined;
+  const err = error as { status?: unknown; statusCode?: unknown; response?: { status?: unknown } };
+  const status = err.status ?? err.statusCode ?? err.response?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+/**
+ * Whether a model call failed transiently: rate limited (429), timed out (408), a server
+ * error (5xx) or a network failure. Other errors (bad request, auth) fail the same way on
+ * every retry.
+ */
+export function isRetryableModelError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  if (!error || typeof error !== "object") return false;
+  const err = error as { name?: string; code?: string; cause?: { code?: string } };
+  return (
+    NETWORK_ERROR_NAMES.includes(err.name ?? "") ||
+    NETWORK_ERROR_CODES.includes(err.code ?? err.cause?.code ?? "")
+  );
+}
+
+/**
+ * Exponential backoff with jitter: the delay before retry `attempt` (1-based) is drawn
+ * between half and all of initialDelayMs * 2^(attempt - 1), capped at maxDelayMs.
+ */
+export function getBackoffDelay(policy: RetryPolicy, attempt: number): number {
+  const delay = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** (attempt - 1));
+  return Math.round(delay / 2 + (Math.random() * delay) / 2);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true },
+    );
+  });
+}
+
+/**
+ * Calls `invoke` for each candidate in order until one succeeds. Transient errors are
+ * retried on the same candidate according to the retry policy before moving on to the
+ * next one; any other error, or an aborted run, is thrown right away.
+ * @param candidates Models to try, primary first
+ * @param invoke Performs the call with a candidate and its index in the chain
+ * @returns The result of the first successful call
+ */
+export async function invokeWithFallbacks<C extends ModelRef, T>(
+  candidates: C[],
+  invoke: (candidate: C, index: number) => Promise<T>,
+  options?: { retry?: Partial<RetryPolicy>; signal?: AbortSignal },
+): Promise<T> {
+  if (!candidates.length) {
+    throw new Error("No language model configured");
+  }
+  const policy = { ...DEFAULT_RETRY_POLICY, ...options?.retry };
+  const maxAttempts = Math.max(1, policy.maxAttempts);
+  let lastError: unknown;
+
+  for (const [index, candidate] of candidates.entries()) {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        return await invoke(candidate, index);
+      } catch (error) {
+        if (options?.signal?.aborted || !isRetryableModelError(error)) {
+          throw error;
+        }
+        lastError = error;
+        const label = `${candidate.provider}/${candidate.model}`;
+        if (attempt < maxAttempts) {
+          const delay = getBackoffDelay(policy, attempt);
+          console.warn(
+            `Model ${label} failed (attempt ${attempt}), retrying in ${delay}ms:`,
+            error,
+          );
+          await sleep(delay, options?.signal);
+        } else if (index < candidates.length - 1) {
+          console.warn(`Model ${label} failed ${attempt} times, falling back:`, error);
+        }
+      }
+    }
+  }
+
+  throw lastError;
+}
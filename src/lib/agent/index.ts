@@ -1,33 +1,51 @@
 import { DEFAULT_SYSTEM_PROMPT as SYSTEM_PROMPT } from "./prompt";
-import { getPostgresCheckpointer } from "./memory";
+import { getPostgresCheckpointer, setupCheckpointer } from "./memory";
 import type { DynamicTool, StructuredToolInterface } from "@langchain/core/tools";
 import {
   AgentConfigOptions,
-  createChatModel,
   DEFAULT_MODEL_NAME,
   DEFAULT_MODEL_PROVIDER,
+  ModelRef,
+  parseModelRefs,
 } from "./util";
-import { getMCPTools } from "./mcp";
+import { resolveChatModel } from "./providers";
+import { ModelCandidate } from "./fallback";
+import type { GenerationParams } from "@/types/model";
+import { getMCPTools, getToolPolicies } from "./mcp";
 import { AgentBuilder } from "./builder";
 
-let setupPromise: Promise<void> | null = null;
-
 /**
- * One-time initialization for the Postgres checkpointer.
- * Ensures the underlying table/extension are ready before any agent runs.
- * This is called automatically when creating an agent via `getAgent` or `ensureAgent`.
+ * Resolve the primary model and its fallback chain. A fallback that can't be created
+ * (e.g. its API key is missing) is skipped so it can't break the primary model.
  */
-async function setupOnce() {
-  if (!setupPromise) {
-    const checkpointer = getPostgresCheckpointer();
-    setupPromise = checkpointer.setup().catch((err) => {
-      // Reset so a future call can retry if initial setup failed.
-      setupPromise = null;
-      console.error("Failed to setup postgres checkpointer:", err);
-      throw err;
-    });
-  }
-  await setupPromise;
+async function resolveModelChain(
+  primary: ModelRef,
+  fallbacks: ModelRef[],
+  params?: GenerationParams,
+) {
+  // The fallback chain applies its own retry policy, so the clients must not retry as well
+  const resolve = ({ provider, model }: ModelRef) =>
+    resolveChatModel({ temperature: 1, ...params, provider, model, maxRetries: 0 });
+
+  const chain = fallbacks.filter(
+    (ref) => ref.provider !== primary.provider || ref.model !== primary.model,
+  );
+  const [llm, ...resolved] = await Promise.all([
+    resolve(primary),
+    ...chain.map((ref) =>
+      resolve(ref).catch((error) => {
+        console.warn(`Skipping fallback model ${ref.provider}/${ref.model}:`, error);
+        return null;
+      }),
+    ),
+  ]);
+
+  const models: ModelCandidate[] = [{ ...primary, llm }];
+  chain.forEach((ref, index) => {
+    const fallbackLlm = resolved[index];
+    if (fallbackLlm) models.push({ ...ref, llm: fallbackLlm });
+  });
+  return models;
 }
 
 /**
@@ -39,20 +57,26 @@ async function createAgent(cfg?: AgentConfigOptions) {
   // Resolve model/provider from cfg or defaults.
   const provider = cfg?.provider || DEFAULT_MODEL_PROVIDER;
   const modelName = cfg?.model || DEFAULT_MODEL_NAME;
-  const llm = createChatModel({ provider, model: modelName, temperature: 1 });
-
-  // Load MCP tools
-  const mcpTools = await getMCPTools();
+  const fallbacks = cfg?.fallbacks ?? parseModelRefs(process.env.MODEL_FALLBACKS);
+  // Load the models (credentials from the provider registry) and MCP tools
+  const [models, mcpTools, toolPolicies] = await Promise.all([
+    resolveModelChain({ provider, model: modelName }, fallbacks, cfg?.params),
+    getMCPTools(cfg?.mcpServerIds),
+    getToolPolicies(),
+  ]);
   const configTools = (cfg?.tools || []) as StructuredToolInterface[];
   const allTools = [...configTools, ...mcpTools] as DynamicTool[];
 
   const checkpointer = getPostgresCheckpointer();
   const agent = new AgentBuilder({
-    llm,
+    models,
+    retryPolicy: cfg?.retry,
     tools: allTools,
     prompt: cfg?.systemPrompt || SYSTEM_PROMPT,
     checkpointer: checkpointer,
     approveAllTools: cfg?.approveAllTools || false,
+    toolPolicies,
+    defaultToolPolicy: cfg?.toolPolicy,
   }).build();
 
   return agent;
@@ -61,7 +85,7 @@ async function createAgent(cfg?: AgentConfigOptions) {
 // Public helper if explicit readiness is ever needed elsewhere.
 export async function ensureAgent(cfg?: AgentConfigOptions) {
   // Ensure checkpointer is ready before returning an agent instance.
-  await setupOnce();
+  await setupCheckpointer();
   return createAgent(cfg);
 }
 
@@ -1,5 +1,6 @@
 import { MultiServerMCPClient } from "@langchain/mcp-adapters";
 import prisma from "@/lib/database/prisma";
+import type { ToolApprovalPolicy } from "@/types/mcp";
 
 interface StdioMCPServerConfig {
   transport: "stdio";
@@ -16,6 +17,42 @@ interface HttpMCPServerConfig {
 
 type MCPServerConfig = StdioMCPServerConfig | HttpMCPServerConfig;
 
+type MCPServerRecord = Awaited<ReturnType<typeof prisma.mCPServer.findMany>>[number];
+
+/**
+ * Converts a database MCP server into a MultiServerMCPClient connection config.
+ * Returns null when the server is missing the fields its transport needs.
+ */
+function toMCPServerConfig(server: MCPServerRecord): MCPServerConfig | null {
+  if (server.type === "stdio" && server.command) {
+    const config: StdioMCPServerConfig = {
+      transport: "stdio",
+      command: server.command,
+    };
+
+    if (server.args && Array.isArray(server.args)) {
+      config.args = server.args.filter((arg): arg is string => typeof arg === "string");
+    }
+    if (server.env && typeof server.env === "object" && server.env !== null) {
+      config.env = server.env as Record<string, string>;
+    }
+
+    return config;
+  } else if (server.type === "http" && server.url) {
+    const config: HttpMCPServerConfig = {
+      transport: "http",
+      url: server.url,
+    };
+
+    if (server.headers && typeof server.headers === "object" && server.headers !== null) {
+      config.headers = server.headers as Record<string, string>;
+    }
+
+    return config;
+  }
+  return null;
+}
+
 /**
  * Fetches enabled MCP servers from the database and formats them for MultiServerMCPClient
  */
@@ -28,30 +65,8 @@ export async function getMCPServerConfigs(): Promise<Record<string, MCPServerCon
     const configs: Record<string, MCPServerConfig> = {};
 
     for (const server of servers) {
-      if (server.type === "stdio" && server.command) {
-        const config: StdioMCPServerConfig = {
-          transport: "stdio",
-          command: server.command,
-        };
-
-        if (server.args && Array.isArray(server.args)) {
-          config.args = server.args.filter((arg): arg is string => typeof arg === "string");
-        }
-        if (server.env && typeof server.env === "object" && server.env !== null) {
-          config.env = server.env as Record<string, string>;
-        }
-
-        configs[server.name] = config;
-      } else if (server.type === "http" && server.url) {
-        const config: HttpMCPServerConfig = {
-          transport: "http",
-          url: server.url,
-        };
-
-        if (server.headers && typeof server.headers === "object" && server.headers !== null) {
-          config.headers = server.headers as Record<string, string>;
-        }
-
+      const config = toMCPServerConfig(server);
+      if (config) {
         configs[server.name] = config;
       }
     }
@@ -64,42 +79,202 @@ export async function getMCPServerConfigs(): Promise<Record<string, MCPServerCon
 }
 
 /**
- * Creates and initializes a MultiServerMCPClient with the current database configurations
+ * Fetches tool approval policies for enabled MCP servers, keyed by the prefixed tool name
+ * ("servername__toolname") the agent sees at runtime. Returns null when they can't be
+ * read, so the agent asks before every tool instead of skipping a stored denial.
  */
-export async function createMCPClient(): Promise<MultiServerMCPClient | null> {
+export async function getToolPolicies(): Promise<Record<string, ToolApprovalPolicy> | null> {
   try {
-    const mcpServers = await getMCPServerConfigs();
-
-    if (Object.keys(mcpServers).length === 0) {
-      return null;
-    }
-
-    const client = new MultiServerMCPClient({
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      mcpServers: mcpServers as any, // Complex MCP server config types require type assertion
-      throwOnLoadError: false, // Don't fail if some servers can't connect
-      prefixToolNameWithServerName: true, // Prevent tool name conflicts
+    const policies = await prisma.toolPolicy.findMany({
+      where: { server: { enabled: true } },
+      include: { server: { select: { name: true } } },
     });
 
-    return client;
+    const result: Record<string, ToolApprovalPolicy> = {};
+    for (const policy of policies) {
+      result[`${policy.server.name}__${policy.toolName}`] = policy.policy as ToolApprovalPolicy;
+    }
+    return result;
   } catch (error) {
-    console.error("Failed to create MCP client:", error);
+    console.error("Failed to fetch tool policies:", error);
     return null;
   }
 }
 
+type MCPTool = Awaited<ReturnType<MultiServerMCPClient["getTools"]>>[number];
+
+interface PooledMCPClient {
+  // Name and connection config the client was created with, to detect edits
+  fingerprint: string;
+  client: MultiServerMCPClient;
+  tools: Promise<MCPTool[]>;
+  pid?: number; // process of a stdio server, once connected
+}
+
+// One connected client per server id, kept across requests (and HMR reloads in dev) so
+// stdio processes are spawned once instead of on every message
+const globalForMCP = globalThis as unknown as {
+  mcpClientPool?: Map<string, PooledMCPClient>;
+  mcpShutdownHookRegistered?: boolean;
+};
+const mcpClientPool = (globalForMCP.mcpClientPool ??= new Map<string, PooledMCPClient>());
+
+// How long a signal waits for the pooled clients to close before the process terminates
+const SHUTDOWN_TIMEOUT_MS = 5000;
+
+/**
+ * Closes pooled clients when the process shuts down so stdio servers don't outlive it.
+ * A signal closes them and then raises itself again, now without this listener, so the
+ * process still terminates. On a plain exit the event loop is gone and only the server
+ * processes can be killed.
+ */
+function registerShutdownHook() {
+  if (globalForMCP.mcpShutdownHookRegistered) return;
+  globalForMCP.mcpShutdownHookRegistered = true;
+
+  const shutdown = async (signal: NodeJS.Signals) => {
+    await Promise.race([
+      closeMCPClients(),
+      new Promise((resolve) => setTimeout(resolve, SHUTDOWN_TIMEOUT_MS).unref()),
+    ]);
+    process.kill(process.pid, signal);
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+  process.once("exit", killMCPProcesses);
+}
+
 /**
- * Gets tools from the MCP client if available
+ * Kills the processes of pooled stdio servers, synchronously.
  */
-export async function getMCPTools() {
+function killMCPProcesses() {
+  for (const { pid } of mcpClientPool.values()) {
+    if (!pid) continue;
+    try {
+      process.kill(pid);
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+/**
+ * Process id of a connected stdio server, read from the SDK transport behind the client.
+ */
+async function getStdioPid(
+  client: MultiServerMCPClient,
+  serverName: string,
+): Promise<number | undefined> {
+  try {
+    const transport = (await client.getClient(serverName))?.transport;
+    const pid = transport && "pid" in transport ? transport.pid : undefined;
+    return typeof pid === "number" ? pid : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Returns the tools of one server, connecting it only if there is no pooled client
+ * for its current configuration.
+ */
+function getPooledTools(server: MCPServerRecord, config: MCPServerConfig): Promise<MCPTool[]> {
+  const fingerprint = JSON.stringify({ name: server.name, config });
+  const pooled = mcpClientPool.get(server.id);
+  if (pooled?.fingerprint === fingerprint) {
+    return pooled.tools;
+  }
+  if (pooled) {
+    void invalidateMCPClient(server.id);
+  }
+
+  const client = new MultiServerMCPClient({
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    mcpServers: { [server.name]: config } as any, // Complex MCP server config types require type assertion
+    throwOnLoadError: false, // Don't fail if some servers can't connect
+    prefixToolNameWithServerName: true, // Prevent tool name conflicts
+  });
+
+  const entry: PooledMCPClient = {
+    fingerprint,
+    client,
+    tools: client
+      .getTools()
+      .catch((error) => {
+        console.error(`Failed to get tools from MCP server "${server.name}":`, error);
+        return [];
+      })
+      .then(async (tools) => {
+        // Don't keep a server that failed to connect, retry on the next request instead
+        if (tools.length === 0 && mcpClientPool.get(server.id) === entry) {
+          void invalidateMCPClient(server.id);
+        } else if (config.transport === "stdio") {
+          entry.pid = await getStdioPid(client, server.name);
+        }
+        return tools;
+      }),
+  };
+  mcpClientPool.set(server.id, entry);
+  registerShutdownHook();
+
+  return entry.tools;
+}
+
+/**
+ * Drops the pooled client of a server and closes its connection.
+ * Call after a server is created, updated or deleted.
+ * @param serverId - The MCP server id, or omit to drop every pooled client.
+ */
+export async function invalidateMCPClient(serverId?: string): Promise<void> {
+  const ids = serverId ? [serverId] : [...mcpClientPool.keys()];
+  await Promise.all(
+    ids.map(async (id) => {
+      const pooled = mcpClientPool.get(id);
+      if (!pooled) return;
+      mcpClientPool.delete(id);
+      try {
+        await pooled.client.close();
+      } catch (error) {
+        console.error("Failed to close MCP client:", error);
+      }
+    }),
+  );
+}
+
+/**
+ * Closes every pooled MCP client.
+ */
+export async function closeMCPClients(): Promise<void> {
+  await invalidateMCPClient();
+}
+
+/**
+ * Gets tools from the pooled MCP clients of all enabled servers
+ */
+export async function getMCPTools(serverIds?: string[]): Promise<MCPTool[]> {
   try {
-    const client = await createMCPClient();
-    if (!client) {
-      return [];
+    const servers = await prisma.mCPServer.findMany({
+      where: { enabled: true },
+    });
+
+    // Close clients of servers that were disabled or removed since they were pooled
+    const activeIds = new Set(servers.map((server) => server.id));
+    for (const id of mcpClientPool.keys()) {
+      if (!activeIds.has(id)) void invalidateMCPClient(id);
     }
 
-    const tools = await client.getTools();
-    return tools;
+    // Restrict to the requested servers once the pool is pruned, so the others stay pooled
+    const selected = serverIds?.length
+      ? servers.filter((server) => serverIds.includes(server.id))
+      : servers;
+
+    const toolLists = await Promise.all(
+      selected.map((server) => {
+        const config = toMCPServerConfig(server);
+        return config ? getPooledTools(server, config) : Promise.resolve([]);
+      }),
+    );
+    return toolLists.flat();
   } catch (error) {
     console.error("Failed to get MCP tools:", error);
     return [];
@@ -1,7 +1,12 @@
 import { BaseMessage } from "@langchain/core/messages";
+import type { ConversationSummary } from "@/types/message";
+import { copyCheckpoint, INTERRUPT } from "@langchain/langgraph";
 import { PostgresSaver } from "@langchain/langgraph-checkpoint-postgres";
+import prisma from "@/lib/database/prisma";
+import type { CheckpointLink } from "./branches";
 
 let postgresCheckpointerInstance: PostgresSaver | null = null;
+let setupPromise: Promise<void> | null = null;
 
 /**
  * Creates a PostgresSaver instance using environment variables
@@ -26,19 +31,151 @@ export function getPostgresCheckpointer(): PostgresSaver {
   return postgresCheckpointerInstance;
 }
 
+/**
+ * One-time initialization for the Postgres checkpointer.
+ * Ensures the underlying table/extension are ready before any agent runs or
+ * checkpoint rows are touched directly.
+ */
+export async function setupCheckpointer(): Promise<void> {
+  if (!setupPromise) {
+    const checkpointer = getPostgresCheckpointer();
+    setupPromise = checkpointer.setup().catch((err) => {
+      // Reset so a future call can retry if initial setup failed.
+      setupPromise = null;
+      console.error("Failed to setup postgres checkpointer:", err);
+      throw err;
+    });
+  }
+  await setupPromise;
+}
+
+/**
+ * Checkpointer config of a thread's latest checkpoint, or of a given one.
+ */
+function checkpointConfig(threadId: string, checkpointId?: string) {
+  return {
+    configurable: checkpointId
+      ? { thread_id: threadId, checkpoint_id: checkpointId }
+      : { thread_id: threadId },
+  };
+}
+
 /**
  * Retrieves the message history for a specific thread.
  * @param threadId - The ID of the thread to retrieve history for.
+ * @param checkpointId - Checkpoint to read instead of the latest one, e.g. another branch.
  * @returns An array of messages associated with the thread.
  */
-export const getHistory = async (threadId: string): Promise<BaseMessage[]> => {
+export const getHistory = async (
+  threadId: string,
+  checkpointId?: string,
+): Promise<BaseMessage[]> => {
   const checkpointer = getPostgresCheckpointer();
-  const history = await checkpointer.get({
-    configurable: { thread_id: threadId },
-  });
+  const history = await checkpointer.get(checkpointConfig(threadId, checkpointId));
   return Array.isArray(history?.channel_values?.messages) ? history.channel_values.messages : [];
 };
 
+/**
+ * Whether a checkpoint of the thread exists. LangGraph silently starts from an empty
+ * state when asked to continue from an unknown checkpoint.
+ */
+export const hasCheckpoint = async (threadId: string, checkpointId: string): Promise<boolean> => {
+  const checkpointer = getPostgresCheckpointer();
+  return !!(await checkpointer.getTuple(checkpointConfig(threadId, checkpointId)));
+};
+
+/**
+ * Lists the checkpoints of a thread with their parents, without reading their channel
+ * values.
+ * @param threadId - The ID of the thread to inspect.
+ * @returns The checkpoints, newest first.
+ */
+export const getCheckpointLinks = async (threadId: string): Promise<CheckpointLink[]> => {
+  await setupCheckpointer();
+  const rows = await prisma.$queryRaw<
+    { checkpoint_id: string; parent_checkpoint_id: string | null }[]
+  >`SELECT checkpoint_id, parent_checkpoint_id FROM checkpoints
+    WHERE thread_id = ${threadId} AND checkpoint_ns = ''
+    ORDER BY checkpoint_id DESC`;
+  return rows.map((row) => ({
+    checkpointId: row.checkpoint_id,
+    parentCheckpointId: row.parent_checkpoint_id,
+  }));
+};
+
+/**
+ * Retrieves the ids of the messages a checkpoint holds.
+ * @param threadId - The ID of the thread to inspect.
+ * @param checkpointId - The checkpoint to read.
+ */
+export const getCheckpointMessageIds = async (
+  threadId: string,
+  checkpointId: string,
+): Promise<string[]> => {
+  const messages = await getHistory(threadId, checkpointId);
+  return messages.map((message) => message.id ?? "");
+};
+
+/**
+ * Copies a checkpoint of a thread into another thread, where it becomes the latest
+ * checkpoint. The copy keeps its id, so checkpoints written later still sort after it.
+ * @param threadId - The ID of the thread to copy from.
+ * @param checkpointId - The checkpoint to copy.
+ * @param targetThreadId - The ID of the thread to copy into, which has no checkpoints yet.
+ */
+export const forkCheckpoint = async (
+  threadId: string,
+  checkpointId: string,
+  targetThreadId: string,
+): Promise<void> => {
+  const checkpointer = getPostgresCheckpointer();
+  const tuple = await checkpointer.getTuple(checkpointConfig(threadId, checkpointId));
+  if (!tuple) throw new Error(`Checkpoint "${checkpointId}" not found`);
+  const checkpoint = copyCheckpoint(tuple.checkpoint);
+  await checkpointer.put(
+    { configurable: { thread_id: targetThreadId, checkpoint_ns: "" } },
+    checkpoint,
+    { source: "fork", step: tuple.metadata?.step ?? -1, parents: {} },
+    checkpoint.channel_versions,
+  );
+};
+
+/**
+ * Retrieves the running summary of a thread's older messages, see AgentState.
+ * @param threadId - The ID of the thread to inspect.
+ * @param checkpointId - Checkpoint to read instead of the latest one.
+ * @returns The summary, or null when the thread was never summarized.
+ */
+export const getSummaryState = async (
+  threadId: string,
+  checkpointId?: string,
+): Promise<ConversationSummary | null> => {
+  const checkpointer = getPostgresCheckpointer();
+  const checkpoint = await checkpointer.get(checkpointConfig(threadId, checkpointId));
+  const { summary, summarizedThroughId } = checkpoint?.channel_values ?? {};
+  if (typeof summary !== "string" || typeof summarizedThroughId !== "string") return null;
+  return { summary, summarizedThroughId };
+};
+
+/**
+ * Retrieves the interrupts raised by the latest checkpoint that still await a resume.
+ * Interrupts are persisted as pending writes, so no graph instance is needed to read them.
+ * @param threadId - The ID of the thread to inspect.
+ * @param checkpointId - Checkpoint to read instead of the latest one.
+ * @returns The payloads passed to `interrupt()`, oldest first.
+ */
+export const getPendingInterrupts = async <T = unknown>(
+  threadId: string,
+  checkpointId?: string,
+): Promise<T[]> => {
+  const checkpointer = getPostgresCheckpointer();
+  const tuple = await checkpointer.getTuple(checkpointConfig(threadId, checkpointId));
+  return (tuple?.pendingWrites || [])
+    .filter(([, channel]) => channel === INTERRUPT)
+    .flatMap(([, , value]) => (Array.isArray(value) ? value : [value]))
+    .map((item) => (item && typeof item === "object" && "value" in item ? item.value : item) as T);
+};
+
 /**
  * @deprecated Use getPostgresCheckpointer() instead for lazy initialization
  */
@@ -0,0 +1,26 @@
+import { resolveOpenAICompatibleEndpoint } from "./util";
+
+/**
+ * Lists the model ids an OpenAI-compatible server reports from `GET {baseURL}/models`.
+ * @param endpoint - Optional base URL / API key overrides, defaults to the environment.
+ */
+export async function listOpenAICompatibleModels(endpoint?: {
+  baseURL?: string;
+  apiKey?: string;
+}): Promise<string[]> {
+  const { baseURL, apiKey } = resolveOpenAICompatibleEndpoint(endpoint);
+  const response = await fetch(`${baseURL}/models`, {
+    headers: { Authorization: `Bearer ${apiKey}` },
+    signal: AbortSignal.timeout(10000),
+    cache: "no-store",
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to list models from ${baseURL}: ${response.status}`);
+  }
+
+  const body = (await response.json()) as { data?: Array<{ id?: unknown }> };
+  return (body.data || [])
+    .map((model) => model.id)
+    .filter((id): id is string => typeof id === "string" && id.length > 0)
+    .sort((a, b) => a.localeCompare(b));
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { computeCost, getModelPrice } from "./pricing";
+
+describe("getModelPrice", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.MODEL_PRICES;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("should match the longest prefix", () => {
+    expect(getModelPrice("gpt-4o-mini-2024-07-18")).toEqual({ input: 0.15, output: 0.6 });
+    expect(getModelPrice("gpt-4o-2024-08-06")).toEqual({ input: 2.5, output: 10 });
+    expect(getModelPrice("claude-sonnet-4-5-20250929")).toEqual({ input: 3, output: 15 });
+  });
+
+  it("should return null for unknown models", () => {
+    expect(getModelPrice("llama3.1:8b")).toBeNull();
+  });
+
+  it("should prefer prices from MODEL_PRICES", () => {
+    process.env.MODEL_PRICES = JSON.stringify({
+      llama: { input: 0, output: 0 },
+      "gpt-4o": { input: 2, output: 8 },
+    });
+    expect(getModelPrice("llama3.1:8b")).toEqual({ input: 0, output: 0 });
+    expect(getModelPrice("gpt-4o")).toEqual({ input: 2, output: 8 });
+    expect(getModelPrice("gpt-4o-mini")).toEqual({ input: 0.15, output: 0.6 });
+  });
+
+  it("should ignore invalid MODEL_PRICES", () => {
+    process.env.MODEL_PRICES = "{not json";
+    expect(getModelPrice("gpt-4o")).toEqual({ input: 2.5, output: 10 });
+    process.env.MODEL_PRICES = "[1, 2]";
+    expect(getModelPrice("gpt-4o")).toEqual({ input: 2.5, output: 10 });
+  });
+
+  it("should ignore MODEL_PRICES entries that aren't prices", () => {
+    process.env.MODEL_PRICES = JSON.stringify({
+      "gpt-4o": { input: "2" },
+      llama: { input: 0, output: 0 },
+      mistral: { input: -1, output: 1 },
+    });
+    expect(getModelPrice("gpt-4o")).toEqual({ input: 2.5, output: 10 });
+    expect(getModelPrice("llama3.1:8b")).toEqual({ input: 0, output: 0 });
+    expect(getModelPrice("mistral-large")).toBeNull();
+    expect(computeCost({ model: "gpt-4o", inputTokens: 1_000_000, outputTokens: 0 })).not.toBeNaN();
+  });
+});
+
+describe("computeCost", () => {
+  it("should price input and output tokens per million", () => {
+    expect(computeCost({ model: "gpt-4o", inputTokens: 1_000_000, outputTokens: 500_000 })).toBe(
+      7.5,
+    );
+  });
+
+  it("should return null for unknown models", () => {
+    expect(computeCost({ model: "my-model", inputTokens: 10, outputTokens: 10 })).toBeNull();
+  });
+});
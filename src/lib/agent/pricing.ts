@@ -0,0 +1,107 @@
+import { z } from "zod";
+
+/** Price of a model in USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// List prices by model name prefix; the longest matching prefix wins, so dated and
+// suffixed variants (gpt-4o-2024-08-06, claude-sonnet-4-5-20250929) share their base price
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5-nano": { input: 0.05, output: 0.4 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  o3: { input: 2, output: 8 },
+  "o3-mini": { input: 1.1, output: 4.4 },
+  "o4-mini": { input: 1.1, output: 4.4 },
+  "claude-opus-4-5": { input: 5, output: 25 },
+  "claude-opus-4": { input: 15, output: 75 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "gemini-3-pro": { input: 2, output: 12 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+  "deepseek-chat": { input: 0.28, output: 0.42 },
+  "deepseek-reasoner": { input: 0.28, output: 0.42 },
+};
+
+const modelPriceSchema = z.object({
+  input: z.number().nonnegative(),
+  output: z.number().nonnegative(),
+});
+
+// MODEL_PRICES as last parsed, so an invalid value is only warned about once
+let configured: { raw: string; prices: Record<string, ModelPrice> } | null = null;
+
+/**
+ * Prices configured in MODEL_PRICES, a JSON object of the same shape as the built-in
+ * table, e.g. {"llama3.1": {"input": 0, "output": 0}}. Invalid JSON and entries that
+ * aren't a price are ignored with a warning.
+ */
+function getConfiguredPrices(): Record<string, ModelPrice> {
+  const raw = process.env.MODEL_PRICES;
+  if (!raw) return {};
+  if (configured?.raw === raw) return configured.prices;
+
+  const prices: Record<string, ModelPrice> = {};
+  const invalid: string[] = [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    parsed = undefined;
+  }
+  if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+    for (const [prefix, value] of Object.entries(parsed)) {
+      const result = modelPriceSchema.safeParse(value);
+      if (result.success) prices[prefix] = result.data;
+      else invalid.push(prefix);
+    }
+    if (invalid.length > 0) {
+      console.warn(`Ignoring invalid MODEL_PRICES entries: ${invalid.join(", ")}`);
+    }
+  } else {
+    console.warn("Ignoring MODEL_PRICES, it isn't a JSON object");
+  }
+  configured = { raw, prices };
+  return prices;
+}
+
+/**
+ * Price of a model by name, MODEL_PRICES entries taking precedence over the built-in
+ * list prices.
+ * @returns The price, or null when the model isn't known
+ */
+export function getModelPrice(model: string): ModelPrice | null {
+  const prices = { ...MODEL_PRICES, ...getConfiguredPrices() };
+  const name = model.toLowerCase();
+  let match: string | undefined;
+  for (const prefix of Object.keys(prices)) {
+    if (name.startsWith(prefix.toLowerCase()) && (!match || prefix.length > match.length)) {
+      match = prefix;
+    }
+  }
+  return match ? prices[match] : null;
+}
+
+/**
+ * Cost in USD of a model call or run.
+ * @returns The cost, or null when the model has no known price
+ */
+export function computeCost(usage: {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}): number | null {
+  const price = getModelPrice(usage.model);
+  if (!price) return null;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
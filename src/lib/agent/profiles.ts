@@ -0,0 +1,24 @@
+import type { AgentProfile as AgentProfileRecord } from "@prisma/client";
+import prisma from "@/lib/database/prisma";
+import { ToolApprovalPolicy } from "@/types/mcp";
+import type { GenerationParams } from "@/types/model";
+import type { AgentProfile } from "@/types/profile";
+
+export function toAgentProfile(record: AgentProfileRecord): AgentProfile {
+  return {
+    ...record,
+    params: record.params as GenerationParams | null,
+    fallbacks: record.fallbacks as AgentProfile["fallbacks"],
+    toolPolicy: record.toolPolicy as ToolApprovalPolicy,
+    createdAt: record.createdAt.toISOString(),
+    updatedAt: record.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Fetch an agent profile, or null when it doesn't exist (e.g. it was deleted).
+ */
+export async function getAgentProfile(id: string): Promise<AgentProfile | null> {
+  const record = await prisma.agentProfile.findUnique({ where: { id } });
+  return record ? toAgentProfile(record) : null;
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_SYSTEM_PROMPT, renderPromptTemplate } from "./prompt";
+
+describe("renderPromptTemplate", () => {
+  it("should substitute the known variables", () => {
+    expect(
+      renderPromptTemplate("Hi {{user_name}}, this is {{ thread_title }} on {{date}}.", {
+        user_name: "Ada",
+        thread_title: "Trip plans",
+        date: "2026-10-19",
+      }),
+    ).toBe("Hi Ada, this is Trip plans on 2026-10-19.");
+  });
+
+  it("should render known variables without a value as empty", () => {
+    expect(renderPromptTemplate("Tools: {{available_tools}}", {})).toBe("Tools: ");
+  });
+
+  it("should leave unknown placeholders untouched", () => {
+    expect(renderPromptTemplate("Use {{mustache}} syntax", { date: "2026-10-19" })).toBe(
+      "Use {{mustache}} syntax",
+    );
+  });
+
+  it("should render the date of the default prompt", () => {
+    const prompt = renderPromptTemplate(DEFAULT_SYSTEM_PROMPT, { date: "2026-10-19" });
+    expect(prompt).toContain("Current date: 2026-10-19");
+    expect(prompt).not.toContain("{{");
+  });
+});
@@ -29,7 +29,32 @@ You are a helpful, professional AI assistant similar to ChatGPT. You have access
 
 Always provide your final response with proper Markdown formatting, ensuring important information is highlighted appropriately.
 
-Current date: ${new Date().toISOString().split("T")[0]} (YYYY-MM-DD format)
+Current date: {{date}} (YYYY-MM-DD format)
 `;
 
 export const DEFAULT_SYSTEM_PROMPT = SYSTEM_PROMPT;
+
+/** Variables a system prompt can reference as {{name}} */
+export interface PromptVariables {
+  date: string; // current date, YYYY-MM-DD
+  user_name: string;
+  thread_title: string;
+  available_tools: string; // comma separated tool names
+}
+
+const PROMPT_VARIABLE_NAMES = ["date", "user_name", "thread_title", "available_tools"];
+
+/**
+ * Renders a system prompt template. Known variables without a value render empty;
+ * unknown placeholders are left untouched so prompts can still contain literal braces.
+ */
+export function renderPromptTemplate(
+  template: string,
+  variables: Partial<PromptVariables>,
+): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    PROMPT_VARIABLE_NAMES.includes(name)
+      ? (variables[name as keyof PromptVariables] ?? "")
+      : placeholder,
+  );
+}
@@ -0,0 +1,66 @@
+import prisma from "@/lib/database/prisma";
+import { decryptSecret } from "@/lib/crypto";
+import { ModelProviderType } from "@/types/model";
+import { createChatModel, CreateChatModelOptions } from "./util";
+import { listOpenAICompatibleModels } from "./models";
+
+/**
+ * Maps a registry provider type onto the provider name createChatModel understands.
+ */
+export function toChatModelProvider(type: ModelProviderType): string {
+  return type === ModelProviderType.openai_compatible ? "openai-compatible" : type;
+}
+
+/**
+ * Looks up an enabled provider from the ModelProvider registry by name.
+ */
+async function findRegisteredProvider(name: string) {
+  return prisma.modelProvider.findFirst({ where: { name, enabled: true } });
+}
+
+/**
+ * Creates a chat model, resolving the provider's type, endpoint and API key from the
+ * ModelProvider registry. Providers that aren't registered (or are disabled) fall back
+ * to the built-in providers and their environment variables.
+ */
+export async function resolveChatModel(options: CreateChatModelOptions) {
+  const { provider, model } = options;
+  const registered = provider ? await findRegisteredProvider(provider) : null;
+  if (!registered) {
+    return createChatModel(options);
+  }
+
+  if (registered.allowedModels.length > 0 && !registered.allowedModels.includes(model)) {
+    throw new Error(`Model "${model}" is not allowed for provider "${registered.name}"`);
+  }
+
+  return createChatModel({
+    ...options,
+    provider: toChatModelProvider(registered.type as ModelProviderType),
+    baseURL: registered.baseURL || undefined,
+    apiKey: registered.apiKey ? decryptSecret(registered.apiKey) : undefined,
+  });
+}
+
+/**
+ * Lists the models a provider offers: the registry's allowed models when set, otherwise
+ * whatever an OpenAI-compatible endpoint reports.
+ * @returns The model ids, or null when the provider can't be listed.
+ */
+export async function listProviderModels(provider: string): Promise<string[] | null> {
+  const registered = await findRegisteredProvider(provider);
+  if (!registered) {
+    return provider === "openai-compatible" ? listOpenAICompatibleModels() : null;
+  }
+
+  if (registered.allowedModels.length > 0) {
+    return registered.allowedModels;
+  }
+  if (registered.type === ModelProviderType.openai_compatible) {
+    return listOpenAICompatibleModels({
+      baseURL: registered.baseURL || undefined,
+      apiKey: registered.apiKey ? decryptSecret(registered.apiKey) : undefined,
+    });
+  }
+  return null;
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { AIMessage, HumanMessage, SystemMessage, ToolMessage } from "@langchain/core/messages";
+import { buildSnippet, getQueryTerms, toSearchDocuments } from "./snippets";
+
+describe("toSearchDocuments", () => {
+  it("should keep the text of user, assistant and tool messages", () => {
+    const documents = toSearchDocuments([
+      new SystemMessage({ content: "You are helpful", id: "s1" }),
+      new HumanMessage({
+        content: [
+          { type: "text", text: "What is in this image?" },
+          { type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } },
+        ],
+        id: "h1",
+      }),
+      new AIMessage({
+        content: "",
+        id: "a1",
+        tool_calls: [{ id: "call-1", name: "search", args: { q: "cats" } }],
+      }),
+      new ToolMessage({ content: "A cat.", tool_call_id: "call-1", name: "search", id: "t1" }),
+    ]);
+    expect(documents).toEqual([
+      {
+        messageId: "h1",
+        type: "human",
+        name: null,
+        content: "What is in this image?",
+        position: 1,
+      },
+      { messageId: "t1", type: "tool", name: "search", content: "A cat.", position: 3 },
+    ]);
+  });
+});
+
+describe("getQueryTerms", () => {
+  it("should drop operators, quotes and excluded terms", () => {
+    expect(getQueryTerms('"docker compose" or podman -kubernetes')).toEqual([
+      "docker",
+      "compose",
+      "podman",
+    ]);
+  });
+});
+
+describe("buildSnippet", () => {
+  it("should highlight every term of the query", () => {
+    const { snippet, highlights } = buildSnippet("Run  docker\ncompose up", "Docker compose");
+    expect(snippet).toBe("Run docker compose up");
+    expect(highlights).toEqual([
+      { start: 4, end: 10 },
+      { start: 11, end: 18 },
+    ]);
+  });
+
+  it("should cut an excerpt around the first match", () => {
+    const content = `${"a ".repeat(100)}needle${" b".repeat(200)}`;
+    const { snippet, highlights } = buildSnippet(content, "needle");
+    expect(snippet.startsWith("…")).toBe(true);
+    expect(snippet.endsWith("…")).toBe(true);
+    expect(highlights).toHaveLength(1);
+    const [{ start, end }] = highlights;
+    expect(snippet.slice(start, end)).toBe("needle");
+  });
+
+  it("should merge overlapping highlights", () => {
+    expect(buildSnippet("the database", "data database").highlights).toEqual([
+      { start: 4, end: 12 },
+    ]);
+  });
+
+  it("should start at the beginning when no term occurs verbatim", () => {
+    expect(buildSnippet("Hello world", "greetings")).toEqual({
+      snippet: "Hello world",
+      highlights: [],
+    });
+  });
+});
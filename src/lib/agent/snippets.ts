@@ -0,0 +1,97 @@
+import { BaseMessage } from "@langchain/core/messages";
+import type { SnippetHighlight } from "@/types/search";
+
+// Postgres can't build a tsvector past 1MB, and a search rarely needs more than the start
+// of a huge tool result
+const MAX_DOCUMENT_CHARS = 100_000;
+const SNIPPET_CHARS = 200;
+// Context shown before the first match
+const SNIPPET_LEAD_CHARS = 60;
+
+const SEARCHABLE_TYPES = ["human", "ai", "tool"];
+
+/** Searchable text of a message, one row of the ThreadMessage table */
+export interface SearchDocument {
+  messageId: string;
+  type: "human" | "ai" | "tool";
+  name: string | null;
+  content: string;
+  position: number;
+}
+
+/**
+ * Extracts the searchable text of a conversation: the text of user and assistant
+ * messages and the output of tools. Attachments and messages without text are skipped.
+ */
+export function toSearchDocuments(messages: BaseMessage[]): SearchDocument[] {
+  const documents: SearchDocument[] = [];
+  messages.forEach((message, position) => {
+    const type = message.getType() as SearchDocument["type"];
+    if (!SEARCHABLE_TYPES.includes(type) || !message.id) return;
+    const content = message.text.trim().substring(0, MAX_DOCUMENT_CHARS);
+    if (!content) return;
+    documents.push({
+      messageId: message.id,
+      type,
+      name: type === "tool" ? (message.name ?? null) : null,
+      content,
+      position,
+    });
+  });
+  return documents;
+}
+
+/**
+ * Words of a search query as typed into websearch_to_tsquery, without quotes, the `or`
+ * operator and excluded (`-word`) terms.
+ */
+export function getQueryTerms(query: string): string[] {
+  return query
+    .split(/\s+/)
+    .filter((term) => term && !term.startsWith("-") && term.toLowerCase() !== "or")
+    .map((term) => term.replace(/^"+|"+$/g, ""))
+    .filter(Boolean);
+}
+
+/**
+ * Cuts an excerpt of a message around the first occurrence of the query's terms and
+ * locates every term within it. Whitespace is collapsed so the excerpt fits on a line.
+ */
+export function buildSnippet(
+  content: string,
+  query: string,
+): { snippet: string; highlights: SnippetHighlight[] } {
+  const text = content.replace(/\s+/g, " ").trim();
+  const lower = text.toLowerCase();
+  const terms = getQueryTerms(query.toLowerCase());
+
+  const matches = terms.map((term) => lower.indexOf(term)).filter((index) => index >= 0);
+  const firstMatch = matches.length ? Math.min(...matches) : 0;
+
+  const start = Math.max(0, firstMatch - SNIPPET_LEAD_CHARS);
+  const end = Math.min(text.length, start + SNIPPET_CHARS);
+  const prefix = start > 0 ? "…" : "";
+  const snippet = `${prefix}${text.slice(start, end)}${end < text.length ? "…" : ""}`;
+
+  const excerpt = lower.slice(start, end);
+  const highlights: SnippetHighlight[] = [];
+  for (const term of terms) {
+    for (let index = excerpt.indexOf(term); index >= 0; index = excerpt.indexOf(term, index + 1)) {
+      highlights.push({ start: prefix.length + index, end: prefix.length + index + term.length });
+    }
+  }
+  return { snippet, highlights: mergeHighlights(highlights) };
+}
+
+/**
+ * Sorts highlights and merges overlapping ones, e.g. of the terms "data" and "database".
+ */
+function mergeHighlights(highlights: SnippetHighlight[]): SnippetHighlight[] {
+  const merged: SnippetHighlight[] = [];
+  for (const highlight of [...highlights].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && highlight.start <= last.end) last.end = Math.max(last.end, highlight.end);
+    else merged.push({ ...highlight });
+  }
+  return merged;
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { AIMessage, HumanMessage, ToolMessage } from "@langchain/core/messages";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import {
+  buildSummaryRequest,
+  estimateTokens,
+  findSummaryCutoff,
+  getContextWindow,
+  getSummaryThreshold,
+} from "./summary";
+
+describe("getContextWindow", () => {
+  it("should look up the context window by model name", () => {
+    expect(getContextWindow("claude-sonnet-4-5")).toBe(200_000);
+    expect(getContextWindow("gpt-4o-mini")).toBe(128_000);
+    expect(getContextWindow("deepseek-chat")).toBe(64_000);
+  });
+
+  it("should prefer the window reported by the model class", () => {
+    const llm = { profile: { maxInputTokens: 8_000 } } as unknown as BaseChatModel;
+    expect(getContextWindow("gpt-4o", llm)).toBe(8_000);
+  });
+
+  it("should fall back to a conservative default for unknown models", () => {
+    expect(getContextWindow("llama3.1:8b")).toBe(32_000);
+  });
+});
+
+describe("getSummaryThreshold", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.SUMMARY_THRESHOLD_TOKENS;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("should use the smallest context window of the chain", () => {
+    expect(getSummaryThreshold([{ model: "gemini-2.5-pro" }, { model: "deepseek-chat" }])).toBe(
+      48_000,
+    );
+  });
+
+  it("should use SUMMARY_THRESHOLD_TOKENS when set", () => {
+    process.env.SUMMARY_THRESHOLD_TOKENS = "2000";
+    expect(getSummaryThreshold([{ model: "gpt-4o" }])).toBe(2000);
+  });
+});
+
+describe("estimateTokens", () => {
+  it("should count about four characters per token", () => {
+    expect(estimateTokens([new HumanMessage("a".repeat(400))])).toBe(104);
+  });
+
+  it("should count images as a fixed amount", () => {
+    const message = new HumanMessage({
+      content: [
+        { type: "text", text: "a".repeat(40) },
+        { type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } },
+      ],
+    });
+    expect(estimateTokens([message])).toBe(1_014);
+  });
+});
+
+describe("findSummaryCutoff", () => {
+  const turn = (n: number) => [
+    new HumanMessage({ content: `question ${n} ${"x".repeat(400)}`, id: `h${n}` }),
+    new AIMessage({
+      content: "",
+      id: `a${n}`,
+      tool_calls: [{ id: `call${n}`, name: "search", args: {} }],
+    }),
+    new ToolMessage({ content: "y".repeat(400), tool_call_id: `call${n}`, id: `t${n}` }),
+    new AIMessage({ content: `answer ${n}`, id: `b${n}` }),
+  ];
+
+  it("should keep the recent turns within the budget", () => {
+    const messages = [...turn(1), ...turn(2), ...turn(3)];
+    // Each turn takes a bit over 220 tokens
+    expect(findSummaryCutoff(messages, 500)).toBe(4);
+  });
+
+  it("should cut at a human message so tool calls keep their results", () => {
+    const messages = [...turn(1), ...turn(2)];
+    expect(messages[findSummaryCutoff(messages, 150)].getType()).toBe("human");
+  });
+
+  it("should never summarize the latest turn", () => {
+    const messages = [...turn(1), ...turn(2)];
+    expect(findSummaryCutoff(messages, 10)).toBe(4);
+    expect(findSummaryCutoff(turn(1), 10)).toBe(0);
+  });
+
+  it("should return 0 when everything fits", () => {
+    expect(findSummaryCutoff([...turn(1), ...turn(2)], 10_000)).toBe(0);
+  });
+});
+
+describe("buildSummaryRequest", () => {
+  it("should include the previous summary and a transcript of the messages", () => {
+    const request = buildSummaryRequest("User is planning a trip.", [
+      new HumanMessage("Find flights to Lisbon"),
+      new AIMessage({
+        content: "",
+        tool_calls: [{ id: "c1", name: "search", args: { q: "flights Lisbon" } }],
+      }),
+      new ToolMessage({ content: "3 flights found", tool_call_id: "c1", name: "search" }),
+    ]);
+    expect(request).toBe(
+      [
+        "Current summary:\nUser is planning a trip.",
+        "New messages:\nUser: Find flights to Lisbon",
+        'Assistant: [called search with {"q":"flights Lisbon"}]',
+        "Tool search result: 3 flights found",
+      ].join("\n\n"),
+    );
+  });
+});
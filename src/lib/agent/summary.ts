@@ -0,0 +1,139 @@
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { ModelProfile } from "@langchain/core/language_models/profile";
+import { BaseMessage } from "@langchain/core/messages";
+
+// Context windows (input tokens) by model name prefix, for models whose LangChain class
+// doesn't report one. The first matching prefix wins.
+const CONTEXT_WINDOWS: [prefix: string, tokens: number][] = [
+  ["gemini", 1_048_576],
+  ["claude", 200_000],
+  ["gpt-4.1", 1_047_576],
+  ["gpt-4o", 128_000],
+  ["gpt-5", 400_000],
+  ["o1", 200_000],
+  ["o3", 200_000],
+  ["o4", 200_000],
+  ["deepseek", 64_000],
+];
+const DEFAULT_CONTEXT_WINDOW = 32_000;
+
+// Share of the context window the conversation may fill before older turns are summarized
+const SUMMARY_TRIGGER_RATIO = 0.75;
+// Roughly 4 characters per token for English text; images count as a fixed amount
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKENS = 1_000;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Tool results can be huge, the summary only needs their gist
+const MAX_TRANSCRIPT_ENTRY_CHARS = 4_000;
+
+export const SUMMARY_PROMPT = `You maintain the running summary of a conversation between a user and an AI assistant that uses tools.
+Update the summary with the new messages. Keep facts, decisions, names, numbers, open questions and the results of tool calls that later answers may rely on; drop small talk and repetition.
+Write the summary in the language of the conversation, as concise notes. Reply with the summary only.`;
+
+/**
+ * Input context window of a model: the one its LangChain class reports, otherwise a
+ * lookup by model name.
+ */
+export function getContextWindow(model: string, llm?: BaseChatModel): number {
+  const profile = (llm as { profile?: ModelProfile } | undefined)?.profile;
+  if (profile?.maxInputTokens) return profile.maxInputTokens;
+  const name = model.toLowerCase();
+  return CONTEXT_WINDOWS.find(([prefix]) => name.startsWith(prefix))?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Token count past which older turns are summarized. SUMMARY_THRESHOLD_TOKENS overrides
+ * the share of the smallest context window in the fallback chain.
+ */
+export function getSummaryThreshold(models: { model: string; llm?: BaseChatModel }[]): number {
+  const configured = Number(process.env.SUMMARY_THRESHOLD_TOKENS);
+  if (Number.isFinite(configured) && configured > 0) return configured;
+  const contextWindow = Math.min(...models.map(({ model, llm }) => getContextWindow(model, llm)));
+  return Math.floor(contextWindow * SUMMARY_TRIGGER_RATIO);
+}
+
+/**
+ * Rough token count of messages. Good enough to decide when to summarize without
+ * loading a tokenizer for every provider.
+ */
+export function estimateTokens(messages: BaseMessage[], text = ""): number {
+  let chars = text.length;
+  let tokens = 0;
+  for (const message of messages) {
+    tokens += MESSAGE_OVERHEAD_TOKENS;
+    if (typeof message.content === "string") {
+      chars += message.content.length;
+    } else {
+      for (const item of message.content) {
+        if (item.type === "text" && typeof item.text === "string") chars += item.text.length;
+        else if (item.type === "image_url" || item.type === "image") tokens += IMAGE_TOKENS;
+        else chars += JSON.stringify(item).length;
+      }
+    }
+    const toolCalls = (message as { tool_calls?: unknown[] }).tool_calls;
+    if (toolCalls?.length) chars += JSON.stringify(toolCalls).length;
+  }
+  return tokens + Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+/**
+ * Picks how many of the leading messages to fold into the summary so the remaining ones
+ * take about `keepTokens`. The kept part always starts at a human message, so tool calls
+ * stay next to their results and the latest turn is never summarized.
+ * @returns The number of messages to summarize, 0 when there's nothing to summarize
+ */
+export function findSummaryCutoff(messages: BaseMessage[], keepTokens: number): number {
+  let kept = 0;
+  let cutoff = messages.length;
+  while (cutoff > 0 && kept + estimateTokens([messages[cutoff - 1]]) <= keepTokens) {
+    kept += estimateTokens([messages[cutoff - 1]]);
+    cutoff--;
+  }
+  // Move forward to the next turn boundary, or back to the start of the latest turn when
+  // that turn alone exceeds the budget
+  while (cutoff < messages.length && messages[cutoff].getType() !== "human") {
+    cutoff++;
+  }
+  if (cutoff === messages.length) {
+    cutoff = Math.max(0, messages.length - 1);
+    while (cutoff > 0 && messages[cutoff].getType() !== "human") {
+      cutoff--;
+    }
+  }
+  return cutoff;
+}
+
+/**
+ * Renders messages as a plain transcript for the summarization request. Tool calls and
+ * results are spelled out rather than sent as tool messages, so any model can read them.
+ */
+export function formatTranscript(messages: BaseMessage[]): string {
+  return messages
+    .map((message) => {
+      const type = message.getType();
+      let text = message.text;
+      if (type === "ai") {
+        const toolCalls = (message as { tool_calls?: { name: string; args: unknown }[] })
+          .tool_calls;
+        for (const toolCall of toolCalls ?? []) {
+          text += `\n[called ${toolCall.name} with ${JSON.stringify(toolCall.args)}]`;
+        }
+      }
+      if (text.length > MAX_TRANSCRIPT_ENTRY_CHARS) {
+        text = `${text.slice(0, MAX_TRANSCRIPT_ENTRY_CHARS)}…`;
+      }
+      const speaker =
+        type === "human" ? "User" : type === "tool" ? `Tool ${message.name} result` : "Assistant";
+      return `${speaker}: ${text.trim()}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * The user turn of a summarization request: the previous summary, if any, followed by
+ * the messages to fold into it.
+ */
+export function buildSummaryRequest(summary: string | undefined, messages: BaseMessage[]) {
+  const previous = summary ? `Current summary:\n${summary}\n\n` : "";
+  return `${previous}New messages:\n${formatTranscript(messages)}`;
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { AIMessage, HumanMessage, ToolMessage } from "@langchain/core/messages";
+import { cleanTitle, getTitleExchange, getTitleModel, isFirstTurn } from "./title";
+
+describe("getTitleModel", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.TITLE_MODEL;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("should prefer TITLE_MODEL", () => {
+    process.env.TITLE_MODEL = "openai:gpt-4.1-nano";
+    expect(getTitleModel({ provider: "anthropic", model: "claude-opus-4-5" })).toEqual({
+      provider: "openai",
+      model: "gpt-4.1-nano",
+    });
+  });
+
+  it("should pick an inexpensive model of the thread's provider", () => {
+    expect(getTitleModel({ provider: "anthropic", model: "claude-opus-4-5" })).toEqual({
+      provider: "anthropic",
+      model: "claude-haiku-4-5",
+    });
+  });
+
+  it("should fall back to the thread's model for other providers", () => {
+    expect(getTitleModel({ provider: "local-llm", model: "llama3.1:8b" })).toEqual({
+      provider: "local-llm",
+      model: "llama3.1:8b",
+    });
+  });
+});
+
+describe("getTitleExchange", () => {
+  it("should end at the first assistant message with text", () => {
+    const messages = [
+      new HumanMessage("What's the weather in Paris?"),
+      new AIMessage({
+        content: "",
+        tool_calls: [{ id: "call-1", name: "weather", args: { city: "Paris" } }],
+      }),
+      new ToolMessage({ content: "Sunny, 21°C", tool_call_id: "call-1", name: "weather" }),
+      new AIMessage("It's sunny and 21°C in Paris."),
+      new HumanMessage("And tomorrow?"),
+    ];
+    expect(getTitleExchange(messages)).toEqual(messages.slice(0, 4));
+  });
+
+  it("should return null before the first answer", () => {
+    expect(getTitleExchange([new HumanMessage("Hello")])).toBeNull();
+  });
+});
+
+describe("isFirstTurn", () => {
+  it("should tell whether the first answer is the latest one", () => {
+    const exchange = [new HumanMessage("Hello"), new AIMessage("Hi! How can I help?")];
+    expect(isFirstTurn(exchange, exchange)).toBe(true);
+    expect(
+      isFirstTurn([...exchange, new HumanMessage("Thanks"), new AIMessage("Bye")], exchange),
+    ).toBe(false);
+  });
+});
+
+describe("cleanTitle", () => {
+  it("should strip quotes, labels and trailing periods", () => {
+    expect(cleanTitle('"Paris weather forecast."')).toBe("Paris weather forecast");
+    expect(cleanTitle("**Title:** Docker networking basics")).toBe("Docker networking basics");
+    expect(cleanTitle("「巴黎天气」。")).toBe("巴黎天气");
+  });
+
+  it("should keep the first line only and cap the length", () => {
+    expect(cleanTitle("Refactoring the parser\nThis conversation is about…")).toBe(
+      "Refactoring the parser",
+    );
+    expect(cleanTitle("a".repeat(150))).toHaveLength(100);
+  });
+
+  it("should return null for an empty answer", () => {
+    expect(cleanTitle('  ""  ')).toBeNull();
+  });
+});
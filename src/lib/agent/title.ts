@@ -0,0 +1,67 @@
+import { BaseMessage, isAIMessage, isHumanMessage } from "@langchain/core/messages";
+import { formatTranscript } from "./summary";
+import { parseModelRefs, type ModelRef } from "./util";
+
+const MAX_TITLE_CHARS = 100;
+
+// Inexpensive models of the built-in providers, used when TITLE_MODEL isn't set
+const TITLE_MODELS: Record<string, string> = {
+  openai: "gpt-4o-mini",
+  google: "gemini-2.5-flash-lite",
+  anthropic: "claude-haiku-4-5",
+  deepseek: "deepseek-chat",
+};
+
+export const TITLE_PROMPT = `Write a short title for the conversation below, at most 6 words, in the language of the conversation.
+Name the topic rather than restating the question. Reply with the title only, without quotes or a trailing period.`;
+
+/**
+ * Model that names threads: TITLE_MODEL ("provider:model") when set, otherwise an
+ * inexpensive model of the thread's provider, or the thread's own model for providers
+ * without one.
+ */
+export function getTitleModel(thread: ModelRef): ModelRef {
+  const [configured] = parseModelRefs(process.env.TITLE_MODEL);
+  if (configured) return configured;
+  return { provider: thread.provider, model: TITLE_MODELS[thread.provider] ?? thread.model };
+}
+
+/**
+ * The exchange a title is generated from: the conversation up to the first assistant
+ * message with text, tool calls and results included.
+ * @returns The messages, or null while no assistant message has text yet
+ */
+export function getTitleExchange(messages: BaseMessage[]): BaseMessage[] | null {
+  const reply = messages.findIndex((message) => isAIMessage(message) && message.text.trim());
+  return reply === -1 ? null : messages.slice(0, reply + 1);
+}
+
+/**
+ * Whether the first answer came in the latest turn, i.e. no user message follows the
+ * exchange a title is generated from.
+ */
+export function isFirstTurn(messages: BaseMessage[], exchange: BaseMessage[]): boolean {
+  return !messages.slice(exchange.length).some((message) => isHumanMessage(message));
+}
+
+/**
+ * The user turn of a title request.
+ */
+export function buildTitleRequest(messages: BaseMessage[]): string {
+  return `Conversation:\n${formatTranscript(messages)}`;
+}
+
+/**
+ * Tidies a model's answer into a title: first line only, without surrounding quotes,
+ * markdown, a "Title:" label or a trailing period.
+ * @returns The title, or null when nothing usable is left
+ */
+export function cleanTitle(raw: string): string | null {
+  const title = (raw.trim().split("\n")[0] ?? "")
+    .replace(/^#+\s*/, "")
+    .replace(/^\**\s*title\s*:\s*/i, "")
+    .replace(/\*+/g, "")
+    .replace(/^["'“”‘’「」`]+|["'“”‘’「」`.。]+$/g, "")
+    .trim();
+  return title ? title.substring(0, MAX_TITLE_CHARS) : null;
+}
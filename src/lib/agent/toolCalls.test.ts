@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { AIMessage, HumanMessage, ToolMessage } from "@langchain/core/messages";
+import { findUnansweredToolCalls } from "./toolCalls";
+
+const toolCalls = [
+  { id: "call-1", name: "search", args: {} },
+  { id: "call-2", name: "write_file", args: {} },
+];
+
+describe("findUnansweredToolCalls", () => {
+  it("should return every call of a trailing AI message", () => {
+    const messages = [
+      new HumanMessage("Hi"),
+      new AIMessage({ content: "", tool_calls: toolCalls }),
+    ];
+    expect(findUnansweredToolCalls(messages).map((call) => call.id)).toEqual(["call-1", "call-2"]);
+  });
+
+  it("should skip calls answered by review feedback", () => {
+    const messages = [
+      new HumanMessage("Hi"),
+      new AIMessage({ content: "", tool_calls: toolCalls }),
+      new ToolMessage({ content: "Denied", tool_call_id: "call-2", name: "write_file" }),
+    ];
+    expect(findUnansweredToolCalls(messages).map((call) => call.id)).toEqual(["call-1"]);
+  });
+
+  it("should return nothing once every call has a result", () => {
+    const messages = [
+      new AIMessage({ content: "", tool_calls: toolCalls }),
+      new ToolMessage({ content: "Found", tool_call_id: "call-1", name: "search" }),
+      new ToolMessage({ content: "Denied", tool_call_id: "call-2", name: "write_file" }),
+      new AIMessage("Done"),
+    ];
+    expect(findUnansweredToolCalls(messages)).toEqual([]);
+    expect(findUnansweredToolCalls([new HumanMessage("Hi")])).toEqual([]);
+  });
+});
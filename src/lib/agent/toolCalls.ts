@@ -0,0 +1,23 @@
+import { BaseMessage, isAIMessage, isToolMessage } from "@langchain/core/messages";
+import type { ToolCall } from "@langchain/core/messages/tool";
+
+/**
+ * Tool calls of the latest AI message that calls tools which have no result after it.
+ * Review feedback can answer some of a message's calls before the rest finish, so the
+ * latest message isn't necessarily that AI message.
+ */
+export function findUnansweredToolCalls(messages: BaseMessage[]): ToolCall[] {
+  const index = messages.findLastIndex(
+    (message) => isAIMessage(message) && !!message.tool_calls?.length,
+  );
+  if (index === -1) return [];
+
+  const answered = new Set(
+    messages
+      .slice(index + 1)
+      .filter(isToolMessage)
+      .map((message) => message.tool_call_id),
+  );
+  const { tool_calls: toolCalls = [] } = messages[index] as { tool_calls?: ToolCall[] };
+  return toolCalls.filter((toolCall) => !answered.has(toolCall.id!));
+}
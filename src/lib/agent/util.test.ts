@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { ChatAnthropic } from "@langchain/anthropic";
+import { ChatOpenAI } from "@langchain/openai";
+import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
+import { ToolApprovalPolicy } from "@/types/mcp";
+import type { AgentProfile } from "@/types/profile";
+import {
+  applyAgentProfile,
+  createChatModel,
+  DEFAULT_MODELS,
+  parseModelRefs,
+  REASONING_BUDGET_TOKENS,
+  resolveOpenAICompatibleEndpoint,
+} from "./util";
+
+describe("createChatModel", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, ANTHROPIC_API_KEY: "test-key" };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("should create an Anthropic model for the anthropic provider", () => {
+    const llm = createChatModel({ provider: "anthropic", model: DEFAULT_MODELS.anthropic });
+    expect(llm).toBeInstanceOf(ChatAnthropic);
+    expect((llm as ChatAnthropic).model).toBe(DEFAULT_MODELS.anthropic);
+  });
+
+  it("should throw for an unknown provider instead of falling back", () => {
+    expect(() => createChatModel({ provider: "mistral", model: "mistral-large" })).toThrow(
+      /Unsupported model provider "mistral"/,
+    );
+  });
+});
+
+describe("createChatModel generation parameters", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      OPENAI_API_KEY: "test-key",
+      DEEPSEEK_API_KEY: "test-key",
+      ANTHROPIC_API_KEY: "test-key",
+      GOOGLE_API_KEY: "test-key",
+    };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  const params = {
+    temperature: 0,
+    maxTokens: 512,
+    topP: 0.5,
+    stop: ["END"],
+    seed: 42,
+    reasoningEffort: "low" as const,
+  };
+
+  it("should map every parameter for OpenAI", () => {
+    const llm = createChatModel({ provider: "openai", model: "gpt-4o-mini", ...params });
+    expect(llm).toMatchObject({
+      temperature: 0,
+      maxTokens: 512,
+      topP: 0.5,
+      stop: ["END"],
+      modelKwargs: { seed: 42 },
+      reasoning: { effort: "low" },
+    });
+  });
+
+  it("should leave out seed and reasoning effort for DeepSeek", () => {
+    const llm = createChatModel({ provider: "deepseek", model: "deepseek-chat", ...params });
+    expect(llm).toMatchObject({ temperature: 0, maxTokens: 512, topP: 0.5 });
+    expect((llm as ChatOpenAI).modelKwargs).toEqual({});
+    expect((llm as ChatOpenAI).reasoning).toBeUndefined();
+  });
+
+  it("should enable Anthropic thinking on top of the answer's max tokens", () => {
+    const llm = createChatModel({ provider: "anthropic", model: "claude-sonnet-4-5", ...params });
+    expect(llm).toBeInstanceOf(ChatAnthropic);
+    expect(llm).toMatchObject({
+      temperature: 1,
+      maxTokens: 512 + REASONING_BUDGET_TOKENS.low,
+      stopSequences: ["END"],
+      thinking: { type: "enabled", budget_tokens: REASONING_BUDGET_TOKENS.low },
+    });
+  });
+
+  it("should map Gemini parameters and the thinking budget", () => {
+    const llm = createChatModel({ provider: "google", model: "gemini-2.5-flash", ...params });
+    expect(llm).toBeInstanceOf(ChatGoogleGenerativeAI);
+    expect(llm).toMatchObject({
+      temperature: 0,
+      maxOutputTokens: 512,
+      topP: 0.5,
+      stopSequences: ["END"],
+      thinkingConfig: { thinkingBudget: REASONING_BUDGET_TOKENS.low },
+    });
+  });
+
+  it("should keep the provider defaults for unset parameters", () => {
+    const llm = createChatModel({ provider: "anthropic", model: "claude-sonnet-4-5" });
+    expect((llm as ChatAnthropic).thinking).toEqual({ type: "disabled" });
+    expect((llm as ChatAnthropic).temperature).toBe(1);
+  });
+});
+
+describe("resolveOpenAICompatibleEndpoint", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.OPENAI_COMPATIBLE_BASE_URL;
+    delete process.env.OPENAI_COMPATIBLE_API_KEY;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("should read the endpoint from the environment", () => {
+    process.env.OPENAI_COMPATIBLE_BASE_URL = "http://localhost:11434/v1/";
+    process.env.OPENAI_COMPATIBLE_API_KEY = "secret";
+    expect(resolveOpenAICompatibleEndpoint()).toEqual({
+      baseURL: "http://localhost:11434/v1",
+      apiKey: "secret",
+    });
+  });
+
+  it("should prefer explicit overrides and tolerate a missing key", () => {
+    process.env.OPENAI_COMPATIBLE_BASE_URL = "http://localhost:11434/v1";
+    expect(resolveOpenAICompatibleEndpoint({ baseURL: "http://vllm:8000/v1" })).toEqual({
+      baseURL: "http://vllm:8000/v1",
+      apiKey: "not-needed",
+    });
+  });
+
+  it("should throw when no base URL is configured", () => {
+    expect(() => resolveOpenAICompatibleEndpoint()).toThrow(/OPENAI_COMPATIBLE_BASE_URL/);
+  });
+});
+
+describe("parseModelRefs", () => {
+  it("should parse an ordered fallback chain", () => {
+    expect(parseModelRefs("openai:gpt-4o-mini, google:gemini-2.5-flash")).toEqual([
+      { provider: "openai", model: "gpt-4o-mini" },
+      { provider: "google", model: "gemini-2.5-flash" },
+    ]);
+  });
+
+  it("should use the provider's default model when none is given", () => {
+    expect(parseModelRefs("anthropic")).toEqual([
+      { provider: "anthropic", model: DEFAULT_MODELS.anthropic },
+    ]);
+  });
+
+  it("should skip empty entries", () => {
+    expect(parseModelRefs(undefined)).toEqual([]);
+    expect(parseModelRefs("openai:gpt-4o-mini,,openai-compatible")).toEqual([
+      { provider: "openai", model: "gpt-4o-mini" },
+    ]);
+  });
+});
+
+describe("applyAgentProfile", () => {
+  const profile: AgentProfile = {
+    id: "p1",
+    name: "Researcher",
+    description: null,
+    systemPrompt: "You research things.",
+    provider: "openai",
+    model: "gpt-4o",
+    params: null,
+    fallbacks: null,
+    mcpServerIds: [],
+    toolPolicy: ToolApprovalPolicy.always_ask,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+  };
+
+  it("should replace the thread's settings with the profile's fields", () => {
+    const settings = { provider: "google", model: "gemini", params: { temperature: 0.5 } };
+    expect(applyAgentProfile(settings, profile)).toEqual({
+      provider: "openai",
+      model: "gpt-4o",
+      systemPrompt: "You research things.",
+      params: { temperature: 0.5 },
+    });
+  });
+
+  it("should keep the fields the request sets explicitly", () => {
+    const settings = { provider: "google", model: "gemini", profileId: "p1" };
+    expect(applyAgentProfile(settings, profile, { model: "gemini", profileId: "p1" })).toEqual({
+      provider: "openai",
+      model: "gemini",
+      systemPrompt: "You research things.",
+      profileId: "p1",
+    });
+  });
+
+  it("should replace the thread's fallback models with the profile's", () => {
+    const settings = { fallbacks: [{ provider: "google", model: "gemini" }] };
+    const withFallbacks = { ...profile, fallbacks: [] };
+    expect(applyAgentProfile(settings, withFallbacks).fallbacks).toEqual([]);
+    expect(applyAgentProfile(settings, profile).fallbacks).toEqual(settings.fallbacks);
+  });
+});
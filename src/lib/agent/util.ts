@@ -1,44 +1,224 @@
 import { ChatOpenAI } from "@langchain/openai";
 import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
+import { ChatAnthropic } from "@langchain/anthropic";
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { GenerationParams, ReasoningEffort } from "@/types/model";
+import type { ToolApprovalPolicy } from "@/types/mcp";
+import type { ThreadSettings } from "@/types/message";
+import type { AgentProfile } from "@/types/profile";
+import { omitUndefined } from "@/lib/utils";
 
-export interface CreateChatModelOptions {
-  provider?: string; // 'openai' | 'google' | 'deepseek' | others later
+export interface CreateChatModelOptions extends GenerationParams {
+  provider?: string; // 'openai' | 'google' | 'deepseek' | 'anthropic' | 'openai-compatible'
   model: string;
-  temperature?: number;
+  baseURL?: string; // overrides the provider's default endpoint (OPENAI_COMPATIBLE_BASE_URL for openai-compatible)
+  apiKey?: string; // overrides the provider's API key environment variable
+  maxRetries?: number; // retries of the LangChain client itself, 0 when the agent's retry policy applies
 }
 
+// Thinking budgets of Anthropic and Gemini models for each reasoning effort
+export const REASONING_BUDGET_TOKENS: Record<ReasoningEffort, number> = {
+  low: 1024,
+  medium: 4096,
+  high: 16384,
+};
+
+// Answer budget added to Anthropic's thinking budget when no max tokens are set
+const ANTHROPIC_DEFAULT_ANSWER_TOKENS = 4096;
+
 /**
  * Central factory for creating a chat model based on provider + model name.
+ * Credentials default to environment variables; use resolveChatModel (./providers) to
+ * apply the ModelProvider registry first. Generation parameters are mapped onto each
+ * provider's fields, those it doesn't support are left out.
  */
 export function createChatModel({
   provider = "google",
   model,
   temperature = 1,
+  maxTokens,
+  topP,
+  stop,
+  seed,
+  reasoningEffort,
+  baseURL,
+  apiKey,
+  maxRetries,
 }: CreateChatModelOptions): BaseChatModel {
+  const retries = maxRetries !== undefined ? { maxRetries } : {};
+  const stopSequences = stop?.length ? stop : undefined;
+  // Unset parameters are left out so the model classes keep their own defaults.
+  // Fields of the OpenAI chat completions API, shared by the OpenAI based providers
+  const openAIParams = omitUndefined({ temperature, maxTokens, topP, stop: stopSequences });
+  const openAIExtras = omitUndefined({
+    modelKwargs: seed !== undefined ? { seed } : undefined,
+    reasoning: reasoningEffort ? { effort: reasoningEffort } : undefined,
+  });
   switch (provider) {
     case "openai":
-      return new ChatOpenAI({ model, temperature });
+      return new ChatOpenAI({
+        model,
+        ...openAIParams,
+        ...openAIExtras,
+        ...retries,
+        ...(apiKey ? { apiKey } : {}),
+        ...(baseURL ? { configuration: { baseURL } } : {}),
+      });
     case "deepseek":
+      // DeepSeek supports neither seed nor reasoning effort
       return new ChatOpenAI({
         model,
-        temperature,
+        ...openAIParams,
+        ...retries,
         configuration: {
-          baseURL: "https://api.deepseek.com/v1",
-          apiKey: process.env.DEEPSEEK_API_KEY,
+          baseURL: baseURL || "https://api.deepseek.com/v1",
+          apiKey: apiKey || process.env.DEEPSEEK_API_KEY,
         },
       });
+    case "openai-compatible": {
+      const endpoint = resolveOpenAICompatibleEndpoint({ baseURL, apiKey });
+      return new ChatOpenAI({
+        model,
+        ...openAIParams,
+        ...openAIExtras,
+        ...retries,
+        configuration: endpoint,
+      });
+    }
+    case "anthropic": {
+      // Extended thinking requires temperature 1 and counts against max tokens, so the
+      // budget is added on top of the answer's max tokens
+      const budget = reasoningEffort ? REASONING_BUDGET_TOKENS[reasoningEffort] : undefined;
+      return new ChatAnthropic({
+        model,
+        ...omitUndefined({
+          temperature: budget ? 1 : temperature,
+          topP: budget ? undefined : topP,
+          maxTokens: budget ? (maxTokens ?? ANTHROPIC_DEFAULT_ANSWER_TOKENS) + budget : maxTokens,
+          stopSequences,
+          thinking: budget ? { type: "enabled" as const, budget_tokens: budget } : undefined,
+        }),
+        ...retries,
+        ...(apiKey ? { apiKey } : {}),
+        ...(baseURL ? { anthropicApiUrl: baseURL } : {}),
+      });
+    }
     case "google":
+      return new ChatGoogleGenerativeAI({
+        model,
+        ...omitUndefined({
+          temperature,
+          maxOutputTokens: maxTokens,
+          topP,
+          stopSequences,
+          thinkingConfig: reasoningEffort
+            ? { thinkingBudget: REASONING_BUDGET_TOKENS[reasoningEffort] }
+            : undefined,
+        }),
+        ...retries,
+        ...(apiKey ? { apiKey } : {}),
+        ...(baseURL ? { baseUrl: baseURL } : {}),
+      });
     default:
-      return new ChatGoogleGenerativeAI({ model, temperature });
+      throw new Error(
+        `Unsupported model provider "${provider}". Expected one of: ${Object.keys(DEFAULT_MODELS).join(", ")}`,
+      );
+  }
+}
+
+/**
+ * Resolves the endpoint of a self-hosted OpenAI-compatible server (Ollama, vLLM, LM Studio,
+ * llama.cpp), falling back to the OPENAI_COMPATIBLE_* environment variables.
+ */
+export function resolveOpenAICompatibleEndpoint(overrides?: { baseURL?: string; apiKey?: string }) {
+  const baseURL = overrides?.baseURL || process.env.OPENAI_COMPATIBLE_BASE_URL;
+  if (!baseURL) {
+    throw new Error(
+      'The "openai-compatible" provider requires a base URL, set OPENAI_COMPATIBLE_BASE_URL',
+    );
   }
+  // Local servers usually ignore the key, but the OpenAI client refuses to start without one
+  const apiKey = overrides?.apiKey || process.env.OPENAI_COMPATIBLE_API_KEY || "not-needed";
+  return { baseURL: baseURL.replace(/\/+$/, ""), apiKey };
 }
+
+/** A provider + model pair, e.g. one entry of a fallback chain */
+export interface ModelRef {
+  provider: string;
+  model: string;
+}
+
+/**
+ * Retry policy applied to each model of the fallback chain. Rate limits (429), server
+ * errors (5xx) and network failures are retried with exponential backoff.
+ */
+export interface RetryPolicy {
+  maxAttempts: number; // attempts per model, including the first one
+  initialDelayMs: number; // delay before the first retry, doubled on every further retry
+  maxDelayMs: number; // upper bound of a single delay
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 8000,
+};
+
 export interface AgentConfigOptions {
   model?: string;
   provider?: string; // 'google' | 'openai' etc.
+  fallbacks?: ModelRef[]; // tried in order once the primary model keeps failing, defaults to MODEL_FALLBACKS
+  retry?: Partial<RetryPolicy>; // overrides DEFAULT_RETRY_POLICY
+  params?: GenerationParams; // temperature, max tokens etc., applied to every model of the chain
   systemPrompt?: string; // system prompt override
   tools?: unknown[]; // tools from registry or direct tool objects
   approveAllTools?: boolean; // if true, skip tool approval prompts
+  mcpServerIds?: string[]; // MCP servers to load tools from, empty or unset for all enabled servers
+  toolPolicy?: ToolApprovalPolicy; // policy of tools without their own, defaults to always_ask
+}
+
+/**
+ * Parses a fallback chain such as "openai:gpt-4o-mini,google:gemini-3-flash-preview".
+ * Entries without a model use the provider's default model.
+ */
+export function parseModelRefs(value?: string): ModelRef[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      const provider = separator === -1 ? entry : entry.slice(0, separator).trim();
+      const model = separator === -1 ? "" : entry.slice(separator + 1).trim();
+      return { provider, model: model || DEFAULT_MODELS[provider] || "" };
+    })
+    .filter((ref) => ref.provider && ref.model);
+}
+
+/**
+ * Layers a profile over a thread's settings: the profile's fields replace the thread's
+ * own, except those the current request sets explicitly.
+ * @param settings The thread's settings, including the request's options
+ * @param provided The options sent with the request
+ */
+export function applyAgentProfile(
+  settings: ThreadSettings,
+  profile: AgentProfile,
+  provided: Partial<Record<keyof ThreadSettings, unknown>> = {},
+): ThreadSettings {
+  const fromProfile = omitUndefined<ThreadSettings>({
+    provider: profile.provider ?? undefined,
+    model: profile.model ?? undefined,
+    systemPrompt: profile.systemPrompt ?? undefined,
+    params: profile.params ?? undefined,
+    fallbacks: profile.fallbacks ?? undefined,
+  });
+  const explicit = Object.keys(omitUndefined(provided));
+  return {
+    ...settings,
+    ...Object.fromEntries(Object.entries(fromProfile).filter(([key]) => !explicit.includes(key))),
+  };
 }
 
 export const DEFAULT_MODEL_PROVIDER = "deepseek";
@@ -49,4 +229,6 @@ export const DEFAULT_MODELS: Record<string, string> = {
   google: "gemini-3-flash-preview",
   openai: "gpt-4o-mini",
   deepseek: "deepseek-chat",
+  anthropic: "claude-sonnet-4-5",
+  "openai-compatible": "", // picked from the models the endpoint reports
 };
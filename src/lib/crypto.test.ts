@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { decryptSecret, encryptSecret, isEncryptionConfigured } from "./crypto";
+
+describe("secret encryption", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, PROVIDER_ENCRYPTION_KEY: "test-encryption-key" };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("should round-trip a secret", () => {
+    const encrypted = encryptSecret("sk-test-123");
+    expect(encrypted).not.toContain("sk-test-123");
+    expect(decryptSecret(encrypted)).toBe("sk-test-123");
+  });
+
+  it("should use a fresh IV for every encryption", () => {
+    expect(encryptSecret("same")).not.toBe(encryptSecret("same"));
+  });
+
+  it("should reject a secret encrypted with another key", () => {
+    const encrypted = encryptSecret("sk-test-123");
+    process.env.PROVIDER_ENCRYPTION_KEY = "another-key";
+    expect(() => decryptSecret(encrypted)).toThrow();
+  });
+
+  it("should reject a tampered payload", () => {
+    const [version, iv, tag, ciphertext] = encryptSecret("sk-test-123").split(":");
+    const tampered = Buffer.from(ciphertext, "base64");
+    tampered[0] ^= 1;
+    expect(() =>
+      decryptSecret([version, iv, tag, tampered.toString("base64")].join(":")),
+    ).toThrow();
+  });
+
+  it("should require PROVIDER_ENCRYPTION_KEY", () => {
+    delete process.env.PROVIDER_ENCRYPTION_KEY;
+    expect(isEncryptionConfigured()).toBe(false);
+    expect(() => encryptSecret("sk-test-123")).toThrow(/PROVIDER_ENCRYPTION_KEY/);
+  });
+});
@@ -0,0 +1,59 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const VERSION = "v1";
+
+/**
+ * Whether PROVIDER_ENCRYPTION_KEY is set, so secrets can be stored.
+ */
+export function isEncryptionConfigured(): boolean {
+  return !!process.env.PROVIDER_ENCRYPTION_KEY;
+}
+
+/**
+ * Derives a 256-bit key from PROVIDER_ENCRYPTION_KEY, so any sufficiently random string works.
+ */
+function getEncryptionKey(): Buffer {
+  const secret = process.env.PROVIDER_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error("PROVIDER_ENCRYPTION_KEY is not set");
+  }
+  return createHash("sha256").update(secret).digest();
+}
+
+/**
+ * Encrypt a secret for storage in the database.
+ * @param plaintext Secret to encrypt
+ * @returns "v1:<iv>:<auth tag>:<ciphertext>", base64 encoded parts
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [
+    VERSION,
+    iv.toString("base64"),
+    tag.toString("base64"),
+    ciphertext.toString("base64"),
+  ].join(":");
+}
+
+/**
+ * Decrypt a secret produced by encryptSecret.
+ * @param payload Encrypted secret
+ * @returns Plaintext secret
+ */
+export function decryptSecret(payload: string): string {
+  const [version, iv, tag, ciphertext] = payload.split(":");
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error("Unsupported encrypted secret format");
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getEncryptionKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
@@ -0,0 +1,185 @@
+import { describe, it, expect } from "vitest";
+import type { MessageResponse } from "@/types/message";
+import type { ThreadExport } from "@/types/export";
+import {
+  exportContentDisposition,
+  renderThreadExport,
+  toExportedMessages,
+  toHtml,
+  toMarkdown,
+} from "./export";
+
+const file = {
+  url: "http://localhost:9000/uploads/notes.md",
+  key: "notes.md",
+  name: "notes.md",
+  type: "text/markdown",
+  size: 2048,
+};
+const image = {
+  url: "http://localhost:9000/uploads/chart.png",
+  key: "chart.png",
+  name: "chart.png",
+  type: "image/png",
+  size: 100,
+};
+
+const history: MessageResponse[] = [
+  {
+    type: "human",
+    data: {
+      id: "h1",
+      content: [
+        { type: "text", text: "Summarize my notes" },
+        { type: "text", text: "\n\n[Content of notes.md]:\n# Notes", file_metadata: file },
+        {
+          type: "image_url",
+          image_url: { url: "data:image/png;base64,AAAA" },
+          file_metadata: image,
+        },
+      ] as unknown as string,
+    },
+  },
+  {
+    type: "ai",
+    data: {
+      id: "a1",
+      content: "",
+      tool_calls: [{ id: "call-1", name: "search", args: { q: "notes" }, type: "tool_call" }],
+      response_metadata: { model_name: "gpt-4o-mini-2024-07-18" },
+    },
+  },
+  {
+    type: "tool",
+    data: {
+      id: "t1",
+      content: "Found ```code```",
+      status: "success",
+      tool_call_id: "call-1",
+      name: "search",
+    },
+  },
+  {
+    type: "ai",
+    data: { id: "a2", content: "Your notes are about <b>things</b>." },
+  },
+];
+
+function makeExport(inlineAttachments = false): ThreadExport {
+  return {
+    thread: {
+      id: "thread-1",
+      title: "Notes review",
+      tags: ["work"],
+      folder: "Projects",
+      createdAt: "2026-10-19T12:00:00.000Z",
+      updatedAt: "2026-10-19T12:05:00.000Z",
+    },
+    model: { provider: "openai", model: "gpt-4o-mini", profile: null },
+    usage: {
+      totals: {
+        runs: 1,
+        inputTokens: 100,
+        outputTokens: 20,
+        totalTokens: 120,
+        cost: 0.0001,
+        unpricedRuns: 0,
+      },
+      groups: [],
+    },
+    exportedAt: "2026-10-19T13:00:00.000Z",
+    messages: toExportedMessages(history, { inlineAttachments }),
+  };
+}
+
+describe("toExportedMessages", () => {
+  it("should keep tool calls, tool results and the answering model", () => {
+    const [, call, result] = toExportedMessages(history);
+    expect(call).toEqual({
+      id: "a1",
+      role: "assistant",
+      content: "",
+      model: "gpt-4o-mini-2024-07-18",
+      toolCalls: [{ id: "call-1", name: "search", args: { q: "notes" } }],
+    });
+    expect(result.tool).toEqual({ name: "search", callId: "call-1", status: "success" });
+  });
+
+  it("should link attachments and leave their content out of the text", () => {
+    const [user] = toExportedMessages(history);
+    expect(user.content).toBe("Summarize my notes");
+    expect(user.attachments).toEqual([
+      { name: "notes.md", type: "text/markdown", size: 2048, url: file.url },
+      { name: "chart.png", type: "image/png", size: 100, url: image.url },
+    ]);
+  });
+
+  it("should inline attachment data when asked to", () => {
+    const [user] = toExportedMessages(history, { inlineAttachments: true });
+    expect(user.attachments?.[0].text).toBe("# Notes");
+    expect(user.attachments?.[1].dataUrl).toBe("data:image/png;base64,AAAA");
+  });
+});
+
+describe("toMarkdown", () => {
+  it("should render metadata, messages and tool calls", () => {
+    const markdown = toMarkdown(makeExport());
+    expect(markdown).toContain("# Notes review");
+    expect(markdown).toContain("- **Model:** openai/gpt-4o-mini");
+    expect(markdown).toContain("- **Tags:** #work");
+    expect(markdown).toContain("## Assistant · gpt-4o-mini-2024-07-18");
+    expect(markdown).toContain(
+      '**Tool call:** `search` (`call-1`)\n\n```json\n{\n  "q": "notes"\n}\n```',
+    );
+    expect(markdown).toContain(`**Attachment:** [chart.png (image/png, 100 B)](<${image.url}>)`);
+  });
+
+  it("should fence tool results longer than their backtick runs", () => {
+    expect(toMarkdown(makeExport())).toContain(
+      "## Tool result: search\n\n````\nFound ```code```\n````",
+    );
+  });
+
+  it("should inline images and text attachments", () => {
+    const markdown = toMarkdown(makeExport(true));
+    expect(markdown).toContain("![chart.png](<data:image/png;base64,AAAA>)");
+    expect(markdown).toContain("```\n# Notes\n```");
+  });
+});
+
+describe("toHtml", () => {
+  it("should escape message text", () => {
+    const html = toHtml(makeExport());
+    expect(html).toContain("Your notes are about &lt;b&gt;things&lt;/b&gt;.");
+    expect(html).not.toContain("<b>things</b>");
+    expect(html).toContain(`<a href="${image.url}" download="chart.png">`);
+  });
+
+  it("should not link unsafe URLs", () => {
+    const exported = makeExport();
+    exported.messages[0].attachments![1].url = "javascript:alert(1)";
+    expect(toHtml(exported)).toContain('<a href="#" download="chart.png">');
+  });
+});
+
+describe("renderThreadExport", () => {
+  it("should render JSON as the export itself", () => {
+    const exported = makeExport();
+    expect(JSON.parse(renderThreadExport(exported, "json"))).toEqual(exported);
+  });
+});
+
+describe("exportContentDisposition", () => {
+  it("should name the file after the title", () => {
+    expect(exportContentDisposition("Notes review: Q3!", "md")).toBe(
+      `attachment; filename="notes-review-q3.md"; filename*=UTF-8''notes-review-q3.md`,
+    );
+  });
+
+  it("should fall back to ASCII and a default name", () => {
+    expect(exportContentDisposition("里斯本之行", "html")).toBe(
+      `attachment; filename="_____.html"; filename*=UTF-8''${encodeURIComponent("里斯本之行.html")}`,
+    );
+    expect(exportContentDisposition("???", "json")).toContain('filename="thread.json"');
+  });
+});
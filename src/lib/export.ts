@@ -0,0 +1,327 @@
+import { getMessageContent } from "@/services/messageUtils";
+import type {
+  AIMessageData,
+  FileAttachment,
+  MessageResponse,
+  ToolMessageData,
+} from "@/types/message";
+import type {
+  ExportFormat,
+  ExportedAttachment,
+  ExportedMessage,
+  ThreadExport,
+} from "@/types/export";
+
+const ROLES: Record<MessageResponse["type"], ExportedMessage["role"]> = {
+  human: "user",
+  ai: "assistant",
+  tool: "tool",
+  error: "error",
+};
+
+const ROLE_LABELS: Record<ExportedMessage["role"], string> = {
+  user: "User",
+  assistant: "Assistant",
+  tool: "Tool result",
+  error: "Error",
+};
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  html: "text/html; charset=utf-8",
+};
+
+type AttachmentItem = {
+  type: string;
+  text?: string;
+  image_url?: { url: string };
+  file_metadata?: FileAttachment;
+};
+
+/**
+ * Files attached to a user message, stored as content items carrying `file_metadata`
+ * (see processAttachmentsForAI). Inlining keeps the data URL of images and PDFs and the
+ * extracted text of text files.
+ */
+function getAttachments(message: MessageResponse, inline: boolean): ExportedAttachment[] {
+  if (!Array.isArray(message.data.content)) return [];
+  return (message.data.content as AttachmentItem[])
+    .filter((item) => !!item.file_metadata)
+    .map(({ file_metadata: file, image_url, text }) => {
+      const { name, type, size, url } = file!;
+      const attachment: ExportedAttachment = { name, type, size, url };
+      if (inline && image_url?.url) attachment.dataUrl = image_url.url;
+      if (inline && text !== undefined) {
+        attachment.text = text.replace(`\n\n[Content of ${name}]:\n`, "");
+      }
+      return attachment;
+    });
+}
+
+/** Name of the model that wrote a message, as reported by OpenAI, Anthropic or Gemini */
+function getResponseModel(data: AIMessageData): string | undefined {
+  const metadata = data.response_metadata ?? {};
+  const model = metadata.model_name ?? metadata.model;
+  return typeof model === "string" ? model : undefined;
+}
+
+/**
+ * Converts a thread's history, as returned by fetchThreadHistory, into exported
+ * messages. Attachments are links unless `inlineAttachments` is set.
+ */
+export function toExportedMessages(
+  messages: MessageResponse[],
+  options: { inlineAttachments?: boolean } = {},
+): ExportedMessage[] {
+  return messages.map((message) => {
+    const exported: ExportedMessage = {
+      id: message.data.id,
+      role: ROLES[message.type],
+      content: getMessageContent(message),
+    };
+    if (message.type === "ai") {
+      const data = message.data as AIMessageData;
+      const model = getResponseModel(data);
+      if (model) exported.model = model;
+      if (data.tool_calls?.length) {
+        exported.toolCalls = data.tool_calls.map(({ id, name, args }) => ({ id, name, args }));
+      }
+    } else if (message.type === "tool") {
+      const data = message.data as ToolMessageData;
+      exported.tool = { name: data.name, callId: data.tool_call_id, status: data.status };
+    } else if (message.type === "human") {
+      const attachments = getAttachments(message, options.inlineAttachments ?? false);
+      if (attachments.length > 0) exported.attachments = attachments;
+    }
+    return exported;
+  });
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(4)}`;
+}
+
+function describeModel({ model }: ThreadExport): string {
+  return `${model.provider}/${model.model}${model.profile ? ` (profile: ${model.profile})` : ""}`;
+}
+
+function describeUsage({ usage }: ThreadExport): string[] {
+  const { totals, groups = [] } = usage;
+  if (totals.runs === 0) return [];
+  const describe = (entry: typeof totals) =>
+    `${entry.totalTokens} tokens (${entry.inputTokens} in, ${entry.outputTokens} out), ${formatCost(entry.cost)}`;
+  return [
+    `${describe(totals)} over ${totals.runs} ${totals.runs === 1 ? "run" : "runs"}`,
+    ...groups.map((group) => `${group.key}: ${describe(group)}`),
+  ];
+}
+
+function headingOf(message: ExportedMessage): string {
+  if (message.role === "tool" && message.tool) {
+    const status = message.tool.status && message.tool.status !== "success";
+    return `${ROLE_LABELS.tool}: ${message.tool.name}${status ? ` (${message.tool.status})` : ""}`;
+  }
+  if (message.role === "assistant" && message.model) {
+    return `${ROLE_LABELS.assistant} · ${message.model}`;
+  }
+  return ROLE_LABELS[message.role];
+}
+
+/** A fenced code block whose fence outlasts any backtick run in the text */
+function fence(text: string, language = ""): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = "`".repeat(longest + 1);
+  return `${marker}${language}\n${text}\n${marker}`;
+}
+
+/**
+ * Renders an export as Markdown: a metadata list followed by one section per message,
+ * with tool calls and results in code blocks.
+ */
+export function toMarkdown(exported: ThreadExport): string {
+  const { thread } = exported;
+  const usage = describeUsage(exported);
+  const lines = [
+    `# ${thread.title}`,
+    "",
+    `- **Thread:** \`${thread.id}\``,
+    `- **Created:** ${thread.createdAt}`,
+    `- **Updated:** ${thread.updatedAt}`,
+    `- **Model:** ${describeModel(exported)}`,
+    ...(thread.folder ? [`- **Folder:** ${thread.folder}`] : []),
+    ...(thread.tags.length
+      ? [`- **Tags:** ${thread.tags.map((tag) => `#${tag}`).join(", ")}`]
+      : []),
+    ...(usage.length
+      ? [`- **Usage:** ${usage[0]}`, ...usage.slice(1).map((line) => `  - ${line}`)]
+      : []),
+    `- **Exported:** ${exported.exportedAt}`,
+  ];
+
+  for (const message of exported.messages) {
+    lines.push("", "---", "", `## ${headingOf(message)}`, "");
+    if (message.role === "tool") {
+      lines.push(fence(message.content));
+    } else if (message.content) {
+      lines.push(message.content);
+    }
+    for (const attachment of message.attachments ?? []) {
+      const label = `${attachment.name} (${attachment.type}, ${formatSize(attachment.size)})`;
+      if (attachment.text !== undefined) {
+        lines.push("", `**Attachment:** ${label}`, "", fence(attachment.text));
+      } else if (attachment.dataUrl && attachment.type.startsWith("image/")) {
+        lines.push(
+          "",
+          `**Attachment:** ${label}`,
+          "",
+          `![${attachment.name}](<${attachment.dataUrl}>)`,
+        );
+      } else {
+        lines.push("", `**Attachment:** [${label}](<${attachment.dataUrl ?? attachment.url}>)`);
+      }
+    }
+    for (const call of message.toolCalls ?? []) {
+      lines.push(
+        "",
+        `**Tool call:** \`${call.name}\` (\`${call.id}\`)`,
+        "",
+        fence(JSON.stringify(call.args, null, 2), "json"),
+      );
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** Only web and data URLs are linked, anything else could run script */
+function safeUrl(url: string): string {
+  return /^(https?:|data:)/i.test(url) ? escapeHtml(url) : "#";
+}
+
+const HTML_STYLE = `
+body { font-family: system-ui, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #1f2937; line-height: 1.5; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; font-size: 0.875rem; }
+dt { font-weight: 600; }
+dd { margin: 0; }
+section { border-top: 1px solid #e5e7eb; padding: 1rem 0; }
+h2 { font-size: 1rem; margin: 0 0 0.5rem; }
+.text { white-space: pre-wrap; margin: 0; font: inherit; }
+pre { background: #f3f4f6; padding: 0.75rem; border-radius: 6px; overflow-x: auto; font-size: 0.8125rem; }
+img { max-width: 100%; }
+.error { color: #b91c1c; }`;
+
+/**
+ * Renders an export as a standalone HTML page. Message text is escaped and kept as
+ * written (Markdown is not rendered), tool calls and results are collapsible.
+ */
+export function toHtml(exported: ThreadExport): string {
+  const { thread } = exported;
+  const usage = describeUsage(exported);
+  const meta: [string, string][] = [
+    ["Thread", thread.id],
+    ["Created", thread.createdAt],
+    ["Updated", thread.updatedAt],
+    ["Model", describeModel(exported)],
+    ...(thread.folder ? [["Folder", thread.folder] as [string, string]] : []),
+    ...(thread.tags.length
+      ? [["Tags", thread.tags.map((tag) => `#${tag}`).join(", ")] as [string, string]]
+      : []),
+    ...usage.map((line, index) => [index === 0 ? "Usage" : "", line] as [string, string]),
+    ["Exported", exported.exportedAt],
+  ];
+
+  const sections = exported.messages.map((message) => {
+    const parts = [`<h2>${escapeHtml(headingOf(message))}</h2>`];
+    if (message.role === "tool") {
+      parts.push(
+        `<details><summary>Output</summary><pre>${escapeHtml(message.content)}</pre></details>`,
+      );
+    } else if (message.content) {
+      const className = message.role === "error" ? "text error" : "text";
+      parts.push(`<pre class="${className}">${escapeHtml(message.content)}</pre>`);
+    }
+    for (const attachment of message.attachments ?? []) {
+      const label = escapeHtml(
+        `${attachment.name} (${attachment.type}, ${formatSize(attachment.size)})`,
+      );
+      if (attachment.text !== undefined) {
+        parts.push(
+          `<details><summary>Attachment: ${label}</summary><pre>${escapeHtml(attachment.text)}</pre></details>`,
+        );
+      } else if (attachment.dataUrl && attachment.type.startsWith("image/")) {
+        parts.push(
+          `<p>Attachment: ${label}</p><img src="${safeUrl(attachment.dataUrl)}" alt="${escapeHtml(attachment.name)}">`,
+        );
+      } else {
+        const href = safeUrl(attachment.dataUrl ?? attachment.url);
+        parts.push(
+          `<p>Attachment: <a href="${href}" download="${escapeHtml(attachment.name)}">${label}</a></p>`,
+        );
+      }
+    }
+    for (const call of message.toolCalls ?? []) {
+      parts.push(
+        `<details><summary>Tool call: ${escapeHtml(call.name)} (${escapeHtml(call.id)})</summary><pre>${escapeHtml(JSON.stringify(call.args, null, 2))}</pre></details>`,
+      );
+    }
+    return `<section>\n${parts.join("\n")}\n</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(thread.title)}</title>
+<style>${HTML_STYLE}
+</style>
+</head>
+<body>
+<h1>${escapeHtml(thread.title)}</h1>
+<dl>
+${meta.map(([term, value]) => `<dt>${escapeHtml(term)}</dt><dd>${escapeHtml(value)}</dd>`).join("\n")}
+</dl>
+${sections.join("\n")}
+</body>
+</html>
+`;
+}
+
+/**
+ * Renders an export in the requested format.
+ */
+export function renderThreadExport(exported: ThreadExport, format: ExportFormat): string {
+  if (format === "json") return JSON.stringify(exported, null, 2);
+  return format === "html" ? toHtml(exported) : toMarkdown(exported);
+}
+
+/**
+ * Content-Disposition header downloading the export under a name derived from the
+ * thread title, with an ASCII fallback for clients without RFC 5987 support.
+ */
+export function exportContentDisposition(title: string, format: ExportFormat): string {
+  const base =
+    title
+      .normalize("NFC")
+      .replace(/[^\p{L}\p{N}]+/gu, "-")
+      .substring(0, 60)
+      .replace(/^-+|-+$/g, "")
+      .toLowerCase() || "thread";
+  const filename = `${base}.${format}`;
+  const ascii = filename.replace(/[^\x20-\x7e]/g, "_");
+  return `attachment; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
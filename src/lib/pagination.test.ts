@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { decodeCursor, encodeCursor, keysetWhere, pinnedKeysetWhere } from "./pagination";
+
+describe("page cursors", () => {
+  it("should round-trip a cursor", () => {
+    const cursor = { value: "2026-10-19T12:00:00.000Z", id: "thread-1" };
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it("should round-trip a cursor of a pinned-first listing", () => {
+    const cursor = { value: "Notes", id: "thread-1", pinned: true };
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it("should reject strings that aren't cursors", () => {
+    expect(decodeCursor("not a cursor")).toBeNull();
+    expect(decodeCursor(Buffer.from('{"id":"x"}').toString("base64url"))).toBeNull();
+    expect(decodeCursor(Buffer.from('["v","id","yes"]').toString("base64url"))).toBeNull();
+  });
+});
+
+describe("keysetWhere", () => {
+  it("should continue after the cursor in descending order", () => {
+    expect(keysetWhere("updatedAt", "desc", "v", "id-1")).toEqual({
+      OR: [{ updatedAt: { lt: "v" } }, { updatedAt: "v", id: { lt: "id-1" } }],
+    });
+  });
+
+  it("should continue after the cursor in ascending order", () => {
+    expect(keysetWhere("title", "asc", "b", "id-1")).toEqual({
+      OR: [{ title: { gt: "b" } }, { title: "b", id: { gt: "id-1" } }],
+    });
+  });
+});
+
+describe("pinnedKeysetWhere", () => {
+  const after = { OR: [{ title: { gt: "b" } }, { title: "b", id: { gt: "id-1" } }] };
+
+  it("should move on to unpinned rows after a pinned cursor", () => {
+    expect(pinnedKeysetWhere("title", "asc", "b", "id-1", true)).toEqual({
+      OR: [{ AND: [{ pinned: true }, after] }, { pinned: false }],
+    });
+  });
+
+  it("should stay within unpinned rows after an unpinned cursor", () => {
+    expect(pinnedKeysetWhere("title", "asc", "b", "id-1", false)).toEqual({
+      AND: [{ pinned: false }, after],
+    });
+  });
+});
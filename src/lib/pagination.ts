@@ -0,0 +1,65 @@
+/** Position after which the next page starts: the sort value and id of the last item */
+export interface PageCursor {
+  value: string; // dates as ISO 8601
+  id: string;
+  pinned?: boolean; // in listings that put pinned items first
+}
+
+/**
+ * Encodes a cursor as the opaque string clients pass back for the next page.
+ */
+export function encodeCursor(cursor: PageCursor): string {
+  const fields =
+    cursor.pinned === undefined
+      ? [cursor.value, cursor.id]
+      : [cursor.value, cursor.id, cursor.pinned];
+  return Buffer.from(JSON.stringify(fields)).toString("base64url");
+}
+
+/**
+ * Decodes a cursor made by encodeCursor.
+ * @returns The cursor, or null when the string isn't one
+ */
+export function decodeCursor(raw: string): PageCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (
+      Array.isArray(decoded) &&
+      typeof decoded[0] === "string" &&
+      typeof decoded[1] === "string"
+    ) {
+      if (decoded.length === 2) return { value: decoded[0], id: decoded[1] };
+      if (decoded.length === 3 && typeof decoded[2] === "boolean") {
+        return { value: decoded[0], id: decoded[1], pinned: decoded[2] };
+      }
+    }
+  } catch {
+    // Not base64url JSON
+  }
+  return null;
+}
+
+/**
+ * Prisma filter for the rows after a cursor when sorting by `field` and then by id, so
+ * rows sharing a sort value are neither skipped nor repeated across pages.
+ */
+export function keysetWhere<T>(field: string, order: "asc" | "desc", value: T, id: string) {
+  const op = order === "desc" ? "lt" : "gt";
+  return {
+    OR: [{ [field]: { [op]: value } }, { [field]: value, id: { [op]: id } }],
+  };
+}
+
+/**
+ * Like keysetWhere, for listings ordered by a pinned flag first (pinned rows on top).
+ */
+export function pinnedKeysetWhere<T>(
+  field: string,
+  order: "asc" | "desc",
+  value: T,
+  id: string,
+  pinned: boolean,
+) {
+  const after = { AND: [{ pinned }, keysetWhere(field, order, value, id)] };
+  return pinned ? { OR: [after, { pinned: false }] } : after;
+}
@@ -0,0 +1,84 @@
+import prisma from "@/lib/database/prisma";
+import { getHistory } from "@/lib/agent/memory";
+import { buildSnippet, toSearchDocuments } from "@/lib/agent/snippets";
+import type { MessageSearchResult } from "@/types/search";
+
+type SearchRow = {
+  threadId: string;
+  threadTitle: string;
+  messageId: string;
+  type: MessageSearchResult["type"];
+  name: string | null;
+  content: string;
+};
+
+/**
+ * Copies the text of a thread's messages at its latest checkpoint into ThreadMessage,
+ * replacing what was indexed before. Messages only found on other branches drop out.
+ */
+export async function indexThreadMessages(threadId: string): Promise<void> {
+  const documents = toSearchDocuments(await getHistory(threadId));
+  await prisma.$transaction([
+    prisma.threadMessage.deleteMany({ where: { threadId } }),
+    prisma.threadMessage.createMany({
+      data: documents.map((document) => ({ threadId, ...document })),
+    }),
+    // Raw so the thread's updatedAt, which orders the thread list, stays as it is
+    prisma.$executeRaw`UPDATE "Thread" SET "indexedAt" = NOW() WHERE "id" = ${threadId}`,
+  ]);
+}
+
+/** Threads without an index that a single search indexes before it runs */
+const BACKFILL_BATCH_SIZE = 20;
+
+/**
+ * Indexes a batch of the threads that never were, i.e. those whose last run predates
+ * message search, most recently updated first. A thread that fails is logged and marked
+ * as indexed anyway, so its next run rather than every search tries it again.
+ */
+async function indexPendingThreads(): Promise<void> {
+  const pending = await prisma.thread.findMany({
+    where: { indexedAt: null },
+    select: { id: true },
+    orderBy: { updatedAt: "desc" },
+    take: BACKFILL_BATCH_SIZE,
+  });
+  for (const { id } of pending) {
+    try {
+      await indexThreadMessages(id);
+    } catch (error) {
+      console.error(`Failed to index messages of thread ${id}:`, error);
+      await prisma.$executeRaw`UPDATE "Thread" SET "indexedAt" = NOW() WHERE "id" = ${id}`;
+    }
+  }
+}
+
+/**
+ * Finds messages whose words match the query, as parsed by websearch_to_tsquery (quoted
+ * phrases, `or`, `-word`), or that contain it verbatim, which also covers parts of words
+ * and languages written without spaces. Best matches of the most recent threads first.
+ * A batch of the threads not indexed yet is indexed first.
+ */
+export async function searchMessages(query: string, limit = 20): Promise<MessageSearchResult[]> {
+  await indexPendingThreads();
+  const pattern = `%${query.replace(/[\\%_]/g, "\\$&")}%`;
+  const rows = await prisma.$queryRaw<SearchRow[]>`
+    SELECT m."threadId", t."title" AS "threadTitle", m."messageId", m."type", m."name",
+      m."content"
+    FROM "ThreadMessage" m
+    JOIN "Thread" t ON t."id" = m."threadId",
+      websearch_to_tsquery('simple', ${query}) q
+    WHERE to_tsvector('simple', m."content") @@ q OR m."content" ILIKE ${pattern}
+    ORDER BY ts_rank(to_tsvector('simple', m."content"), q) DESC, t."updatedAt" DESC,
+      m."position" DESC
+    LIMIT ${limit}`;
+
+  return rows.map((row) => ({
+    threadId: row.threadId,
+    threadTitle: row.threadTitle,
+    messageId: row.messageId,
+    type: row.type,
+    name: row.name ?? undefined,
+    ...buildSnippet(row.content, query),
+  }));
+}
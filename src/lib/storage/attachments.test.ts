@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { AIMessage, HumanMessage } from "@langchain/core/messages";
+import { collectAttachmentKeys, findUnsharedAttachmentKeys } from "./attachments";
+
+function withAttachment(text: string, key: string) {
+  return new HumanMessage({
+    content: [
+      { type: "text", text },
+      { type: "image_url", image_url: { url: `https://s3/${key}` }, file_metadata: { key } },
+    ],
+  });
+}
+
+describe("collectAttachmentKeys", () => {
+  it("should collect the keys of attached files once", () => {
+    const messages = [
+      withAttachment("Look", "a.png"),
+      new AIMessage("Nice"),
+      withAttachment("Again", "a.png"),
+      withAttachment("And this", "b.pdf"),
+      new HumanMessage("No file"),
+    ];
+    expect([...collectAttachmentKeys(messages)]).toEqual(["a.png", "b.pdf"]);
+  });
+});
+
+describe("findUnsharedAttachmentKeys", () => {
+  // The fork copies the source's first exchange, then both threads go on on their own
+  const source = [withAttachment("Look", "a.png"), new AIMessage("Nice")];
+  const sourceLater = [...source, withAttachment("Later", "b.png")];
+  const fork = [...source, withAttachment("In the fork", "c.png")];
+
+  it("should keep the files a fork still shows when deleting its source", () => {
+    expect(findUnsharedAttachmentKeys(sourceLater, [fork])).toEqual(["b.png"]);
+  });
+
+  it("should keep the files the source still shows when deleting a fork", () => {
+    expect(findUnsharedAttachmentKeys(fork, [sourceLater])).toEqual(["c.png"]);
+  });
+
+  it("should release every file of a thread without forks", () => {
+    expect(findUnsharedAttachmentKeys(sourceLater, [])).toEqual(["a.png", "b.png"]);
+  });
+});
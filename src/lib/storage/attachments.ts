@@ -0,0 +1,31 @@
+import type { BaseMessage } from "@langchain/core/messages";
+
+/**
+ * S3 keys of the files attached to messages. Attachments are stored as content items
+ * carrying `file_metadata` (see processAttachmentsForAI).
+ */
+export function collectAttachmentKeys(messages: BaseMessage[]): Set<string> {
+  const keys = new Set<string>();
+  for (const message of messages) {
+    if (!Array.isArray(message.content)) continue;
+    for (const item of message.content) {
+      const key = (item as { file_metadata?: { key?: unknown } }).file_metadata?.key;
+      if (typeof key === "string" && key) keys.add(key);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Keys of a thread's attachments that no other thread references. A fork copies the
+ * messages of its source, attachments included, so both show the same files.
+ * @param messages The messages of the thread, on every branch
+ * @param otherThreads The messages of each other thread that may share its files
+ */
+export function findUnsharedAttachmentKeys(
+  messages: BaseMessage[],
+  otherThreads: BaseMessage[][],
+): string[] {
+  const shared = collectAttachmentKeys(otherThreads.flat());
+  return [...collectAttachmentKeys(messages)].filter((key) => !shared.has(key));
+}
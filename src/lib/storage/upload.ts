@@ -1,4 +1,4 @@
-import { PutObjectCommand, GetObjectCommand } from "@aws-sdk/client-s3";
+import { PutObjectCommand, GetObjectCommand, DeleteObjectsCommand } from "@aws-sdk/client-s3";
 import { Upload } from "@aws-sdk/lib-storage";
 import { getS3Client, BUCKET_NAME } from "./s3-client";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
@@ -137,6 +137,28 @@ export async function getFile(key: string): Promise<Buffer> {
   return Buffer.concat(chunks);
 }
 
+/**
+ * Delete files from S3/MinIO
+ * @param keys File keys in bucket
+ */
+export async function deleteFiles(keys: string[]): Promise<void> {
+  // DeleteObjects accepts at most 1000 keys per request
+  for (let i = 0; i < keys.length; i += 1000) {
+    const command = new DeleteObjectsCommand({
+      Bucket: BUCKET_NAME,
+      Delete: {
+        Objects: keys.slice(i, i + 1000).map((key) => ({ Key: key })),
+        Quiet: true,
+      },
+    });
+
+    const response = await getS3Client().send(command);
+    if (response.Errors?.length) {
+      throw new Error(`Failed to delete ${response.Errors.length} file(s)`);
+    }
+  }
+}
+
 /**
  * Generate a presigned URL for private file access
  * @param key File key in bucket
@@ -1,4 +1,70 @@
+import {
+  Prisma,
+  type Thread as ThreadRecord,
+  type ThreadSettings as ThreadSettingsRecord,
+} from "@prisma/client";
 import prisma from "@/lib/database/prisma";
+import {
+  type BaseMessage,
+  HumanMessage,
+  isAIMessage,
+  SystemMessage,
+} from "@langchain/core/messages";
+import {
+  forkCheckpoint,
+  getCheckpointLinks,
+  getCheckpointMessageIds,
+  getHistory,
+  setupCheckpointer,
+} from "@/lib/agent/memory";
+import { findBranchTips, findMessageCheckpoint, getCheckpointChain } from "@/lib/agent/branches";
+import { indexThreadMessages } from "@/lib/search";
+import { decodeCursor, encodeCursor, pinnedKeysetWhere } from "@/lib/pagination";
+import { getAgentProfile } from "@/lib/agent/profiles";
+import { resolveChatModel } from "@/lib/agent/providers";
+import { computeCost } from "@/lib/agent/pricing";
+import {
+  buildTitleRequest,
+  cleanTitle,
+  getTitleExchange,
+  getTitleModel,
+  isFirstTurn,
+  TITLE_PROMPT,
+} from "@/lib/agent/title";
+import { applyAgentProfile, DEFAULT_MODEL_NAME, DEFAULT_MODEL_PROVIDER } from "@/lib/agent/util";
+import { recordRunUsage } from "@/lib/usage";
+import { deleteFiles } from "@/lib/storage/upload";
+import { collectAttachmentKeys, findUnsharedAttachmentKeys } from "@/lib/storage/attachments";
+import { omitUndefined } from "@/lib/utils";
+import type {
+  Thread,
+  ThreadBulkAction,
+  ThreadFilters,
+  ThreadSettings,
+  ThreadSort,
+  ThreadTag,
+} from "@/types/message";
+import type { GenerationParams } from "@/types/model";
+import type { AgentProfile } from "@/types/profile";
+
+/** Partial settings update, `null` clears a field */
+export type ThreadSettingsUpdate = {
+  [K in keyof ThreadSettings]?: ThreadSettings[K] | null;
+};
+
+export function toThread(record: ThreadRecord): Thread {
+  return {
+    id: record.id,
+    title: record.title,
+    titleSource: record.titleSource,
+    tags: record.tags,
+    pinned: record.pinned,
+    archived: record.archived,
+    folderId: record.folderId,
+    createdAt: record.createdAt.toISOString(),
+    updatedAt: record.updatedAt.toISOString(),
+  };
+}
 
 /**
  * Ensure a thread exists; create if missing. Title derived from seed (first 100 chars) or fallback.
@@ -11,3 +77,420 @@ export async function ensureThread(threadId: string, titleSeed?: string) {
   const title = (titleSeed?.trim() || "New thread").substring(0, 100);
   return prisma.thread.create({ data: { id: threadId, title } });
 }
+
+/**
+ * Name a thread after its first exchange once the first answer is in, using the title
+ * model (see getTitleModel). Only initial titles, the first message or the placeholder,
+ * are replaced: a thread the user renamed keeps its title, even when the rename lands
+ * while the title is being generated. A thread gets a single attempt, made in the turn
+ * of its first answer, so a failed or empty title isn't retried on every later run. The
+ * title call counts towards the usage of the run that answered, `runId`.
+ * Returns the new title, or null when the thread doesn't need one.
+ */
+export async function generateThreadTitle(threadId: string, runId: string): Promise<string | null> {
+  const thread = await prisma.thread.findUnique({ where: { id: threadId } });
+  if (thread?.titleSource !== "initial") return null;
+  const messages = await getHistory(threadId);
+  const exchange = getTitleExchange(messages);
+  if (!exchange) return null;
+
+  // Claim the attempt; the initial title stays until a generated one replaces it
+  const { count: claimed } = await prisma.thread.updateMany({
+    where: { id: threadId, titleSource: "initial" },
+    data: { titleSource: "generated" },
+  });
+  // Threads answered before titles were generated keep their title
+  if (claimed === 0 || !isFirstTurn(messages, exchange)) return null;
+
+  const stored = (await getThreadSettings(threadId)) ?? {};
+  const profile = stored.profileId ? await getAgentProfile(stored.profileId) : null;
+  const settings = profile ? applyAgentProfile(stored, profile) : stored;
+  // The same defaults as createAgent
+  const { model, ...ref } = getTitleModel({
+    provider: settings.provider || DEFAULT_MODEL_PROVIDER,
+    model: settings.model || DEFAULT_MODEL_NAME,
+  });
+
+  const llm = await resolveChatModel({ ...ref, model, temperature: 0, maxTokens: 40 });
+  const response = await llm.invoke([
+    new SystemMessage(TITLE_PROMPT),
+    new HumanMessage(buildTitleRequest(exchange)),
+  ]);
+
+  if (response.usage_metadata) {
+    const { input_tokens, output_tokens, total_tokens } = response.usage_metadata;
+    const usage = { model, inputTokens: input_tokens, outputTokens: output_tokens };
+    await recordRunUsage(runId, threadId, [
+      { ...usage, provider: ref.provider, totalTokens: total_tokens, cost: computeCost(usage) },
+    ]);
+  }
+
+  const title = cleanTitle(response.text);
+  if (!title) return null;
+  const { count } = await prisma.thread.updateMany({
+    where: { id: threadId, titleSource: "generated" },
+    data: { title },
+  });
+  return count > 0 ? title : null;
+}
+
+/** Page of threads requested with listThreads */
+export interface ThreadListOptions extends ThreadFilters {
+  cursor?: string;
+  limit: number;
+  sort: ThreadSort;
+  order: "asc" | "desc";
+}
+
+/**
+ * List a page of threads matching the filters, pinned threads first, then ordered by
+ * `sort` and id. Archived threads are only listed when `archived` is set. The returned
+ * cursor continues the listing with the same sort, order and filters, and is null on
+ * the last page.
+ */
+export async function listThreads(options: ThreadListOptions) {
+  const { limit, sort, order, folderId, tag, q } = options;
+  const filters: Prisma.ThreadWhereInput = {
+    archived: options.archived ?? false,
+    ...(folderId && { folderId: folderId === "none" ? null : folderId }),
+    ...(tag && { tags: { has: tag } }),
+    ...(q && {
+      OR: [
+        { title: { contains: q, mode: "insensitive" } },
+        { id: { contains: q, mode: "insensitive" } },
+      ],
+    }),
+  };
+  const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+  const after = cursor
+    ? pinnedKeysetWhere(
+        sort,
+        order,
+        sort === "title" ? cursor.value : new Date(cursor.value),
+        cursor.id,
+        cursor.pinned ?? false,
+      )
+    : {};
+
+  const [records, total] = await prisma.$transaction([
+    prisma.thread.findMany({
+      where: { AND: [filters, after] },
+      orderBy: [{ pinned: "desc" }, { [sort]: order }, { id: order }],
+      take: limit + 1,
+    }),
+    prisma.thread.count({ where: filters }),
+  ]);
+
+  const threads = records.slice(0, limit);
+  const last = threads[threads.length - 1];
+  const nextCursor =
+    records.length > limit
+      ? encodeCursor({
+          value: sort === "title" ? last.title : last[sort].toISOString(),
+          id: last.id,
+          pinned: last.pinned,
+        })
+      : null;
+  return { threads, nextCursor, total };
+}
+
+/**
+ * Apply one action to several threads at once. Deleting removes the threads with their
+ * checkpoints one by one, as deleteThread does; the other actions update them in a
+ * single statement that keeps their updatedAt. Ids of missing threads are skipped.
+ * @returns The number of threads changed
+ */
+export async function bulkUpdateThreads(bulk: ThreadBulkAction): Promise<number> {
+  const { ids } = bulk;
+  switch (bulk.action) {
+    // Raw statements leave updatedAt alone, so organizing threads doesn't reorder the
+    // list sorted by it
+    case "pin":
+    case "unpin":
+      return prisma.$executeRaw`
+        UPDATE "Thread" SET "pinned" = ${bulk.action === "pin"}
+        WHERE "id" = ANY(${ids}::text[])`;
+    case "archive":
+    case "unarchive":
+      return prisma.$executeRaw`
+        UPDATE "Thread" SET "archived" = ${bulk.action === "archive"}
+        WHERE "id" = ANY(${ids}::text[])`;
+    case "move":
+      return prisma.$executeRaw`
+        UPDATE "Thread" SET "folderId" = ${bulk.folderId}::text
+        WHERE "id" = ANY(${ids}::text[])`;
+    // Tags are merged in SQL, keeping the order they were added in
+    case "addTags":
+      return prisma.$executeRaw`
+        UPDATE "Thread" SET "tags" = ARRAY(
+          SELECT t FROM unnest("tags" || ${bulk.tags}::text[]) WITH ORDINALITY AS u(t, n)
+          GROUP BY t ORDER BY min(n)
+        )
+        WHERE "id" = ANY(${ids}::text[])`;
+    case "removeTags":
+      return prisma.$executeRaw`
+        UPDATE "Thread" SET "tags" = ARRAY(
+          SELECT t FROM unnest("tags") WITH ORDINALITY AS u(t, n)
+          WHERE t <> ALL(${bulk.tags}::text[]) ORDER BY n
+        )
+        WHERE "id" = ANY(${ids}::text[]) AND "tags" && ${bulk.tags}::text[]`;
+    case "delete": {
+      const existing = await prisma.thread.findMany({
+        where: { id: { in: ids } },
+        select: { id: true },
+      });
+      for (const { id } of existing) {
+        await deleteThread(id);
+      }
+      return existing.length;
+    }
+  }
+}
+
+/**
+ * Tags in use across all threads, most used first.
+ */
+export async function listThreadTags(): Promise<ThreadTag[]> {
+  const rows = await prisma.$queryRaw<{ tag: string; count: bigint }[]>`
+    SELECT t AS "tag", COUNT(*) AS "count"
+    FROM "Thread", unnest("tags") AS t
+    GROUP BY t
+    ORDER BY "count" DESC, t ASC`;
+  return rows.map((row) => ({ tag: row.tag, count: Number(row.count) }));
+}
+
+function toThreadSettings(record: ThreadSettingsRecord): ThreadSettings {
+  return {
+    provider: record.provider ?? undefined,
+    model: record.model ?? undefined,
+    systemPrompt: record.systemPrompt ?? undefined,
+    tools: record.tools,
+    approveAllTools: record.approveAllTools,
+    params: (record.params as GenerationParams | null) ?? undefined,
+    fallbacks: (record.fallbacks as ThreadSettings["fallbacks"] | null) ?? undefined,
+    profileId: record.profileId ?? undefined,
+  };
+}
+
+/**
+ * Fetch the stored agent settings of a thread, or null when none were saved yet.
+ */
+export async function getThreadSettings(threadId: string): Promise<ThreadSettings | null> {
+  const record = await prisma.threadSettings.findUnique({ where: { threadId } });
+  return record ? toThreadSettings(record) : null;
+}
+
+/**
+ * Create or update the agent settings of an existing thread. Omitted fields keep their
+ * stored value.
+ */
+export async function updateThreadSettings(
+  threadId: string,
+  update: ThreadSettingsUpdate,
+): Promise<ThreadSettings> {
+  const data = {
+    provider: update.provider,
+    model: update.model,
+    systemPrompt: update.systemPrompt,
+    tools: update.tools === null ? [] : update.tools,
+    approveAllTools: update.approveAllTools === null ? false : update.approveAllTools,
+    params:
+      update.params === null
+        ? Prisma.DbNull
+        : (update.params as Prisma.InputJsonObject | undefined),
+    fallbacks:
+      update.fallbacks === null
+        ? Prisma.DbNull
+        : (update.fallbacks as Prisma.InputJsonArray | undefined),
+    profileId: update.profileId,
+  };
+  const record = await prisma.threadSettings.upsert({
+    where: { threadId },
+    create: { threadId, ...data },
+    update: data,
+  });
+  return toThreadSettings(record);
+}
+
+/** Settings a run uses, see resolveThreadSettings */
+export interface ResolvedThreadSettings {
+  settings: ThreadSettings;
+  profile: AgentProfile | null; // the thread's agent profile, already applied to `settings`
+}
+
+/**
+ * Merge the options of a request over a thread's stored settings. The result is saved
+ * so later runs, and clients reopening the thread, continue with the same configuration.
+ * The thread's agent profile, if any, then fills in what the request leaves out.
+ */
+export async function resolveThreadSettings(
+  threadId: string,
+  overrides: ThreadSettingsUpdate,
+): Promise<ResolvedThreadSettings> {
+  const stored = await getThreadSettings(threadId);
+  const provided = omitUndefined(overrides);
+
+  const profileId = provided.profileId !== undefined ? provided.profileId : stored?.profileId;
+  const profile = profileId ? await getAgentProfile(profileId) : null;
+  if (profileId && !profile) {
+    throw new Error(`Agent profile "${profileId}" not found`);
+  }
+
+  let settings: ThreadSettings = stored ?? {};
+  if (!stored || Object.keys(provided).length > 0) {
+    settings = await updateThreadSettings(threadId, provided);
+  }
+  return {
+    settings: profile ? applyAgentProfile(settings, profile, provided) : settings,
+    profile,
+  };
+}
+
+/** Where a thread is forked at a message, see findForkCheckpoint */
+export interface ForkCheckpoint {
+  checkpointId: string;
+  pendingToolCalls: boolean; // the message is an AI message whose tool calls have no results
+}
+
+/**
+ * Find the checkpoint that ends a thread's conversation at a message, on whichever branch
+ * holds the message. Returns null when the thread has no such message.
+ */
+export async function findForkCheckpoint(
+  threadId: string,
+  messageId: string,
+): Promise<ForkCheckpoint | null> {
+  const links = await getCheckpointLinks(threadId);
+  const countMessages = async (id: string) => (await getCheckpointMessageIds(threadId, id)).length;
+  let checkpointId: string | null = null;
+  for (const tip of findBranchTips(links)) {
+    const position = (await getCheckpointMessageIds(threadId, tip)).indexOf(messageId);
+    if (position === -1) continue;
+    checkpointId = await findMessageCheckpoint(
+      getCheckpointChain(links, tip),
+      position,
+      countMessages,
+    );
+    break;
+  }
+  if (!checkpointId) return null;
+  const messages = await getHistory(threadId, checkpointId);
+  const lastMessage = messages[messages.length - 1];
+  return {
+    checkpointId,
+    pendingToolCalls: !!lastMessage && isAIMessage(lastMessage) && !!lastMessage.tool_calls?.length,
+  };
+}
+
+/**
+ * Copy a thread up to a checkpoint into a new thread titled "Fork of …", together with
+ * its agent settings, tags and folder. The original thread is left untouched.
+ * Returns the Prisma record of the new thread.
+ */
+export async function forkThread(
+  source: Pick<ThreadRecord, "id" | "title" | "tags" | "folderId">,
+  checkpointId: string,
+) {
+  await setupCheckpointer();
+  const settings = await prisma.threadSettings.findUnique({ where: { threadId: source.id } });
+  const thread = await prisma.thread.create({
+    data: {
+      title: `Fork of ${source.title}`.substring(0, 100),
+      // The fork's title is deliberate, a generated title mustn't replace it
+      titleSource: "manual",
+      tags: source.tags,
+      folderId: source.folderId,
+      settings: settings
+        ? {
+            create: {
+              provider: settings.provider,
+              model: settings.model,
+              systemPrompt: settings.systemPrompt,
+              tools: settings.tools,
+              approveAllTools: settings.approveAllTools,
+              params: (settings.params as Prisma.InputJsonObject | null) ?? Prisma.DbNull,
+              fallbacks: (settings.fallbacks as Prisma.InputJsonArray | null) ?? Prisma.DbNull,
+              profileId: settings.profileId,
+            },
+          }
+        : undefined,
+    },
+  });
+
+  try {
+    await forkCheckpoint(source.id, checkpointId, thread.id);
+  } catch (error) {
+    await prisma.thread.delete({ where: { id: thread.id } });
+    throw error;
+  }
+  try {
+    await indexThreadMessages(thread.id);
+  } catch (error) {
+    console.error(`Failed to index messages of thread ${thread.id}:`, error);
+  }
+  return thread;
+}
+
+/**
+ * Delete a thread together with its LangGraph checkpoints in a single transaction.
+ * With `deleteAttachments`, files uploaded to the thread are removed from S3 once the
+ * rows are gone, except those a fork or the forked thread still shows; a storage failure is logged rather than failing the deletion.
+ */
+export async function deleteThread(
+  threadId: string,
+  options: { deleteAttachments?: boolean } = {},
+): Promise<void> {
+  // The checkpoint tables only exist once the checkpointer has been set up
+  await setupCheckpointer();
+
+  const attachmentKeys = options.deleteAttachments ? await getAttachmentKeys(threadId) : [];
+
+  await prisma.$transaction([
+    prisma.$executeRaw`DELETE FROM checkpoint_writes WHERE thread_id = ${threadId}`,
+    prisma.$executeRaw`DELETE FROM checkpoint_blobs WHERE thread_id = ${threadId}`,
+    prisma.$executeRaw`DELETE FROM checkpoints WHERE thread_id = ${threadId}`,
+    prisma.thread.delete({ where: { id: threadId } }),
+  ]);
+
+  if (attachmentKeys.length > 0) {
+    try {
+      await deleteFiles(attachmentKeys);
+    } catch (error) {
+      console.error(`Failed to delete attachments of thread ${threadId}:`, error);
+    }
+  }
+}
+
+/**
+ * The messages of a thread on every branch. Messages are only ever appended, so the
+ * latest checkpoint of each branch holds them all.
+ */
+async function getBranchMessages(threadId: string): Promise<BaseMessage[]> {
+  const messages: BaseMessage[] = [];
+  for (const checkpointId of findBranchTips(await getCheckpointLinks(threadId))) {
+    messages.push(...(await getHistory(threadId, checkpointId)));
+  }
+  return messages;
+}
+
+/**
+ * Collect the S3 keys of files attached to the thread's messages that no other thread
+ * shows, e.g. a fork of the thread or the thread it was forked from.
+ */
+async function getAttachmentKeys(threadId: string): Promise<string[]> {
+  const messages = await getBranchMessages(threadId);
+  const keys = [...collectAttachmentKeys(messages)];
+  if (keys.length === 0) return [];
+
+  // Messages are stored as JSON, so other threads whose messages name a key can be found
+  // without loading them; their messages then tell which keys they really reference.
+  const rows = await prisma.$queryRaw<{ thread_id: string }[]>`
+    SELECT DISTINCT b.thread_id FROM checkpoint_blobs b, unnest(${keys}::text[]) AS k(key)
+    WHERE b.thread_id <> ${threadId} AND b.channel = 'messages'
+      AND position(convert_to(k.key, 'UTF8') IN b.blob) > 0`;
+  const otherThreads: BaseMessage[][] = [];
+  for (const row of rows) {
+    otherThreads.push(await getBranchMessages(row.thread_id));
+  }
+  return findUnsharedAttachmentKeys(messages, otherThreads);
+}
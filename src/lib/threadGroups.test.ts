@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import type { Thread } from "@/types/message";
+import { groupThreads, type ThreadRow } from "./threadGroups";
+
+function thread(id: string, fields: Partial<Thread> = {}): Thread {
+  return {
+    id,
+    title: id,
+    tags: [],
+    pinned: false,
+    archived: false,
+    folderId: null,
+    createdAt: "2026-10-19T12:00:00.000Z",
+    updatedAt: "2026-10-19T12:00:00.000Z",
+    ...fields,
+  };
+}
+
+function layout(rows: ThreadRow[]) {
+  return rows.map((row) =>
+    row.kind === "header" ? `# ${row.label} (${row.count})` : row.thread.id,
+  );
+}
+
+describe("groupThreads", () => {
+  it("should list threads as they are without grouping", () => {
+    const threads = [thread("a", { pinned: true }), thread("b")];
+    expect(layout(groupThreads(threads, "none"))).toEqual(["a", "b"]);
+  });
+
+  it("should put pinned threads under their own heading", () => {
+    const threads = [thread("a", { pinned: true }), thread("b"), thread("c")];
+    expect(layout(groupThreads(threads, "pinned"))).toEqual([
+      "# Pinned (1)",
+      "a",
+      "# Threads (2)",
+      "b",
+      "c",
+    ]);
+  });
+
+  it("should skip headings when nothing is pinned", () => {
+    expect(layout(groupThreads([thread("a"), thread("b")], "pinned"))).toEqual(["a", "b"]);
+  });
+
+  it("should group by folder name with unfiled threads last", () => {
+    const folders = new Map([
+      ["f1", "Work"],
+      ["f2", "Travel"],
+    ]);
+    const threads = [
+      thread("a"),
+      thread("b", { folderId: "f1" }),
+      thread("c", { folderId: "f2" }),
+      thread("d", { folderId: "f1" }),
+    ];
+    expect(layout(groupThreads(threads, "folder", folders))).toEqual([
+      "# Travel (1)",
+      "c",
+      "# Work (2)",
+      "b",
+      "d",
+      "# No folder (1)",
+      "a",
+    ]);
+  });
+});
@@ -0,0 +1,56 @@
+import type { Thread } from "@/types/message";
+
+export type ThreadGrouping = "pinned" | "folder" | "none";
+
+/** A row of the grouped thread list: a group heading or a thread */
+export type ThreadRow =
+  | { kind: "header"; key: string; label: string; count: number }
+  | { kind: "thread"; thread: Thread };
+
+/**
+ * Lays out listed threads as rows under group headings, keeping the listing's order
+ * within each group. Pinned grouping only adds headings when some threads are pinned;
+ * folder grouping orders folders by name, threads outside folders last.
+ * @param folderNames Names of the folders by id, unknown folders are labeled "Folder"
+ */
+export function groupThreads(
+  threads: Thread[],
+  grouping: ThreadGrouping,
+  folderNames: Map<string, string> = new Map(),
+): ThreadRow[] {
+  if (grouping === "none") {
+    return threads.map((thread) => ({ kind: "thread", thread }));
+  }
+
+  const groups = new Map<string, { label: string; threads: Thread[] }>();
+  for (const thread of threads) {
+    const [key, label] =
+      grouping === "pinned"
+        ? thread.pinned
+          ? ["pinned", "Pinned"]
+          : ["other", "Threads"]
+        : thread.folderId
+          ? [thread.folderId, folderNames.get(thread.folderId) ?? "Folder"]
+          : ["none", "No folder"];
+    const group = groups.get(key) ?? { label, threads: [] };
+    group.threads.push(thread);
+    groups.set(key, group);
+  }
+
+  if (grouping === "pinned" && !groups.has("pinned")) {
+    return threads.map((thread) => ({ kind: "thread", thread }));
+  }
+  const keys = [...groups.keys()];
+  const rank = (key: string) => (key === "pinned" ? 0 : key === "other" || key === "none" ? 2 : 1);
+  keys.sort(
+    (a, b) => rank(a) - rank(b) || groups.get(a)!.label.localeCompare(groups.get(b)!.label),
+  );
+
+  return keys.flatMap((key) => {
+    const { label, threads: grouped } = groups.get(key)!;
+    return [
+      { kind: "header" as const, key, label, count: grouped.length },
+      ...grouped.map((thread) => ({ kind: "thread" as const, thread })),
+    ];
+  });
+}
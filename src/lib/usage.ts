@@ -0,0 +1,100 @@
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/database/prisma";
+import type { TokenUsage, UsageGroupBy, UsageReport, UsageTotals } from "@/types/usage";
+
+/** Filters of a usage report; `from` is inclusive, `to` exclusive */
+export interface UsageQuery {
+  threadId?: string;
+  from?: Date;
+  to?: Date;
+  groupBy?: UsageGroupBy;
+}
+
+// Grouping expressions, days are UTC
+const GROUP_KEYS: Record<UsageGroupBy, Prisma.Sql> = {
+  model: Prisma.sql`"model"`,
+  provider: Prisma.sql`"provider"`,
+  thread: Prisma.sql`"threadId"`,
+  day: Prisma.sql`to_char(date_trunc('day', "createdAt"), 'YYYY-MM-DD')`,
+};
+
+type UsageRow = {
+  key: string | null;
+  runs: bigint;
+  inputTokens: bigint;
+  outputTokens: bigint;
+  totalTokens: bigint;
+  cost: number;
+  unpricedRuns: bigint;
+};
+
+/**
+ * Saves the tokens each model spent during a run, one row per model.
+ */
+export async function recordRunUsage(
+  runId: string,
+  threadId: string,
+  usage: TokenUsage[],
+): Promise<void> {
+  if (usage.length === 0) return;
+  await prisma.runUsage.createMany({
+    data: usage.map((entry) => ({
+      runId,
+      threadId,
+      provider: entry.provider,
+      model: entry.model,
+      inputTokens: entry.inputTokens,
+      outputTokens: entry.outputTokens,
+      totalTokens: entry.totalTokens,
+      cost: entry.cost ?? null,
+    })),
+  });
+}
+
+function toTotals(row?: UsageRow): UsageTotals {
+  return {
+    runs: Number(row?.runs ?? 0),
+    inputTokens: Number(row?.inputTokens ?? 0),
+    outputTokens: Number(row?.outputTokens ?? 0),
+    totalTokens: Number(row?.totalTokens ?? 0),
+    cost: row?.cost ?? 0,
+    unpricedRuns: Number(row?.unpricedRuns ?? 0),
+  };
+}
+
+/**
+ * Sums the recorded usage matching the query, optionally broken down by model, provider,
+ * thread or day. A run that fell back to another model counts once in the totals.
+ */
+export async function getUsageReport(query: UsageQuery = {}): Promise<UsageReport> {
+  const conditions: Prisma.Sql[] = [];
+  if (query.threadId) conditions.push(Prisma.sql`"threadId" = ${query.threadId}`);
+  if (query.from) conditions.push(Prisma.sql`"createdAt" >= ${query.from}`);
+  if (query.to) conditions.push(Prisma.sql`"createdAt" < ${query.to}`);
+  const where = conditions.length
+    ? Prisma.sql`WHERE ${Prisma.join(conditions, " AND ")}`
+    : Prisma.empty;
+  const key = query.groupBy ? GROUP_KEYS[query.groupBy] : Prisma.sql`NULL`;
+
+  const rows = await prisma.$queryRaw<UsageRow[]>`
+    SELECT ${key} AS "key",
+      COUNT(DISTINCT "runId") AS "runs",
+      COALESCE(SUM("inputTokens"), 0) AS "inputTokens",
+      COALESCE(SUM("outputTokens"), 0) AS "outputTokens",
+      COALESCE(SUM("totalTokens"), 0) AS "totalTokens",
+      COALESCE(SUM("cost"), 0)::float8 AS "cost",
+      COUNT(DISTINCT "runId") FILTER (WHERE "cost" IS NULL) AS "unpricedRuns"
+    FROM "RunUsage"
+    ${where}
+    GROUP BY 1
+    ORDER BY "cost" DESC, "totalTokens" DESC`;
+
+  if (!query.groupBy) {
+    return { totals: toTotals(rows[0]) };
+  }
+  const groups = rows.map((row) => ({ key: row.key, ...toTotals(row) }));
+  const totals = (
+    await getUsageReport({ threadId: query.threadId, from: query.from, to: query.to })
+  ).totals;
+  return { totals, groups };
+}
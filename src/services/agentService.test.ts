@@ -2,7 +2,17 @@ import { describe, it, expect } from "vitest";
 
 // Define StreamChunk type locally to avoid importing agentService which has side effects
 interface StreamChunk {
-  type: "token" | "tool_call" | "tool_result" | "done" | "error";
+  type:
+    | "token"
+    | "tool_call"
+    | "tool_result"
+    | "interrupt"
+    | "model"
+    | "summary"
+    | "usage"
+    | "title"
+    | "done"
+    | "error";
   content?: string;
   toolCall?: {
     name: string;
@@ -11,10 +21,27 @@ interface StreamChunk {
     type: string;
   };
   toolResult?: { name: string; content: string };
+  interrupt?: { question: string; toolCalls: ToolCall[] };
+  model?: { provider: string; model: string; fallback: boolean };
+  summary?: string;
+  usage?: TokenUsage;
+  title?: string;
   error?: string;
   messageId?: string;
 }
 
+type SummaryUpdate = { summary?: string; summarizedThroughId?: string };
+
+interface TokenUsage {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+type UsageEvent = { usage?: TokenUsage; messageId?: string };
+
 // Define ToolCall type locally
 interface ToolCall {
   name: string;
@@ -30,6 +57,7 @@ interface ToolCall {
 async function* tokenGenerator(
   iterable: AsyncIterable<unknown>,
 ): AsyncGenerator<StreamChunk, void, unknown> {
+  const reportedMessageIds = new Set<string>();
   for await (const chunk of iterable) {
     if (!chunk) continue;
 
@@ -37,6 +65,37 @@ async function* tokenGenerator(
     if (Array.isArray(chunk) && chunk.length === 2) {
       const [chunkType, chunkData] = chunk;
 
+      // Handle custom mode: the agent reports the tokens of every model call
+      if (chunkType === "custom") {
+        const event = chunkData as UsageEvent | undefined;
+        if (event?.usage) {
+          yield { type: "usage", usage: event.usage, messageId: event.messageId };
+        }
+        continue;
+      }
+
+      // Handle updates mode: only interrupts and summaries are forwarded
+      if (chunkType === "updates" && chunkData && typeof chunkData === "object") {
+        const interrupts = (chunkData as Record<string, unknown>)["__interrupt__"];
+        // The summarize node folded older messages into the running summary
+        const summarized = (chunkData as Record<string, SummaryUpdate | undefined>).summarize;
+        if (summarized?.summarizedThroughId) {
+          yield {
+            type: "summary",
+            summary: summarized.summary,
+            messageId: summarized.summarizedThroughId,
+          };
+        }
+        if (Array.isArray(interrupts)) {
+          for (const item of interrupts) {
+            if (item?.value) {
+              yield { type: "interrupt", interrupt: item.value };
+            }
+          }
+        }
+        continue;
+      }
+
       if (chunkType === "messages" && Array.isArray(chunkData) && chunkData.length >= 1) {
         const message = chunkData[0];
         if (!message) continue;
@@ -51,6 +110,25 @@ async function* tokenGenerator(
           const aiMessage = message as any;
           const content = aiMessage.content;
 
+          // Metadata set by the agent's fallback chain
+          const metadata = (chunkData[1] || {}) as Record<string, unknown>;
+          if (
+            typeof metadata.agent_model === "string" &&
+            aiMessage.id &&
+            !reportedMessageIds.has(aiMessage.id)
+          ) {
+            reportedMessageIds.add(aiMessage.id);
+            yield {
+              type: "model",
+              model: {
+                provider: String(metadata.agent_provider),
+                model: metadata.agent_model,
+                fallback: metadata.agent_fallback === true,
+              },
+              messageId: aiMessage.id,
+            };
+          }
+
           // Extract text content - can be string or array of content items
           if (typeof content === "string" && content) {
             yield { type: "token", content, messageId: aiMessage.id };
@@ -348,6 +426,121 @@ describe("tokenGenerator", () => {
     });
   });
 
+  describe("answering model reporting", () => {
+    it("should yield a model chunk once per AI message", async () => {
+      const metadata = { agent_provider: "openai", agent_model: "gpt-4o-mini", agent_fallback: true };
+      const iterable = createMockIterable([
+        ["messages", [createMockAIMessageChunk("Hello", { id: "msg-1" }), metadata]],
+        ["messages", [createMockAIMessageChunk(" World", { id: "msg-1" }), metadata]],
+      ]);
+
+      const results: StreamChunk[] = [];
+      for await (const chunk of tokenGenerator(iterable)) {
+        results.push(chunk);
+      }
+
+      expect(results.map((r) => r.type)).toEqual(["model", "token", "token"]);
+      expect(results[0].model).toEqual({ provider: "openai", model: "gpt-4o-mini", fallback: true });
+      expect(results[0].messageId).toBe("msg-1");
+    });
+
+    it("should not yield a model chunk without fallback chain metadata", async () => {
+      const iterable = createMockIterable([
+        ["messages", [createMockAIMessageChunk("Hello", { id: "msg-1" }), { langgraph_node: "agent" }]],
+      ]);
+
+      const results: StreamChunk[] = [];
+      for await (const chunk of tokenGenerator(iterable)) {
+        results.push(chunk);
+      }
+
+      expect(results.map((r) => r.type)).toEqual(["token"]);
+    });
+  });
+
+  describe("interrupt handling", () => {
+    it("should yield interrupt chunk for __interrupt__ updates", async () => {
+      const request = {
+        question: "Do you approve these tool calls?",
+        toolCalls: [
+          { name: "read_file", args: { path: "/a.txt" }, id: "call-1", type: "tool_call" },
+          { name: "write_file", args: { path: "/b.txt" }, id: "call-2", type: "tool_call" },
+        ],
+      };
+      const iterable = createMockIterable([
+        ["updates", { __interrupt__: [{ id: "interrupt-1", value: request }] }],
+      ]);
+
+      const results: StreamChunk[] = [];
+      for await (const chunk of tokenGenerator(iterable)) {
+        results.push(chunk);
+      }
+
+      expect(results).toHaveLength(1);
+      expect(results[0].type).toBe("interrupt");
+      expect(results[0].interrupt?.toolCalls.map((tc) => tc.id)).toEqual(["call-1", "call-2"]);
+    });
+
+    it("should ignore regular node updates", async () => {
+      const iterable = createMockIterable([
+        ["updates", { agent: { messages: [createMockAIMessageChunk("Hello")] } }],
+        ["updates", { __interrupt__: [] }],
+      ]);
+
+      const results: StreamChunk[] = [];
+      for await (const chunk of tokenGenerator(iterable)) {
+        results.push(chunk);
+      }
+
+      expect(results).toHaveLength(0);
+    });
+  });
+
+  describe("summary reporting", () => {
+    it("should yield a summary chunk for summarize node updates", async () => {
+      const iterable = createMockIterable([
+        ["updates", { summarize: { summary: "User asked about X.", summarizedThroughId: "msg-4" } }],
+        ["updates", { summarize: {} }],
+      ]);
+
+      const results: StreamChunk[] = [];
+      for await (const chunk of tokenGenerator(iterable)) {
+        results.push(chunk);
+      }
+
+      expect(results).toEqual([
+        { type: "summary", summary: "User asked about X.", messageId: "msg-4" },
+      ]);
+    });
+  });
+
+  describe("usage reporting", () => {
+    it("should yield a usage chunk for every model call", async () => {
+      const usage = {
+        provider: "openai",
+        model: "gpt-4o-mini",
+        inputTokens: 120,
+        outputTokens: 30,
+        totalTokens: 150,
+      };
+      const iterable = createMockIterable([
+        ["custom", { usage, messageId: "msg-1" }],
+        ["custom", { usage }],
+        ["custom", { progress: 0.5 }],
+      ]);
+
+      const results: StreamChunk[] = [];
+      for await (const chunk of tokenGenerator(iterable)) {
+        results.push(chunk);
+      }
+
+      expect(results).toEqual([
+        { type: "usage", usage, messageId: "msg-1" },
+        { type: "usage", usage, messageId: undefined },
+      ]);
+    });
+  });
+
   describe("edge cases and error handling", () => {
     it("should skip null chunks", async () => {
       const iterable = createMockIterable([null, undefined]);
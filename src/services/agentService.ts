@@ -1,101 +1,285 @@
 import { ensureAgent } from "@/lib/agent";
-import { ensureThread } from "@/lib/thread";
-import { getHistory } from "@/lib/agent/memory";
-import type { MessageOptions, ToolCall } from "@/types/message";
-import { HumanMessage } from "@langchain/core/messages";
-import { Command } from "@langchain/langgraph";
+import { ensureThread, resolveThreadSettings } from "@/lib/thread";
+import { recordRunUsage } from "@/lib/usage";
+import { indexThreadMessages } from "@/lib/search";
+import { computeCost } from "@/lib/agent/pricing";
+import {
+  getCheckpointLinks,
+  getCheckpointMessageIds,
+  getHistory,
+  getPendingInterrupts,
+  getSummaryState,
+  hasCheckpoint,
+} from "@/lib/agent/memory";
+import {
+  buildMessageBranches,
+  findBranchTips,
+  findParentCheckpoint,
+  getCheckpointChain,
+} from "@/lib/agent/branches";
+import { findUnansweredToolCalls } from "@/lib/agent/toolCalls";
+import type {
+  AnsweringModel,
+  ConversationSummary,
+  MessageBranch,
+  MessageOptions,
+  MessageResponse,
+  ToolApprovalRequest,
+  ToolCall,
+  ToolReviewDecisions,
+} from "@/types/message";
+import type { TokenUsage } from "@/types/usage";
+import { BaseMessage, HumanMessage, ToolMessage } from "@langchain/core/messages";
+import { Command, INTERRUPT } from "@langchain/langgraph";
 import { processAttachmentsForAI } from "@/lib/storage/content";
 
 /**
  * Token-level streaming chunk type
  */
 export interface StreamChunk {
-  type: "token" | "tool_call" | "tool_result" | "done" | "error";
+  type:
+    | "token"
+    | "tool_call"
+    | "tool_result"
+    | "interrupt"
+    | "model"
+    | "summary"
+    | "usage"
+    | "title"
+    | "done"
+    | "error";
   content?: string;
   toolCall?: ToolCall;
   toolResult?: { name: string; content: string };
+  interrupt?: ToolApprovalRequest;
+  model?: AnsweringModel;
+  summary?: string; // running summary, messageId is the last message it covers
+  usage?: TokenUsage; // tokens of one model call, messageId is the AI message it produced
+  title?: string; // title generated for the thread, sent after "done"
   error?: string;
   messageId?: string;
 }
 
+/** State update of the agent's summarize node */
+type SummaryUpdate = { summary?: string; summarizedThroughId?: string };
+
+/** Custom stream event written by the agent after each model call */
+type UsageEvent = { usage?: TokenUsage; messageId?: string };
+
 /**
  * Returns an async iterable producing incremental token chunks for streaming.
- * Thread is ensured before streaming.
+ * Thread is ensured before streaming, and its stored settings fill in the options the
+ * request leaves out. Aborting `signal` stops the LangGraph run and
+ * settles the thread checkpoint so the next turn starts from a valid state.
+ * With `opts.checkpointId` the run continues from that checkpoint rather than the latest
+ * one, forking a new branch: regenerating an answer re-runs the checkpoint before it,
+ * editing a message sends the new text from the checkpoint before the original.
  */
 export async function streamResponse(params: {
   threadId: string;
   userText: string;
   opts?: MessageOptions;
+  signal?: AbortSignal;
+  runId?: string; // the run's usage is recorded under it, see recordRunUsage
 }) {
-  const { threadId, userText, opts } = params;
-  await ensureThread(threadId, userText);
-
-  // If allowTool is present, use Command with resume action instead of regular inputs
-  if (opts?.allowTool) {
-    const inputs = new Command({
-      resume: {
-        action: opts.allowTool === "allow" ? "continue" : "update",
-        data: {},
-      },
-    });
+  const { threadId, userText, opts, signal, runId = crypto.randomUUID() } = params;
+  const thread = await ensureThread(threadId, userText);
+  const checkpointId = opts?.checkpointId;
+  if (checkpointId && !(await hasCheckpoint(threadId, checkpointId))) {
+    throw new Error(`Checkpoint "${checkpointId}" not found`);
+  }
 
-    const agent = await ensureAgent({
-      model: opts?.model,
-      provider: opts?.provider,
-      tools: opts?.tools,
-      approveAllTools: opts?.approveAllTools,
-    });
+  // Options sent with the request replace the thread's stored settings and its profile
+  const { settings, profile } = await resolveThreadSettings(threadId, {
+    provider: opts?.provider,
+    model: opts?.model,
+    systemPrompt: opts?.systemPrompt,
+    tools: opts?.tools,
+    approveAllTools: opts?.approveAllTools,
+    params: opts?.params,
+    fallbacks: opts?.fallbacks,
+    profileId: opts?.profileId,
+  });
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const iterable = await agent.stream(inputs as any, {
-      streamMode: ["messages"],
-      configurable: { thread_id: threadId },
+  const agent = await ensureAgent({
+    model: settings.model,
+    provider: settings.provider,
+    systemPrompt: settings.systemPrompt,
+    fallbacks: settings.fallbacks,
+    params: settings.params,
+    tools: settings.tools,
+    approveAllTools: settings.approveAllTools,
+    mcpServerIds: profile?.mcpServerIds,
+    toolPolicy: profile?.toolPolicy,
+  });
+
+  // If a tool review is present, use Command with resume action instead of regular inputs
+  let inputs: Command | { messages: HumanMessage[] } | null;
+  if (opts?.toolDecisions || opts?.allowTool) {
+    inputs = new Command({
+      resume:
+        opts.toolDecisions || (await blanketToolDecisions(threadId, opts.allowTool!, checkpointId)),
     });
+  } else if (opts?.regenerate) {
+    // No input resumes the graph from the checkpoint, running the model again
+    inputs = null;
+  } else {
+    // Build multimodal message with attachments
+    let messageContent:
+      | string
+      | Array<{ type: string; text?: string; image_url?: { url: string } }>;
+
+    if (opts?.attachments && opts.attachments.length > 0) {
+      const attachmentContents = await processAttachmentsForAI(opts.attachments);
+      messageContent = [{ type: "text", text: userText }, ...attachmentContents];
+    } else {
+      messageContent = userText;
+    }
 
-    return tokenGenerator(iterable);
+    inputs = {
+      messages: [new HumanMessage({ content: messageContent })],
+    };
   }
 
-  // Build multimodal message with attachments
-  let messageContent: string | Array<{ type: string; text?: string; image_url?: { url: string } }>;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const iterable = await agent.stream(inputs as any, {
+    streamMode: ["messages", "updates", "custom"],
+    // thread_title and user_name are read by the system prompt template
+    configurable: {
+      thread_id: threadId,
+      ...(checkpointId ? { checkpoint_id: checkpointId } : {}),
+      thread_title: thread.title,
+      user_name: opts?.userName,
+    },
+    signal,
+  });
 
-  if (opts?.attachments && opts.attachments.length > 0) {
-    const attachmentContents = await processAttachmentsForAI(opts.attachments);
-    messageContent = [{ type: "text", text: userText }, ...attachmentContents];
-  } else {
-    messageContent = userText;
-  }
+  return cancellableTokenGenerator(agent, threadId, runId, iterable, signal);
+}
 
-  const inputs = {
-    messages: [new HumanMessage({ content: messageContent })],
-  };
+type Agent = Awaited<ReturnType<typeof ensureAgent>>;
 
-  const agent = await ensureAgent({
-    model: opts?.model,
-    provider: opts?.provider,
-    tools: opts?.tools,
-    approveAllTools: opts?.approveAllTools,
-  });
+/**
+ * Wraps tokenGenerator so that a cancelled run ends quietly and leaves a consistent
+ * checkpoint behind instead of surfacing the abort as a stream error. Usage chunks get
+ * their cost, and however the run ends its usage is recorded and the thread's messages
+ * are indexed for search.
+ */
+async function* cancellableTokenGenerator(
+  agent: Agent,
+  threadId: string,
+  runId: string,
+  iterable: AsyncIterable<unknown>,
+  signal?: AbortSignal,
+): AsyncGenerator<StreamChunk, void, unknown> {
+  const usageByModel = new Map<string, TokenUsage>();
+  try {
+    for await (const chunk of tokenGenerator(iterable)) {
+      if (chunk.type === "usage" && chunk.usage) {
+        const usage = { ...chunk.usage, cost: computeCost(chunk.usage) };
+        addUsage(usageByModel, usage);
+        yield { ...chunk, usage };
+      } else {
+        yield chunk;
+      }
+    }
+  } catch (error) {
+    if (!signal?.aborted) throw error;
+    await settleCancelledRun(agent, threadId);
+  } finally {
+    try {
+      await recordRunUsage(runId, threadId, [...usageByModel.values()]);
+    } catch (error) {
+      console.error(`Failed to record usage of thread ${threadId}:`, error);
+    }
+    try {
+      await indexThreadMessages(threadId);
+    } catch (error) {
+      console.error(`Failed to index messages of thread ${threadId}:`, error);
+    }
+  }
+}
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const iterable = await agent.stream(inputs as any, {
-    streamMode: ["messages"],
-    configurable: { thread_id: threadId },
+/**
+ * Adds the usage of a model call to the run's per-model totals.
+ */
+function addUsage(usageByModel: Map<string, TokenUsage>, usage: TokenUsage) {
+  const key = `${usage.provider}/${usage.model}`;
+  const total = usageByModel.get(key);
+  if (!total) {
+    usageByModel.set(key, usage);
+    return;
+  }
+  usageByModel.set(key, {
+    ...total,
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+    cost: total.cost != null && usage.cost != null ? total.cost + usage.cost : null,
   });
+}
+
+/**
+ * LangGraph only checkpoints completed steps, so a run stopped while tools execute
+ * leaves tool calls that never got a result, which the model APIs reject on the next
+ * turn. Answer those calls with a cancellation notice; calls already answered, e.g. by
+ * review feedback for denied tools, keep their result.
+ */
+async function settleCancelledRun(agent: Agent, threadId: string) {
+  const config = { configurable: { thread_id: threadId } };
+  try {
+    const state = await agent.getState(config);
+    const messages: BaseMessage[] = state.values?.messages || [];
+    const unanswered = findUnansweredToolCalls(messages);
+    if (unanswered.length === 0) return;
 
-  return tokenGenerator(iterable);
+    const cancelledMessages = unanswered.map(
+      (toolCall) =>
+        new ToolMessage({
+          content: "The run was cancelled by the user before this tool call finished.",
+          name: toolCall.name,
+          tool_call_id: toolCall.id!,
+          status: "error",
+        }),
+    );
+    await agent.updateState(config, { messages: cancelledMessages }, "tools");
+  } catch (error) {
+    console.error("Failed to settle cancelled run:", error);
+  }
 }
 
+/**
+ * Expands a legacy `allowTool` value into one decision per pending tool call.
+ */
+async function blanketToolDecisions(
+  threadId: string,
+  allowTool: "allow" | "deny",
+  checkpointId?: string,
+): Promise<ToolReviewDecisions> {
+  const interrupts = await getPendingInterrupts<ToolApprovalRequest>(threadId, checkpointId);
+  const decisions: ToolReviewDecisions = {};
+  for (const toolCall of interrupts.flatMap((i) => i?.toolCalls || [])) {
+    decisions[toolCall.id] =
+      allowTool === "allow" ? { action: "continue" } : { action: "feedback" };
+  }
+  return decisions;
+}
 
 /**
  * Token-level generator for streaming responses.
- * Handles LangGraph's ["messages", [AIMessageChunk/ToolMessage, metadata]] format.
+ * Handles LangGraph's ["messages", [AIMessageChunk/ToolMessage, metadata]] format and
+ * surfaces interrupts from ["updates", { __interrupt__: [...] }] chunks, summaries from
+ * the summarize node's updates and the token usage of model calls from ["custom", {...}]
+ * events. The first chunk of every AI message is preceded by a "model" chunk naming the
+ * model that produced it.
  *
  * @param iterable - The async iterable from LangGraph agent.stream()
- * @yields StreamChunk objects for each token, tool call, or tool result
+ * @yields StreamChunk objects for each token, tool call, tool result, or interrupt
  */
 async function* tokenGenerator(
   iterable: AsyncIterable<unknown>,
 ): AsyncGenerator<StreamChunk, void, unknown> {
+  const reportedMessageIds = new Set<string>();
   for await (const chunk of iterable) {
     if (!chunk) continue;
 
@@ -103,6 +287,38 @@ async function* tokenGenerator(
     if (Array.isArray(chunk) && chunk.length === 2) {
       const [chunkType, chunkData] = chunk;
 
+      // Handle custom mode: the agent reports the tokens of every model call
+      if (chunkType === "custom") {
+        const event = chunkData as UsageEvent | undefined;
+        if (event?.usage) {
+          yield { type: "usage", usage: event.usage, messageId: event.messageId };
+        }
+        continue;
+      }
+
+      // Handle updates mode: only interrupts and summaries are forwarded, message updates
+      // are already covered by the messages stream
+      if (chunkType === "updates" && chunkData && typeof chunkData === "object") {
+        const interrupts = (chunkData as Record<string, unknown>)[INTERRUPT];
+        // The summarize node folded older messages into the running summary
+        const summarized = (chunkData as Record<string, SummaryUpdate | undefined>).summarize;
+        if (summarized?.summarizedThroughId) {
+          yield {
+            type: "summary",
+            summary: summarized.summary,
+            messageId: summarized.summarizedThroughId,
+          };
+        }
+        if (Array.isArray(interrupts)) {
+          for (const item of interrupts) {
+            if (item?.value) {
+              yield { type: "interrupt", interrupt: item.value as ToolApprovalRequest };
+            }
+          }
+        }
+        continue;
+      }
+
       if (chunkType === "messages" && Array.isArray(chunkData) && chunkData.length >= 1) {
         const message = chunkData[0];
         if (!message) continue;
@@ -117,6 +333,25 @@ async function* tokenGenerator(
           const aiMessage = message as any;
           const content = aiMessage.content;
 
+          // Metadata set by the agent's fallback chain (see AgentBuilder.callModel)
+          const metadata = (chunkData[1] || {}) as Record<string, unknown>;
+          if (
+            typeof metadata.agent_model === "string" &&
+            aiMessage.id &&
+            !reportedMessageIds.has(aiMessage.id)
+          ) {
+            reportedMessageIds.add(aiMessage.id);
+            yield {
+              type: "model",
+              model: {
+                provider: String(metadata.agent_provider),
+                model: metadata.agent_model,
+                fallback: metadata.agent_fallback === true,
+              },
+              messageId: aiMessage.id,
+            };
+          }
+
           // Extract text content - can be string or array of content items
           if (typeof content === "string" && content) {
             yield { type: "token", content, messageId: aiMessage.id };
@@ -188,14 +423,105 @@ async function* tokenGenerator(
 // Export tokenGenerator for testing purposes
 export { tokenGenerator };
 
+/**
+ * Fetches the tool approval requests a thread is currently waiting on.
+ * @param threadId - The ID of the thread to inspect.
+ * @param checkpointId - Checkpoint to read instead of the latest one.
+ */
+export async function fetchPendingInterrupts(
+  threadId: string,
+  checkpointId?: string,
+): Promise<ToolApprovalRequest[]> {
+  return getPendingInterrupts<ToolApprovalRequest>(threadId, checkpointId);
+}
+
+/**
+ * Fetches the running summary of a thread's older messages, if it was summarized.
+ * @param threadId - The ID of the thread to inspect.
+ * @param checkpointId - Checkpoint to read instead of the latest one.
+ */
+export async function fetchThreadSummary(
+  threadId: string,
+  checkpointId?: string,
+): Promise<ConversationSummary | null> {
+  return getSummaryState(threadId, checkpointId);
+}
+
+/**
+ * Fetches the branch information of the messages shown, see buildMessageBranches. Reads
+ * the latest checkpoint of every other branch and the thread's first checkpoint, not the
+ * checkpoints in between.
+ * @param threadId - The ID of the thread to inspect.
+ * @param messages - The messages shown, as returned by fetchThreadHistory.
+ * @param checkpointId - Checkpoint the messages were read from, the latest one if omitted.
+ */
+export async function fetchMessageBranches(
+  threadId: string,
+  messages: MessageResponse[],
+  checkpointId?: string,
+): Promise<{ checkpointId: string | null; branches: Record<string, MessageBranch> }> {
+  const links = await getCheckpointLinks(threadId);
+  const shownCheckpointId = checkpointId ?? links[0]?.checkpointId ?? null;
+  const messageIds = messages.map(({ data }) => data.id);
+  if (!shownCheckpointId) {
+    return { checkpointId: null, branches: buildMessageBranches([], links, messageIds) };
+  }
+
+  const readMessageIds = (id: string) =>
+    id === shownCheckpointId ? messageIds : getCheckpointMessageIds(threadId, id);
+  const chain = getCheckpointChain(links, shownCheckpointId);
+  const [tips, firstMessageIds] = await Promise.all([
+    Promise.all(
+      findBranchTips(links).map(async (id) => ({
+        checkpointId: id,
+        messageIds: await readMessageIds(id),
+      })),
+    ),
+    readMessageIds(chain[chain.length - 1]),
+  ]);
+  return {
+    checkpointId: shownCheckpointId,
+    branches: buildMessageBranches(tips, links, messageIds, firstMessageIds.length),
+  };
+}
+
+/**
+ * Fetches the checkpoint right before a message, to regenerate or edit it from there.
+ * @param threadId - The ID of the thread to inspect.
+ * @param messageId - The message, as shown at checkpointId.
+ * @param checkpointId - Checkpoint of the conversation shown, the latest one if omitted.
+ * @returns The checkpoint, or null when the message isn't shown or nothing precedes it.
+ */
+export async function fetchParentCheckpoint(
+  threadId: string,
+  messageId: string,
+  checkpointId?: string,
+): Promise<string | null> {
+  const links = await getCheckpointLinks(threadId);
+  const shownCheckpointId = checkpointId ?? links[0]?.checkpointId;
+  if (!shownCheckpointId) return null;
+
+  const position = (await getCheckpointMessageIds(threadId, shownCheckpointId)).indexOf(messageId);
+  if (position === -1) return null;
+  return findParentCheckpoint(
+    getCheckpointChain(links, shownCheckpointId),
+    position,
+    async (id) => (await getCheckpointMessageIds(threadId, id)).length,
+  );
+}
+
 /**
  * Fetches the message history for a specific thread.
  * @param threadId - The ID of the thread to retrieve history for.
+ * @param checkpointId - Checkpoint to read instead of the latest one, e.g. another branch.
  * @returns An array of MessageResponse objects for the API response.
  */
-export async function fetchThreadHistory(threadId: string) {
-  const messages = await getHistory(threadId);
-  return messages.map((msg) => {
+export async function fetchThreadHistory(
+  threadId: string,
+  checkpointId?: string,
+): Promise<MessageResponse[]> {
+  const messages = await getHistory(threadId, checkpointId);
+  return messages.map((msg): MessageResponse => {
     const msgType = msg._getType();
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const msgAny = msg as any;
@@ -224,7 +550,13 @@ export async function fetchThreadHistory(threadId: string) {
         ...(msg.additional_kwargs && Object.keys(msg.additional_kwargs).length > 0
           ? { additional_kwargs: msg.additional_kwargs }
           : {}),
-      },
+        // Carries the name of the model that wrote an AI message
+        ...(msgType === "ai" &&
+        msg.response_metadata &&
+        Object.keys(msg.response_metadata).length > 0
+          ? { response_metadata: msg.response_metadata }
+          : {}),
+      } as MessageResponse["data"],
     };
   });
 }
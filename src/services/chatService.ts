@@ -1,4 +1,16 @@
-import type { MessageOptions, MessageResponse, Thread } from "@/types/message";
+import type {
+  MessageOptions,
+  Thread,
+  ThreadBulkAction,
+  ThreadFilters,
+  ThreadHistoryResponse,
+  ThreadPage,
+  ThreadSettings,
+  ThreadSort,
+  ThreadTag,
+  ThreadUpdate,
+} from "@/types/message";
+import type { ExportFormat } from "@/types/export";
 
 export interface ChatServiceConfig {
   baseUrl?: string;
@@ -25,15 +37,46 @@ function getUrl(endpoint: keyof Required<ChatServiceConfig>["endpoints"]): strin
   return `${config.baseUrl}${config.endpoints?.[endpoint] || ""}`;
 }
 
-export async function fetchMessageHistory(threadId: string): Promise<MessageResponse[]> {
-  const response = await fetch(`${getUrl("history")}/${threadId}`, {
+/**
+ * Loads a thread's messages at its latest checkpoint, or at `checkpointId` to show
+ * another branch.
+ */
+export async function fetchMessageHistory(
+  threadId: string,
+  checkpointId?: string,
+): Promise<ThreadHistoryResponse> {
+  const params = new URLSearchParams({ detail: "true" });
+  if (checkpointId) params.set("checkpointId", checkpointId);
+  const response = await fetch(`${getUrl("history")}/${threadId}?${params}`, {
     headers: config.headers,
   });
   if (!response.ok) {
     throw new Error("Failed to load history");
   }
   const data = await response.json();
-  return data as MessageResponse[];
+  return data as ThreadHistoryResponse;
+}
+
+/**
+ * Looks up the checkpoint right before a message of the conversation shown at
+ * `checkpointId`, to regenerate or edit the message from there.
+ */
+export async function fetchParentCheckpoint(
+  threadId: string,
+  messageId: string,
+  checkpointId?: string,
+): Promise<string> {
+  const params = new URLSearchParams({ messageId });
+  if (checkpointId) params.set("checkpointId", checkpointId);
+  const response = await fetch(`${getUrl("history")}/${threadId}/parent?${params}`, {
+    headers: config.headers,
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || "Failed to find the checkpoint before the message");
+  }
+  const { checkpointId: parentCheckpointId } = await response.json();
+  return parentCheckpointId;
 }
 
 /**
@@ -54,6 +97,7 @@ export function createMessageStream(
   if (opts?.provider) params.set("provider", opts.provider);
   if (opts?.tools?.length) params.set("tools", opts.tools.join(","));
   if (opts?.allowTool) params.set("allowTool", opts.allowTool);
+  if (opts?.toolDecisions) params.set("toolDecisions", JSON.stringify(opts.toolDecisions));
   if (opts?.approveAllTools !== undefined)
     params.set("approveAllTools", opts.approveAllTools ? "true" : "false");
   if (opts?.attachments && opts.attachments.length > 0) {
@@ -63,8 +107,27 @@ export function createMessageStream(
   return new EventSource(`${getUrl("stream")}?${params}`);
 }
 
-export async function fetchThreads(): Promise<Thread[]> {
-  const response = await fetch(getUrl("threads"), {
+/**
+ * Loads a page of threads; `cursor` is the `nextCursor` of the previous page.
+ */
+export async function fetchThreads(
+  params: {
+    cursor?: string;
+    limit?: number;
+    sort?: ThreadSort;
+    order?: "asc" | "desc";
+  } & ThreadFilters = {},
+): Promise<ThreadPage> {
+  const query = new URLSearchParams();
+  if (params.cursor) query.set("cursor", params.cursor);
+  if (params.limit) query.set("limit", String(params.limit));
+  if (params.sort) query.set("sort", params.sort);
+  if (params.order) query.set("order", params.order);
+  if (params.archived) query.set("archived", "true");
+  if (params.folderId) query.set("folderId", params.folderId);
+  if (params.tag) query.set("tag", params.tag);
+  if (params.q) query.set("q", params.q);
+  const response = await fetch(`${getUrl("threads")}?${query}`, {
     headers: config.headers,
   });
   if (!response.ok) {
@@ -98,3 +161,97 @@ export async function deleteThread(threadId: string): Promise<void> {
     throw new Error(errorData.error || "Failed to delete thread");
   }
 }
+
+/**
+ * Renames, tags, pins, archives or files a thread.
+ */
+export async function updateThread(threadId: string, changes: ThreadUpdate): Promise<Thread> {
+  const response = await fetch(getUrl("threads"), {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/json",
+      ...config.headers,
+    },
+    body: JSON.stringify({ ...changes, id: threadId }),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || "Failed to update thread");
+  }
+  return await response.json();
+}
+
+/**
+ * Applies one action to several threads.
+ * @returns The number of threads changed
+ */
+export async function bulkUpdateThreads(bulk: ThreadBulkAction): Promise<number> {
+  const response = await fetch(`${getUrl("threads")}/bulk`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...config.headers,
+    },
+    body: JSON.stringify(bulk),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || "Failed to update threads");
+  }
+  const { updated } = await response.json();
+  return updated;
+}
+
+export async function fetchThreadTags(): Promise<ThreadTag[]> {
+  const response = await fetch(`${getUrl("threads")}/tags`, {
+    headers: config.headers,
+  });
+  if (!response.ok) {
+    throw new Error("Failed to load thread tags");
+  }
+  const { tags } = await response.json();
+  return tags;
+}
+
+/**
+ * Copies a thread's conversation up to a message into a new thread.
+ */
+export async function forkThread(threadId: string, messageId: string): Promise<Thread> {
+  const response = await fetch(`${getUrl("threads")}/${threadId}/fork`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...config.headers,
+    },
+    body: JSON.stringify({ messageId }),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || "Failed to fork thread");
+  }
+  return await response.json();
+}
+
+export async function fetchThreadSettings(threadId: string): Promise<ThreadSettings> {
+  const response = await fetch(`${getUrl("threads")}/${threadId}/settings`, {
+    headers: config.headers,
+  });
+  if (!response.ok) {
+    throw new Error("Failed to load thread settings");
+  }
+  return await response.json();
+}
+
+/**
+ * URL that downloads a thread as a Markdown, JSON or HTML file. Attachments are linked
+ * to storage unless `inlineAttachments` embeds their content.
+ */
+export function getThreadExportUrl(
+  threadId: string,
+  format: ExportFormat,
+  inlineAttachments = false,
+): string {
+  const params = new URLSearchParams({ format });
+  if (inlineAttachments) params.set("attachments", "inline");
+  return `${getUrl("threads")}/${threadId}/export?${params}`;
+}
@@ -0,0 +1,46 @@
+import type { UsageReport } from "./usage";
+
+export type ExportFormat = "md" | "json" | "html";
+
+/** A file attached to a user message; inlined exports carry its data or text */
+export interface ExportedAttachment {
+  name: string;
+  type: string;
+  size: number;
+  url: string;
+  dataUrl?: string; // images and PDFs
+  text?: string; // text files
+}
+
+export interface ExportedToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+/** A message of an exported transcript */
+export interface ExportedMessage {
+  id: string;
+  role: "user" | "assistant" | "tool" | "error";
+  content: string;
+  model?: string; // model that wrote an assistant message, when the provider reported it
+  toolCalls?: ExportedToolCall[];
+  tool?: { name: string; callId: string; status?: string }; // the call a tool result answers
+  attachments?: ExportedAttachment[];
+}
+
+/** A thread as exported by GET /api/agent/threads/{id}/export?format=json */
+export interface ThreadExport {
+  thread: {
+    id: string;
+    title: string;
+    tags: string[];
+    folder: string | null; // folder name
+    createdAt: string;
+    updatedAt: string;
+  };
+  model: { provider: string; model: string; profile: string | null }; // the thread's settings
+  usage: UsageReport; // grouped by model
+  exportedAt: string;
+  messages: ExportedMessage[];
+}
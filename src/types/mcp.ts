@@ -3,6 +3,21 @@ export enum MCPServerType {
   http = "http",
 }
 
+export enum ToolApprovalPolicy {
+  always_allow = "always_allow",
+  always_ask = "always_ask",
+  always_deny = "always_deny",
+}
+
+export interface ToolPolicy {
+  id: string;
+  serverId: string;
+  toolName: string;
+  policy: ToolApprovalPolicy;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface MCPTool {
   name: string;
   description?: string;
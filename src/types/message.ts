@@ -1,10 +1,75 @@
+import type { GenerationParams } from "./model";
+
 export interface Thread {
   id: string;
   title?: string;
+  titleSource?: "initial" | "generated" | "manual";
+  tags: string[];
+  pinned: boolean;
+  archived: boolean;
+  folderId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A folder threads can be filed in, as returned by /api/thread-folders */
+export interface ThreadFolder {
+  id: string;
+  name: string;
+  threadCount: number;
   createdAt: string;
   updatedAt: string;
 }
 
+export type ThreadSort = "updatedAt" | "createdAt" | "title";
+
+/** Filters of GET /api/agent/threads; `folderId` is "none" for threads outside folders */
+export interface ThreadFilters {
+  archived?: boolean;
+  folderId?: string;
+  tag?: string;
+  q?: string; // text the title or id contains
+}
+
+/** Changes of PATCH /api/agent/threads, `folderId: null` takes a thread out of its folder */
+export type ThreadUpdate = Partial<Pick<Thread, "tags" | "pinned" | "archived" | "folderId">> & {
+  title?: string;
+};
+
+/** Body of POST /api/agent/threads/bulk */
+export type ThreadBulkAction =
+  | { action: "pin" | "unpin" | "archive" | "unarchive" | "delete"; ids: string[] }
+  | { action: "addTags" | "removeTags"; ids: string[]; tags: string[] }
+  | { action: "move"; ids: string[]; folderId: string | null };
+
+/** A tag in use and the number of threads carrying it */
+export interface ThreadTag {
+  tag: string;
+  count: number;
+}
+
+/** A page of GET /api/agent/threads */
+export interface ThreadPage {
+  threads: Thread[];
+  nextCursor: string | null; // null on the last page
+  total: number; // number of threads matching the filters across all pages
+}
+
+/**
+ * Agent settings stored per thread. The stream route uses them as defaults, and the
+ * options of each request replace them.
+ */
+export interface ThreadSettings {
+  provider?: string;
+  model?: string;
+  systemPrompt?: string;
+  tools?: string[];
+  approveAllTools?: boolean;
+  params?: GenerationParams;
+  fallbacks?: { provider: string; model: string }[]; // empty disables the MODEL_FALLBACKS default
+  profileId?: string;
+}
+
 export interface FileAttachment {
   url: string;
   key: string;
@@ -16,10 +81,26 @@ export interface FileAttachment {
 export interface MessageOptions {
   model?: string;
   provider?: string;
+  fallbacks?: { provider: string; model: string }[]; // tried in order when the model keeps failing
+  params?: GenerationParams; // temperature, max tokens, top_p, stop, seed, reasoning effort
+  systemPrompt?: string; // empty uses the default system prompt
+  profileId?: string | null; // agent profile of the thread, null detaches the current one
+  userName?: string; // {{user_name}} of the system prompt template
   tools?: string[];
-  allowTool?: "allow" | "deny";
+  allowTool?: "allow" | "deny"; // blanket decision applied to every pending tool call
+  toolDecisions?: ToolReviewDecisions; // per tool call decisions, keyed by tool call id
   approveAllTools?: boolean; // if true, skip tool approval prompts
   attachments?: FileAttachment[];
+  // Continue from this checkpoint instead of the latest one, forking a new branch
+  checkpointId?: string;
+  regenerate?: boolean; // re-run from checkpointId without a new message
+}
+
+/** The model that produced an AI message, reported by the stream's "model" chunk */
+export interface AnsweringModel {
+  provider: string;
+  model: string;
+  fallback: boolean; // true when the primary model failed and a fallback answered
 }
 
 export interface MessageRequest {
@@ -64,6 +145,7 @@ export interface AIMessageData {
   additional_kwargs?: Record<string, unknown>;
   invalid_tool_calls?: unknown[];
   response_metadata?: Record<string, unknown>;
+  answeredBy?: AnsweringModel; // only known for messages streamed in this session
 }
 
 export interface ToolMessageData {
@@ -84,9 +166,29 @@ export interface BasicMessageData {
   attachments?: FileAttachment[];
 }
 
+/**
+ * Reviewer decision for a single pending tool call.
+ * Mirrors the resume actions handled by the graph's tool_approval node:
+ *  - continue: run the tool call as proposed
+ *  - update: run the tool call with `data` as the new arguments
+ *  - feedback: skip the tool call and return `data` to the model as the tool result
+ */
+export interface ToolReviewDecision {
+  action: "continue" | "update" | "feedback";
+  data?: Record<string, unknown> | string;
+}
+
+/** Decisions for every pending tool call of a turn, keyed by tool call id */
+export type ToolReviewDecisions = Record<string, ToolReviewDecision>;
+
+/** Interrupt payload raised by the graph when tool calls need human review */
+export interface ToolApprovalRequest {
+  question: string;
+  toolCalls: ToolCall[];
+}
+
 export interface ToolApprovalCallbacks {
-  onApprove: (toolCallId: string) => void;
-  onDeny: (toolCallId: string) => void;
+  onSubmit: (decisions: ToolReviewDecisions) => void;
 }
 
 export interface MessageResponse {
@@ -95,6 +197,34 @@ export interface MessageResponse {
   data: BasicMessageData | AIMessageData | ToolMessageData;
 }
 
+/** Response of the history endpoint */
+export interface ThreadHistoryResponse {
+  messages: MessageResponse[];
+  // Tool approval requests the thread is waiting on; empty when the run is not interrupted
+  interrupts: ToolApprovalRequest[];
+  // Set once older messages were summarized to fit the model's context window
+  summary: ConversationSummary | null;
+  // Checkpoint the messages were read from, the latest one unless another was requested
+  checkpointId: string | null;
+  // Branch information by message id
+  branches: Record<string, MessageBranch>;
+}
+
+/** Versions of a message left by regenerating or editing it */
+export interface MessageBranch {
+  // A checkpoint precedes the message, so it can be regenerated or edited; the checkpoint
+  // itself is looked up when needed, see GET /api/agent/history/{threadId}/parent
+  replaceable: boolean;
+  checkpointIds: string[]; // latest checkpoint of each version, oldest version first
+  index: number; // version shown, index into checkpointIds
+}
+
+/** Running summary the model sees instead of the messages it covers */
+export interface ConversationSummary {
+  summary: string;
+  summarizedThroughId: string; // last message covered by the summary
+}
+
 export interface MultimodalMessageContent {
   type: string;
   text?: string;
@@ -0,0 +1,43 @@
+export enum ModelProviderType {
+  openai = "openai",
+  google = "google",
+  deepseek = "deepseek",
+  anthropic = "anthropic",
+  openai_compatible = "openai_compatible",
+}
+
+/**
+ * A registered model provider as returned by /api/model-providers.
+ * The API key itself is never sent to the client.
+ */
+export interface ModelProvider {
+  id: string;
+  name: string;
+  type: ModelProviderType;
+  baseURL: string | null;
+  hasApiKey: boolean;
+  allowedModels: string[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProviderModelsData {
+  provider: string;
+  models: string[];
+}
+
+export type ReasoningEffort = "low" | "medium" | "high";
+
+/**
+ * Sampling and generation parameters of a run. Unset fields use the provider defaults;
+ * fields a provider doesn't support are ignored.
+ */
+export interface GenerationParams {
+  temperature?: number;
+  maxTokens?: number; // maximum tokens of the answer
+  topP?: number;
+  stop?: string[]; // stop sequences
+  seed?: number; // OpenAI and OpenAI-compatible providers only
+  reasoningEffort?: ReasoningEffort; // reasoning effort, or the thinking budget of Anthropic and Gemini models
+}
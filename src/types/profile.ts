@@ -0,0 +1,21 @@
+import type { ToolApprovalPolicy } from "./mcp";
+import type { GenerationParams } from "./model";
+
+/**
+ * A reusable agent configuration as returned by /api/agent-profiles. Unset fields fall
+ * back to the thread's own settings and the server defaults.
+ */
+export interface AgentProfile {
+  id: string;
+  name: string;
+  description: string | null;
+  systemPrompt: string | null;
+  provider: string | null;
+  model: string | null;
+  params: GenerationParams | null;
+  fallbacks: { provider: string; model: string }[] | null;
+  mcpServerIds: string[]; // MCP servers whose tools the agent can use, empty for all enabled servers
+  toolPolicy: ToolApprovalPolicy; // applied to tools without a policy of their own
+  createdAt: string;
+  updatedAt: string;
+}
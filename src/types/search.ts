@@ -0,0 +1,16 @@
+/** Character range of a snippet that matches the search query, `end` exclusive */
+export interface SnippetHighlight {
+  start: number;
+  end: number;
+}
+
+/** A message matching a search, as returned by GET /api/agent/search */
+export interface MessageSearchResult {
+  threadId: string;
+  threadTitle: string;
+  messageId: string;
+  type: "human" | "ai" | "tool";
+  name?: string; // tool name of tool results
+  snippet: string; // excerpt of the message around the first match
+  highlights: SnippetHighlight[];
+}
@@ -0,0 +1,31 @@
+/**
+ * Tokens spent by one model during a run, as carried by "usage" stream chunks
+ */
+export interface TokenUsage {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost?: number | null; // USD, null when the model has no known price
+}
+
+/** Summed usage of a set of runs */
+export interface UsageTotals {
+  runs: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number; // USD, runs of unpriced models count as 0
+  unpricedRuns: number; // runs whose model has no known price
+}
+
+export type UsageGroupBy = "model" | "provider" | "thread" | "day";
+
+/** Response of GET /api/usage */
+export interface UsageReport {
+  totals: UsageTotals;
+  // Present when groupBy is set, ordered by cost then tokens. The key is null for the
+  // usage of deleted threads when grouping by thread.
+  groups?: (UsageTotals & { key: string | null })[];
+}